@@ -0,0 +1,139 @@
+// Drives one whole round against a local Supabase stack whose edge functions run with
+// AI_MODE=offline, then prints what aired. Offline, the same round always airs the same
+// lines, so the output is recorded in offline-round.golden.json and compared on every run.
+//
+//   supabase start && supabase db reset
+//   echo AI_MODE=offline > /tmp/offline.env && supabase functions serve --env-file /tmp/offline.env
+//   eval "$(supabase status -o env)" && npm run test:offline
+//
+// The round is scheduled and opened the way the show does it, so the show must be idle:
+// run it on a freshly reset database. `npm run offline:round -- --write FILE` records.
+//
+// Reads API_URL, ANON_KEY and SERVICE_ROLE_KEY (as `supabase status -o env` prints them),
+// or SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY.
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { createClient } from "@supabase/supabase-js";
+
+const url = process.env.API_URL ?? process.env.SUPABASE_URL;
+const anonKey = process.env.ANON_KEY ?? process.env.SUPABASE_ANON_KEY;
+const serviceKey = process.env.SERVICE_ROLE_KEY ?? process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!url || !anonKey || !serviceKey) {
+  console.error("Set API_URL, ANON_KEY and SERVICE_ROLE_KEY, e.g. eval \"$(supabase status -o env)\"");
+  process.exit(2);
+}
+
+// A fixed persona, so every seed derived from it is the same from run to run
+const PERSONA = { id: "0ff11e00-0000-4000-8000-000000000001", username: "Offline Test KOL" };
+const ROASTS = [
+  { clientId: "offline-viewer-1", transcript: "Your bags are so heavy they have their own gravity." },
+  { clientId: "offline-viewer-2", transcript: "You've been early to every rug pull this cycle." },
+  { clientId: "offline-viewer-3", transcript: "Your price targets are just lottery numbers with confidence." },
+];
+const RUNNER_TICKS = 30;
+const DEFAULT_LOCK_GRACE_SECONDS = 10; // DEFAULT_SHOW_CONFIG in _shared/show-config.ts
+const TICK_PAUSE_MS = 2000;
+
+const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+async function invoke(name, key, body) {
+  const response = await fetch(`${url}/functions/v1/${name}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", apikey: key, Authorization: `Bearer ${key}` },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(`${name} failed with ${response.status}: ${data.error ?? "no body"}`);
+  return data;
+}
+
+async function must(query) {
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Queue the persona's session at the front of the lineup, as a producer would
+await must(supabase.from("personas").upsert(PERSONA));
+const sessionId = await must(supabase.rpc("schedule_session", { p_persona_id: PERSONA.id }));
+await must(supabase.rpc("reorder_lineup", { p_session_ids: [sessionId] }));
+
+// The round controller reveals it as up next, then opens it once UP_NEXT has run out
+const revealed = await invoke("session-manager", serviceKey, {});
+if (revealed.processed.revealedSessionId !== sessionId) {
+  throw new Error("session-manager did not reveal the scheduled round; start from a freshly reset database");
+}
+await must(supabase
+  .from("global_round_state")
+  .update({ phase_ends_at: new Date().toISOString() })
+  .eq("session_id", sessionId));
+const opened = await invoke("session-manager", serviceKey, {});
+if (opened.processed.openedSessionId !== sessionId) {
+  throw new Error("session-manager did not open the scheduled round");
+}
+
+// Roasts arrive the way viewers send them, through submit-roast with the anon key
+for (const roast of ROASTS) {
+  const result = await invoke("submit-roast", anonKey, { sessionId, ...roast });
+  if (result.moderationStatus !== "approved") {
+    throw new Error(`"${roast.transcript}" was ${result.moderationStatus}`);
+  }
+}
+
+// Close the window and let the round controller take it to LIVE in one tick
+const config = await must(supabase.from("show_config").select("lock_grace_seconds").limit(1).maybeSingle());
+const lockGraceSeconds = config?.lock_grace_seconds ?? DEFAULT_LOCK_GRACE_SECONDS;
+await must(supabase
+  .from("roast_sessions")
+  .update({ lock_time: new Date(Date.now() - (lockGraceSeconds + 1) * 1000).toISOString() })
+  .eq("id", sessionId));
+const live = await invoke("session-manager", serviceKey, {});
+if (!live.processed.lockedToLive) throw new Error("session-manager did not take the round live");
+
+// Tick the runner until it has published the whole timeline
+let completed = false;
+for (let tick = 0; tick < RUNNER_TICKS && !completed; tick++) {
+  await invoke("show-runner", serviceKey, {});
+  const session = await must(supabase.from("roast_sessions").select("timeline_completed_at").eq("id", sessionId).single());
+  completed = !!session.timeline_completed_at;
+  if (!completed) await new Promise((resolve) => setTimeout(resolve, TICK_PAUSE_MS));
+}
+if (!completed) throw new Error(`Timeline not complete after ${RUNNER_TICKS} runner ticks`);
+
+// What aired, without ids, URLs or clock times
+const exchanges = await must(supabase
+  .from("roast_exchanges")
+  .select("sequence_number, kind, user_transcript, host_lines, llm_provider, llm_model")
+  .eq("session_id", sessionId)
+  .order("sequence_number", { ascending: true }));
+const segments = await must(supabase
+  .from("show_segments")
+  .select("position, kind, speaker, text, duration_ms, timing")
+  .eq("session_id", sessionId)
+  .order("position", { ascending: true }));
+
+const aired = {
+  exchanges: exchanges.map((exchange) => ({
+    ...exchange,
+    host_lines: (exchange.host_lines ?? []).map(({ speaker, text }) => ({ speaker, text })),
+  })),
+  segments: segments.map(({ timing, ...segment }) => ({ ...segment, timed_characters: timing?.characters.length ?? 0 })),
+};
+const output = `${JSON.stringify(aired, null, 2)}\n`;
+const digest = createHash("sha256").update(output).digest("hex");
+
+const [flag, file] = process.argv.slice(2);
+if (flag === "--write" && file) {
+  writeFileSync(file, output);
+  console.log(`Recorded ${segments.length} segments to ${file} (${digest})`);
+} else if (flag === "--expect" && file) {
+  if (readFileSync(file, "utf8") !== output) {
+    console.error(`Aired round differs from ${file}:\n${output}`);
+    process.exit(1);
+  }
+  console.log(`Aired round matches ${file} (${digest})`);
+} else {
+  process.stdout.write(output);
+  console.log(`sha256 ${digest}`);
+}
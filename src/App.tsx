@@ -3,25 +3,29 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
-import { SessionManagerPoller } from "@/components/SessionManagerPoller";
 import Index from "./pages/Index";
 import Studio from "./pages/Studio";
 import Archives from "./pages/Archives";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
+import { syncServerClock } from "@/lib/serverClock";
 
 const queryClient = new QueryClient();
 
+// Estimate the server clock offset before the first countdown renders
+void syncServerClock();
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <SessionManagerPoller />
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/studio" element={<Studio />} />
           <Route path="/archives" element={<Archives />} />
+          <Route path="/admin" element={<Admin />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -3,7 +3,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Play, Pause, RotateCcw, ArrowLeft, Volume2, VolumeX, Maximize2, Minimize2 } from "lucide-react";
 import { SmallHost } from "./SmallHost";
+import { useHosts } from "@/hooks/useHosts";
 import { AudioWaveformVisualizer } from "./AudioWaveformVisualizer";
+import { KaraokeCaption } from "./KaraokeCaption";
+import { mouthOpenness, type SpeechTiming } from "@/lib/speechTiming";
 
 interface ArchiveStudioViewProps {
   session: {
@@ -16,22 +19,33 @@ interface ArchiveStudioViewProps {
   onClose: () => void;
 }
 
+interface HostLine {
+  speaker: "A" | "B";
+  text: string;
+  audio_url: string | null;
+  timing?: SpeechTiming | null; // Absent on exchanges aired before timing was stored
+}
+
 interface Exchange {
   id: string;
+  kind: "roast" | "no_roasts" | "outro";
   user_transcript: string | null;
   user_audio_url: string | null;
   host_type: string;
   host_response: string;
   host_audio_url: string | null;
+  host_lines: HostLine[] | null; // Every host line when the hosts bantered
   sequence_number: number;
 }
 
 interface DisplayItem {
   text: string;
   speaker: "user" | "hostA" | "hostB";
+  timing?: SpeechTiming | null;
 }
 
 export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps) {
+  const hosts = useHosts();
   const [exchanges, setExchanges] = useState<Exchange[]>([]);
   const [loading, setLoading] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -158,6 +172,17 @@ export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps)
     });
   };
 
+  // How far into the playing line's audio the replay is, in ms
+  const linePosition = useCallback(
+    () => (audioRef.current ? audioRef.current.currentTime * 1000 : null),
+    []
+  );
+
+  const lineMouth = useCallback(
+    () => (currentDisplay?.timing ? mouthOpenness(currentDisplay.timing, linePosition()) : null),
+    [currentDisplay, linePosition]
+  );
+
   const playSequence = useCallback(async (startIdx: number) => {
     playingRef.current = true;
     
@@ -169,39 +194,50 @@ export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps)
       const exchange = exchanges[i];
       setCurrentIndex(i);
       
-      const userText = exchange.user_transcript || "[Voice clip]";
-      
-      // Show user roast with typewriter
-      setCurrentSpeaker("user");
-      setCurrentDisplay({ speaker: "user", text: userText });
-      typeText(userText, 25);
-      
-      // Play user audio if available
-      if (exchange.user_audio_url) {
-        await playAudio(exchange.user_audio_url);
-      } else {
-        await new Promise(resolve => setTimeout(resolve, 2500));
+      // Host-only segments (no-roasts commentary, outro) have no audience part
+      if (exchange.kind === "roast") {
+        const userText = exchange.user_transcript || "[Voice clip]";
+
+        // Show user roast with typewriter
+        setCurrentSpeaker("user");
+        setCurrentDisplay({ speaker: "user", text: userText });
+        typeText(userText, 25);
+
+        // Play user audio if available
+        if (exchange.user_audio_url) {
+          await playAudio(exchange.user_audio_url);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, 2500));
+        }
+
+        await waitWhilePaused();
+        if (!mountedRef.current || !playingRef.current) break;
+
+        // Transition
+        setIsTransitioning(true);
+        await new Promise(resolve => setTimeout(resolve, 500));
       }
       
-      await waitWhilePaused();
-      if (!mountedRef.current || !playingRef.current) break;
-      
-      // Transition
-      setIsTransitioning(true);
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Show stored host response
+      // Show and play each stored host line in turn
       setIsTransitioning(false);
-      const hostSpeaker: "hostA" | "hostB" = exchange.host_type === "A" ? "hostA" : "hostB";
-      setCurrentSpeaker(hostSpeaker);
-      setCurrentDisplay({ speaker: hostSpeaker, text: exchange.host_response });
-      typeText(exchange.host_response, 20);
-      
-      // Play stored host audio
-      if (exchange.host_audio_url) {
-        await playAudio(exchange.host_audio_url);
-      } else {
-        await new Promise(resolve => setTimeout(resolve, 3000));
+      const hostLines: HostLine[] = exchange.host_lines?.length
+        ? exchange.host_lines
+        : [{ speaker: exchange.host_type === "A" ? "A" : "B", text: exchange.host_response, audio_url: exchange.host_audio_url }];
+
+      for (const line of hostLines) {
+        await waitWhilePaused();
+        if (!mountedRef.current || !playingRef.current) break;
+
+        const hostSpeaker: "hostA" | "hostB" = line.speaker === "A" ? "hostA" : "hostB";
+        setCurrentSpeaker(hostSpeaker);
+        setCurrentDisplay({ speaker: hostSpeaker, text: line.text, timing: line.timing });
+        if (!line.timing) typeText(line.text, 20);
+
+        if (line.audio_url) {
+          await playAudio(line.audio_url);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, 3000));
+        }
       }
       
       // Brief pause between exchanges
@@ -402,12 +438,18 @@ export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps)
                 {currentDisplay.speaker === "user"
                   ? "🎤 AUDIENCE ROAST"
                   : currentDisplay.speaker === "hostA"
-                  ? "🔥 CHAOS CARL"
-                  : "🧊 ROAST RONNIE"}
+                  ? `🔥 ${hosts.A.name.toUpperCase()}`
+                  : `🧊 ${hosts.B.name.toUpperCase()}`}
               </div>
               <p className="text-base md:text-lg text-foreground leading-relaxed">
-                {displayedText}
-                {isTyping && <span className="inline-block w-0.5 h-5 bg-foreground ml-1 animate-pulse" />}
+                {currentDisplay.timing ? (
+                  <KaraokeCaption timing={currentDisplay.timing} position={linePosition} />
+                ) : (
+                  <>
+                    {displayedText}
+                    {isTyping && <span className="inline-block w-0.5 h-5 bg-foreground ml-1 animate-pulse" />}
+                  </>
+                )}
               </p>
             </div>
           ) : (
@@ -444,7 +486,7 @@ export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps)
             currentSpeaker === "hostA" ? "scale-110" : "opacity-60"
           }`}>
             <div className="relative">
-              <SmallHost type="hostA" isSpeaking={currentSpeaker === "hostA"} size="small" />
+              <SmallHost type="hostA" isSpeaking={currentSpeaker === "hostA"} size="small" mouth={lineMouth} />
               {currentSpeaker === "hostA" && (
                 <div className="absolute -inset-2 rounded-full border-2 border-orange-400/50 animate-pulse" />
               )}
@@ -457,7 +499,7 @@ export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps)
             <span className={`text-xs font-pixel uppercase tracking-wider ${
               currentSpeaker === "hostA" ? "text-orange-400" : "text-muted-foreground"
             }`}>
-              Chaos Carl
+              {hosts.A.name}
             </span>
           </div>
 
@@ -469,7 +511,7 @@ export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps)
             currentSpeaker === "hostB" ? "scale-110" : "opacity-60"
           }`}>
             <div className="relative">
-              <SmallHost type="hostB" isSpeaking={currentSpeaker === "hostB"} size="small" />
+              <SmallHost type="hostB" isSpeaking={currentSpeaker === "hostB"} size="small" mouth={lineMouth} />
               {currentSpeaker === "hostB" && (
                 <div className="absolute -inset-2 rounded-full border-2 border-blue-400/50 animate-pulse" />
               )}
@@ -482,7 +524,7 @@ export function ArchiveStudioView({ session, onClose }: ArchiveStudioViewProps)
             <span className={`text-xs font-pixel uppercase tracking-wider ${
               currentSpeaker === "hostB" ? "text-blue-400" : "text-muted-foreground"
             }`}>
-              Roast Ronnie
+              {hosts.B.name}
             </span>
           </div>
         </div>
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { serverNow } from "@/lib/serverClock";
 
 interface CountdownTimerProps {
   targetTime: Date;
@@ -10,7 +11,7 @@ export function CountdownTimer({ targetTime, onComplete }: CountdownTimerProps)
 
   useEffect(() => {
     const calculateTimeLeft = () => {
-      const now = new Date().getTime();
+      const now = serverNow();
       const target = targetTime.getTime();
       const difference = target - now;
 
@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SmallHost } from "@/components/SmallHost";
+import { useToast } from "@/hooks/use-toast";
+import {
+  activateHost,
+  DEFAULT_CAST,
+  fetchHosts,
+  saveHost,
+  type HostAppearance,
+  type HostDefinition,
+  type HostDraft,
+} from "@/lib/hosts";
+import { prewarmSpeechCache } from "@/lib/speech";
+
+const NEW_HOST = "new";
+
+const COLOUR_FIELDS: (keyof Omit<HostAppearance, "accessory">)[] = ["skin", "hair", "shirt", "pants", "glow"];
+
+function toDraft(host: HostDefinition): HostDraft {
+  const { id: _id, is_active: _active, ...draft } = host;
+  return draft;
+}
+
+// A guest host starts as a copy of the seat's built-in host
+function newHostDraft(): HostDraft {
+  return { ...toDraft(DEFAULT_CAST.A), slug: "guest-host", name: "Guest Host", idle_lines: [] };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Please try again.";
+}
+
+// Producer editor for host characters: prompt, model, voice, idle lines and looks.
+// Saving takes effect from the next generated line; "Put on air" swaps the seat.
+export function HostEditor() {
+  const [hosts, setHosts] = useState<HostDefinition[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(NEW_HOST);
+  const [draft, setDraft] = useState<HostDraft>(newHostDraft);
+  const [idleText, setIdleText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [prewarming, setPrewarming] = useState(false);
+  const { toast } = useToast();
+
+  const selected = hosts.find((host) => host.id === selectedId) ?? null;
+
+  const load = useCallback(async (selectId?: string) => {
+    const next = await fetchHosts();
+    setHosts(next);
+    setSelectedId((current) => selectId ?? (current === NEW_HOST && next[0]?.id ? next[0].id : current));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    const host = hosts.find((item) => item.id === selectedId);
+    const next = host ? toDraft(host) : newHostDraft();
+    setDraft(next);
+    setIdleText(next.idle_lines.join("\n"));
+  }, [hosts, selectedId]);
+
+  const update = <K extends keyof HostDraft>(field: K, value: HostDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const updateAppearance = <K extends keyof HostAppearance>(field: K, value: HostAppearance[K]) =>
+    setDraft((prev) => ({ ...prev, appearance: { ...prev.appearance, [field]: value } }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveHost(selected?.id ?? null, {
+        ...draft,
+        idle_lines: idleText.split("\n").map((line) => line.trim()).filter(Boolean),
+      });
+      await load(saved.id ?? undefined);
+      toast({ title: "Host saved", description: `${saved.name} is up to date.` });
+    } catch (error) {
+      toast({ title: "Save failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    if (!selected?.id) return;
+    try {
+      await activateHost(selected.id);
+      await load(selected.id);
+      toast({ title: "Host on air", description: `${selected.name} now holds seat ${selected.slot}.` });
+    } catch (error) {
+      toast({ title: "Could not swap hosts", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  // Voice new idle lines and intros ahead of the waiting room
+  const handlePrewarm = async () => {
+    setPrewarming(true);
+    try {
+      const result = await prewarmSpeechCache();
+      toast({
+        title: "Voice lines cached",
+        description: `${result.synthesized} new, ${result.cached} already cached${result.failed ? `, ${result.failed} failed` : ""}${result.finished ? "" : ". The rest follow on the next run."}`,
+      });
+    } catch (error) {
+      toast({ title: "Pre-warm failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setPrewarming(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Select value={selectedId} onValueChange={setSelectedId}>
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Choose a host" />
+          </SelectTrigger>
+          <SelectContent>
+            {hosts.map((host) => (
+              <SelectItem key={host.id} value={host.id!}>
+                {host.name} · seat {host.slot}
+                {host.is_active ? " · on air" : ""}
+              </SelectItem>
+            ))}
+            <SelectItem value={NEW_HOST}>+ New guest host</SelectItem>
+          </SelectContent>
+        </Select>
+        {selected?.is_active && <Badge>On air</Badge>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="host-name">Name</Label>
+          <Input id="host-name" value={draft.name} onChange={(e) => update("name", e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="host-slug">Slug</Label>
+          <Input id="host-slug" value={draft.slug} onChange={(e) => update("slug", e.target.value.toLowerCase())} />
+        </div>
+        <div className="space-y-1">
+          <Label>Seat</Label>
+          <Select value={draft.slot} onValueChange={(value) => update("slot", value as HostDraft["slot"])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="A">A (left)</SelectItem>
+              <SelectItem value="B">B (right)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="host-model">Model</Label>
+          <Input id="host-model" value={draft.model} onChange={(e) => update("model", e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="host-prompt">
+          System prompt <span className="text-xs text-muted-foreground">({"{{persona}}"} is the target's name)</span>
+        </Label>
+        <Textarea
+          id="host-prompt"
+          value={draft.system_prompt}
+          onChange={(e) => update("system_prompt", e.target.value)}
+          className="min-h-40 font-mono text-xs"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="host-banter">Banter sketch</Label>
+        <Input
+          id="host-banter"
+          value={draft.banter_persona}
+          placeholder="a washed-up 80s stand-up with rimshot energy"
+          onChange={(e) => update("banter_persona", e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="host-voice">ElevenLabs voice ID</Label>
+          <Input id="host-voice" value={draft.voice_id} onChange={(e) => update("voice_id", e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="host-temperature">Temperature</Label>
+          <Input
+            id="host-temperature"
+            type="number"
+            step="0.1"
+            min={0}
+            max={2}
+            value={draft.temperature}
+            onChange={(e) => update("temperature", Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="host-stability">Stability</Label>
+          <Input
+            id="host-stability"
+            type="number"
+            step="0.05"
+            min={0}
+            max={1}
+            value={draft.voice_stability}
+            onChange={(e) => update("voice_stability", Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="host-style">Style</Label>
+          <Input
+            id="host-style"
+            type="number"
+            step="0.05"
+            min={0}
+            max={1}
+            value={draft.voice_style}
+            onChange={(e) => update("voice_style", Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="host-speed">Speed</Label>
+          <Input
+            id="host-speed"
+            type="number"
+            step="0.05"
+            min={0.7}
+            max={1.2}
+            value={draft.voice_speed}
+            onChange={(e) => update("voice_speed", Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="host-idle">
+          Idle lines <span className="text-xs text-muted-foreground">(one per line, used in the waiting room)</span>
+        </Label>
+        <Textarea id="host-idle" value={idleText} onChange={(e) => setIdleText(e.target.value)} className="min-h-24" />
+      </div>
+
+      <div className="flex gap-6 items-start">
+        <div className="grid grid-cols-2 gap-3 flex-1">
+          {COLOUR_FIELDS.map((field) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`host-${field}`} className="capitalize">{field}</Label>
+              <Input
+                id={`host-${field}`}
+                value={draft.appearance[field]}
+                onChange={(e) => updateAppearance(field, e.target.value)}
+              />
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label>Prop</Label>
+            <Select
+              value={draft.appearance.accessory}
+              onValueChange={(value) => updateAppearance("accessory", value as HostAppearance["accessory"])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="microphone">Microphone</SelectItem>
+                <SelectItem value="glasses">Glasses</SelectItem>
+                <SelectItem value="none">None</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <SmallHost type={draft.slot === "A" ? "hostA" : "hostB"} isSpeaking={false} appearance={draft.appearance} />
+      </div>
+
+      <div className="flex gap-3">
+        <Button onClick={handleSave} disabled={saving || !draft.name.trim() || !draft.system_prompt.trim()}>
+          {saving ? "Saving..." : selected ? "Save host" : "Create host"}
+        </Button>
+        {selected && !selected.is_active && (
+          <Button variant="outline" onClick={handleActivate}>
+            Put on air in seat {selected.slot}
+          </Button>
+        )}
+        <Button variant="outline" className="ml-auto" onClick={handlePrewarm} disabled={prewarming}>
+          {prewarming ? "Caching voice lines..." : "Pre-warm voice lines"}
+        </Button>
+      </div>
+    </div>
+  );
+}
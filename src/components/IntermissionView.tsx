@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { RoundState } from "@/lib/roundState";
+import { serverNow } from "@/lib/serverClock";
+import { PersonaVote } from "./PersonaVote";
+
+interface IntermissionViewProps {
+  roundState: Extract<RoundState, "COOLDOWN" | "UP_NEXT">;
+  sessionId: string | null; // Finished session during COOLDOWN, next session during UP_NEXT
+  phaseEndsAt: number | null; // Unix timestamp ms
+}
+
+interface IntermissionSession {
+  persona_name: string;
+  persona_avatar: string | null;
+}
+
+interface RecapLine {
+  id: string;
+  host_type: string;
+  host_response: string;
+}
+
+const RECAP_LINE_COUNT = 3;
+
+// Full-screen interstitial between rounds: a recap of the round that just
+// ended (COOLDOWN), then the reveal of the next KOL (UP_NEXT).
+export function IntermissionView({ roundState, sessionId, phaseEndsAt }: IntermissionViewProps) {
+  const [session, setSession] = useState<IntermissionSession | null>(null);
+  const [roastCount, setRoastCount] = useState(0);
+  const [recapLines, setRecapLines] = useState<RecapLine[]>([]);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  // Load the session shown in this phase
+  useEffect(() => {
+    if (!sessionId) {
+      setSession(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      const { data } = await supabase
+        .from("roast_sessions")
+        .select("persona_name, persona_avatar")
+        .eq("id", sessionId)
+        .maybeSingle();
+
+      if (!cancelled) setSession(data);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Recap of the finished round
+  useEffect(() => {
+    if (roundState !== "COOLDOWN" || !sessionId) {
+      setRoastCount(0);
+      setRecapLines([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      const { data, count } = await supabase
+        .from("roast_exchanges")
+        .select("id, host_type, host_response", { count: "exact" })
+        .eq("session_id", sessionId)
+        .eq("kind", "roast")
+        .order("sequence_number", { ascending: false })
+        .limit(RECAP_LINE_COUNT);
+
+      if (cancelled) return;
+      setRoastCount(count || 0);
+      setRecapLines((data || []).reverse());
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [roundState, sessionId]);
+
+  // Countdown to the end of the phase
+  useEffect(() => {
+    if (!phaseEndsAt) {
+      setSecondsLeft(0);
+      return;
+    }
+
+    const update = () => {
+      setSecondsLeft(Math.max(0, Math.ceil((phaseEndsAt - serverNow()) / 1000)));
+    };
+
+    update();
+    const interval = setInterval(update, 250);
+    return () => clearInterval(interval);
+  }, [phaseEndsAt]);
+
+  const personaName = session?.persona_name || "???";
+
+  if (roundState === "COOLDOWN") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-background relative overflow-hidden">
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,hsl(260_60%_25%/0.3)_0%,transparent_70%)]" />
+
+        <div className="relative z-20 text-center space-y-6 px-4 max-w-xl">
+          <h2 className="text-3xl md:text-4xl font-pixel text-secondary tracking-wider" style={{
+            textShadow: '0 0 30px hsl(320 100% 60%), 0 0 60px hsl(320 100% 60%)'
+          }}>
+            ROUND OVER
+          </h2>
+
+          <div className="flex flex-col items-center gap-3">
+            {session?.persona_avatar && (
+              <img
+                src={session.persona_avatar}
+                alt={personaName}
+                className="w-24 h-24 object-cover border-4 border-secondary rounded grayscale"
+              />
+            )}
+            <p className="text-2xl font-pixel text-accent">{personaName}</p>
+            <p className="text-sm text-muted-foreground uppercase tracking-[0.3em]">
+              {roastCount} {roastCount === 1 ? "ROAST" : "ROASTS"} SURVIVED
+            </p>
+          </div>
+
+          {recapLines.length > 0 && (
+            <div className="space-y-2 text-left">
+              {recapLines.map((line) => (
+                <div key={line.id} className="p-2 bg-card/70 border border-border rounded">
+                  <span className={`text-[10px] font-bold ${line.host_type === "A" ? "text-primary" : "text-secondary"}`}>
+                    HOST {line.host_type}
+                  </span>
+                  <p className="text-xs text-foreground">{line.host_response}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <PersonaVote />
+
+          <p className="text-[10px] text-muted-foreground uppercase tracking-widest">
+            NEXT KOL REVEALED IN {secondsLeft}s
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-background relative overflow-hidden">
+      {/* Radial gradient background */}
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,hsl(320_100%_30%/0.3)_0%,transparent_70%)]" />
+
+      {/* Animated rings */}
+      <div className="absolute inset-0 flex items-center justify-center">
+        <div className="w-[600px] h-[600px] rounded-full border-2 border-secondary/20 animate-ping" style={{ animationDuration: '2s' }} />
+        <div className="absolute w-[400px] h-[400px] rounded-full border-2 border-primary/20 animate-ping" style={{ animationDuration: '1.5s' }} />
+        <div className="absolute w-[200px] h-[200px] rounded-full border-2 border-accent/20 animate-ping" style={{ animationDuration: '1s' }} />
+      </div>
+
+      <div className="relative z-20 text-center space-y-6">
+        <h2 className="text-3xl md:text-4xl font-pixel text-secondary tracking-wider" style={{
+          textShadow: '0 0 30px hsl(320 100% 60%), 0 0 60px hsl(320 100% 60%)'
+        }}>
+          NEXT UP
+        </h2>
+
+        {/* Countdown number - big and bold */}
+        <div
+          key={secondsLeft}
+          className="text-[150px] md:text-[200px] font-pixel text-primary leading-none animate-pulse"
+          style={{
+            textShadow: '0 0 40px hsl(120 100% 50%), 0 0 80px hsl(120 100% 50%), 0 0 120px hsl(120 100% 50%)'
+          }}
+        >
+          {secondsLeft}
+        </div>
+
+        {/* Next KOL name with glow */}
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground uppercase tracking-[0.3em]">GET READY TO ROAST</p>
+          {session?.persona_avatar && (
+            <img
+              src={session.persona_avatar}
+              alt={personaName}
+              className="w-20 h-20 mx-auto object-cover border-4 border-accent rounded"
+            />
+          )}
+          <p className="text-2xl md:text-3xl font-pixel text-accent" style={{
+            textShadow: '0 0 20px hsl(180 100% 50%), 0 0 40px hsl(180 100% 50%)'
+          }}>
+            {personaName}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from "react";
+import { timedWords, type SpeechTiming } from "@/lib/speechTiming";
+
+interface KaraokeCaptionProps {
+  timing: SpeechTiming;
+  position: () => number | null; // ms into the line's audio, null when not playing
+  className?: string;
+}
+
+// A spoken line with its words lit up as they are said
+export function KaraokeCaption({ timing, position, className }: KaraokeCaptionProps) {
+  const words = useMemo(() => timedWords(timing), [timing]);
+  // Words whose start has been reached; only re-render when that changes
+  const [spoken, setSpoken] = useState(0);
+
+  useEffect(() => {
+    let frame = requestAnimationFrame(function update() {
+      const ms = position();
+      const next = ms === null ? 0 : words.filter((word) => word.start_ms <= ms).length;
+      setSpoken((prev) => (prev === next ? prev : next));
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [words, position]);
+
+  return (
+    <span className={className}>
+      {words.map((word, index) => (
+        <span
+          key={index}
+          className={`transition-opacity duration-100 ${
+            index < spoken - 1 ? "opacity-100" : index === spoken - 1 ? "opacity-100 font-bold" : "opacity-40"
+          }`}
+        >
+          {word.text}
+          {index < words.length - 1 ? " " : ""}
+        </span>
+      ))}
+    </span>
+  );
+}
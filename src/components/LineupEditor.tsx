@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GripVertical } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchLineup,
+  reorderLineup,
+  scheduleSession,
+  subscribeToLineup,
+  type LineupSession,
+} from "@/lib/lineup";
+import { fetchPersonas, type PersonaSummary } from "@/lib/personaDossiers";
+
+// Enough to show every session session-manager will air before topping up again
+const LINEUP_LIMIT = 50;
+const MAX_EPISODE_TITLE_LENGTH = 80;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Please try again.";
+}
+
+// Upcoming sessions in air order. Producers schedule regular episodes and specials
+// and drag to reorder; session-manager airs the lineup in this order.
+export function LineupEditor() {
+  const [lineup, setLineup] = useState<LineupSession[]>([]);
+  const [personas, setPersonas] = useState<PersonaSummary[]>([]);
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const [startTime, setStartTime] = useState("");
+  const [isSpecial, setIsSpecial] = useState(false);
+  const [episodeTitle, setEpisodeTitle] = useState("");
+  const [scheduling, setScheduling] = useState(false);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let mounted = true;
+    const apply = (next: LineupSession[]) => {
+      if (mounted) setLineup(next);
+    };
+
+    fetchLineup(LINEUP_LIMIT).then(apply);
+    const unsubscribe = subscribeToLineup(apply, LINEUP_LIMIT);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    fetchPersonas().then((next) => {
+      setPersonas(next);
+      setPersonaId((current) => current ?? next[0]?.id ?? null);
+    });
+  }, []);
+
+  const handleSchedule = async () => {
+    if (!personaId) return;
+    setScheduling(true);
+
+    try {
+      await scheduleSession({
+        personaId,
+        startTime: startTime ? new Date(startTime) : null,
+        isSpecial,
+        episodeTitle: isSpecial ? episodeTitle.trim() || null : null,
+      });
+      setStartTime("");
+      setIsSpecial(false);
+      setEpisodeTitle("");
+      toast({ title: "Scheduled", description: "Added to the end of the lineup." });
+    } catch (error) {
+      toast({ title: "Scheduling failed", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  // Move the dragged session in front of the target and persist the new order
+  const dropOn = async (targetId: string) => {
+    const sourceId = dragId;
+    setDragId(null);
+    if (!sourceId || sourceId === targetId) return;
+
+    const ids = lineup.map((session) => session.id).filter((id) => id !== sourceId);
+    ids.splice(ids.indexOf(targetId), 0, sourceId);
+
+    // Optimistic; the realtime refetch brings the stored positions
+    const byId = new Map(lineup.map((session) => [session.id, session]));
+    setLineup(ids.map((id, index) => ({ ...byId.get(id)!, lineup_position: index + 1 })));
+
+    try {
+      await reorderLineup(ids);
+    } catch (error) {
+      toast({ title: "Reorder failed", description: errorMessage(error), variant: "destructive" });
+      fetchLineup(LINEUP_LIMIT).then(setLineup);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 p-4 rounded border border-border bg-card">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label>Persona</Label>
+            <Select value={personaId ?? undefined} onValueChange={setPersonaId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Choose a persona" />
+              </SelectTrigger>
+              <SelectContent>
+                {personas.map((persona) => (
+                  <SelectItem key={persona.id} value={persona.id}>
+                    {persona.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="lineup-start">
+              Not before <span className="text-xs text-muted-foreground">(optional)</span>
+            </Label>
+            <Input
+              id="lineup-start"
+              type="datetime-local"
+              value={startTime}
+              onChange={(event) => setStartTime(event.target.value)}
+              className="w-56"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox id="lineup-special" checked={isSpecial} onCheckedChange={(checked) => setIsSpecial(checked === true)} />
+          <Label htmlFor="lineup-special">Special episode</Label>
+        </div>
+
+        {isSpecial && (
+          <Input
+            value={episodeTitle}
+            placeholder="Episode title"
+            onChange={(event) => setEpisodeTitle(event.target.value.slice(0, MAX_EPISODE_TITLE_LENGTH))}
+          />
+        )}
+
+        <Button onClick={handleSchedule} disabled={!personaId || scheduling}>
+          {scheduling ? "Scheduling..." : "Add to lineup"}
+        </Button>
+      </div>
+
+      {lineup.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing queued. session-manager tops the lineup up on its next tick.</p>
+      ) : (
+        <ol className="space-y-2">
+          {lineup.map((session, index) => (
+            <li
+              key={session.id}
+              draggable
+              onDragStart={() => setDragId(session.id)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={() => dropOn(session.id)}
+              className={`flex items-center gap-3 p-3 rounded border bg-card ${session.is_special ? "border-accent" : "border-border"} ${dragId === session.id ? "opacity-50" : ""}`}
+            >
+              <GripVertical className="w-4 h-4 cursor-grab text-muted-foreground" />
+              <span className="text-xs font-mono w-5 text-muted-foreground">{index + 1}</span>
+              <span className="flex-1 text-sm text-foreground truncate">{session.persona_name}</span>
+              {session.is_special && <Badge variant="outline">★ {session.episode_title || "Special"}</Badge>}
+              <span className="text-xs text-muted-foreground">
+                {new Date(session.start_time).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  fetchDossier,
+  fetchPersonas,
+  saveDossier,
+  type PersonaDossier,
+  type PersonaSummary,
+} from "@/lib/personaDossiers";
+
+type ListField = "notable_calls" | "catchphrases" | "controversies" | "do_not_mention";
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+  { field: "notable_calls", label: "Notable calls", placeholder: "Called ETH to $100k by 2022" },
+  { field: "catchphrases", label: "Catchphrases", placeholder: "WAGMI" },
+  { field: "controversies", label: "Past controversies", placeholder: "Deleted every bearish tweet in 2021" },
+  { field: "do_not_mention", label: "Do not mention", placeholder: "Family members" },
+];
+
+// One entry per line in the form, arrays in the table
+function toLines(items: string[]): string {
+  return items.join("\n");
+}
+
+function fromLines(text: string): string[] {
+  return text.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+// Producer editor for the facts the hosts may use about each persona
+export function PersonaDossierEditor() {
+  const [personas, setPersonas] = useState<PersonaSummary[]>([]);
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const [dossier, setDossier] = useState<PersonaDossier | null>(null);
+  const [bio, setBio] = useState("");
+  const [lists, setLists] = useState<Record<ListField, string>>({
+    notable_calls: "",
+    catchphrases: "",
+    controversies: "",
+    do_not_mention: "",
+  });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchPersonas().then((next) => {
+      setPersonas(next);
+      setPersonaId((current) => current ?? next[0]?.id ?? null);
+    });
+  }, []);
+
+  useEffect(() => {
+    setDossier(null);
+    if (!personaId) return;
+
+    let cancelled = false;
+
+    fetchDossier(personaId)
+      .then((next) => {
+        if (cancelled) return;
+        setDossier(next);
+        setBio(next.bio || "");
+        setLists({
+          notable_calls: toLines(next.notable_calls),
+          catchphrases: toLines(next.catchphrases),
+          controversies: toLines(next.controversies),
+          do_not_mention: toLines(next.do_not_mention),
+        });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: "Could not load dossier",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [personaId, toast]);
+
+  const handleSave = async () => {
+    if (!dossier) return;
+    setSaving(true);
+
+    try {
+      const saved = await saveDossier({
+        ...dossier,
+        bio: bio.trim() || null,
+        notable_calls: fromLines(lists.notable_calls),
+        catchphrases: fromLines(lists.catchphrases),
+        controversies: fromLines(lists.controversies),
+        do_not_mention: fromLines(lists.do_not_mention),
+      });
+      setDossier(saved);
+      toast({ title: "Dossier saved", description: "The hosts will use it from the next roast." });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (personas.length === 0) {
+    return <p className="text-sm text-muted-foreground">No personas yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Select value={personaId ?? undefined} onValueChange={setPersonaId}>
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="Choose a persona" />
+        </SelectTrigger>
+        <SelectContent>
+          {personas.map((persona) => (
+            <SelectItem key={persona.id} value={persona.id}>
+              {persona.username}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {dossier ? (
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="dossier-bio">Bio</Label>
+            <Textarea
+              id="dossier-bio"
+              value={bio}
+              onChange={(event) => setBio(event.target.value.slice(0, 2000))}
+              className="min-h-20"
+            />
+          </div>
+
+          {LIST_FIELDS.map(({ field, label, placeholder }) => (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`dossier-${field}`}>
+                {label} <span className="text-xs text-muted-foreground">(one per line)</span>
+              </Label>
+              <Textarea
+                id={`dossier-${field}`}
+                value={lists[field]}
+                placeholder={placeholder}
+                onChange={(event) => setLists((prev) => ({ ...prev, [field]: event.target.value }))}
+                className="min-h-16"
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center gap-3">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save dossier"}
+            </Button>
+            {dossier.updated_at && (
+              <span className="text-xs text-muted-foreground">
+                Last saved {new Date(dossier.updated_at).toLocaleString()}
+              </span>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useShowConfig } from "@/hooks/useShowConfig";
+import { fetchPersonas, type PersonaSummary } from "@/lib/personaDossiers";
+import { votePersona } from "@/lib/personaVotes";
+
+// Viewers pick who gets roasted next. Only shown while show_config.persona_strategy is
+// audience_voted; the vote counts when session-manager next tops up the lineup.
+export function PersonaVote() {
+  const { persona_strategy } = useShowConfig();
+  const [personas, setPersonas] = useState<PersonaSummary[]>([]);
+  const [votedFor, setVotedFor] = useState<string | null>(null);
+  const [voting, setVoting] = useState(false);
+  const { toast } = useToast();
+
+  const enabled = persona_strategy === "audience_voted";
+
+  useEffect(() => {
+    if (!enabled) return;
+    let mounted = true;
+    fetchPersonas().then((next) => {
+      if (mounted) setPersonas(next);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [enabled]);
+
+  if (!enabled || personas.length === 0) return null;
+
+  const handleVote = async (persona: PersonaSummary) => {
+    setVoting(true);
+    const rejected = await votePersona(persona.id);
+    setVoting(false);
+
+    if (!rejected) {
+      setVotedFor(persona.id);
+      return;
+    }
+    // Already voted this window: lock the buttons all the same
+    if (rejected.code === "already_voted") setVotedFor("");
+    toast({ title: "Vote not counted", description: rejected.message, variant: "destructive" });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] text-muted-foreground uppercase tracking-widest">
+        {votedFor === null ? "WHO SHOULD WE ROAST SOON?" : "YOUR VOTE IS IN"}
+      </p>
+      <div className="flex flex-wrap justify-center gap-2">
+        {personas.map((persona) => (
+          <Button
+            key={persona.id}
+            size="sm"
+            variant={votedFor === persona.id ? "default" : "outline"}
+            disabled={voting || votedFor !== null}
+            onClick={() => handleVote(persona)}
+          >
+            {persona.username}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X, Pencil, GripVertical, Play, Square } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  editTranscript,
+  fetchSessionQueue,
+  reorderQueue,
+  reviewMessage,
+  subscribeToSessionQueue,
+  type ModerationStatus,
+  type QueueMessage,
+} from "@/lib/producerQueue";
+
+interface ProducerQueueProps {
+  sessionId: string;
+}
+
+const STATUS_VARIANTS: Record<ModerationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  approved: "default",
+  pending: "secondary",
+  flagged: "outline",
+  rejected: "destructive",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Please try again.";
+}
+
+// Unaired roasts of one session in air order. Producers approve, reject, edit
+// and drag to reorder; the runner plays the queue in this order.
+export function ProducerQueue({ sessionId }: ProducerQueueProps) {
+  const [messages, setMessages] = useState<QueueMessage[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setMessages([]);
+    let mounted = true;
+    const apply = (next: QueueMessage[]) => {
+      if (mounted) setMessages(next);
+    };
+
+    fetchSessionQueue(sessionId).then(apply);
+    const unsubscribe = subscribeToSessionQueue(sessionId, apply);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    return () => audioRef.current?.pause();
+  }, []);
+
+  const queue = messages.filter((message) => !message.used && message.moderation_status !== "rejected");
+  const rejected = messages.filter((message) => !message.used && message.moderation_status === "rejected");
+  const airedCount = messages.filter((message) => message.used).length;
+
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({ title: failureTitle, description: errorMessage(error), variant: "destructive" });
+      fetchSessionQueue(sessionId).then(setMessages);
+    }
+  };
+
+  const review = (id: string, status: "approved" | "rejected") =>
+    run(() => reviewMessage(id, status), status === "approved" ? "Approve failed" : "Reject failed");
+
+  const startEdit = (message: QueueMessage) => {
+    setEditingId(message.id);
+    setDraft(message.transcript || "");
+  };
+
+  const saveEdit = async () => {
+    if (!editingId) return;
+    const id = editingId;
+    setEditingId(null);
+    await run(() => editTranscript(id, draft.trim()), "Edit failed");
+  };
+
+  // Move the dragged message in front of the target and persist the new order
+  const dropOn = async (targetId: string) => {
+    const sourceId = dragId;
+    setDragId(null);
+    if (!sourceId || sourceId === targetId) return;
+
+    const ids = queue.map((message) => message.id).filter((id) => id !== sourceId);
+    ids.splice(ids.indexOf(targetId), 0, sourceId);
+
+    // Optimistic; the realtime refetch brings the stored positions
+    const byId = new Map(messages.map((message) => [message.id, message]));
+    setMessages([
+      ...ids.map((id, index) => ({ ...byId.get(id)!, queue_position: index + 1 })),
+      ...messages.filter((message) => !ids.includes(message.id)),
+    ]);
+    await run(() => reorderQueue(sessionId, ids), "Reorder failed");
+  };
+
+  const togglePlay = (message: QueueMessage) => {
+    audioRef.current?.pause();
+    if (playingId === message.id || !message.audio_url) {
+      setPlayingId(null);
+      return;
+    }
+
+    const audio = new Audio(message.audio_url);
+    audioRef.current = audio;
+    audio.onended = () => setPlayingId(null);
+    audio.play().catch(() => setPlayingId(null));
+    setPlayingId(message.id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground uppercase tracking-widest">
+        {queue.length} queued · {rejected.length} rejected · {airedCount} aired
+      </p>
+
+      {queue.length === 0 && (
+        <p className="text-sm text-muted-foreground">No roasts waiting for this session.</p>
+      )}
+
+      <ol className="space-y-2">
+        {queue.map((message, index) => (
+          <li
+            key={message.id}
+            draggable={editingId !== message.id}
+            onDragStart={() => setDragId(message.id)}
+            onDragOver={(event) => event.preventDefault()}
+            onDrop={() => dropOn(message.id)}
+            className={`flex gap-3 p-3 rounded border bg-card ${dragId === message.id ? "opacity-50" : ""}`}
+          >
+            <div className="flex items-start gap-2 text-muted-foreground">
+              <GripVertical className="w-4 h-4 cursor-grab" />
+              <span className="text-xs font-mono w-5">{index + 1}</span>
+            </div>
+
+            <div className="flex-1 space-y-2 min-w-0">
+              <div className="flex items-center gap-2">
+                <Badge variant={STATUS_VARIANTS[message.moderation_status]}>{message.moderation_status}</Badge>
+                {message.moderation_reason && (
+                  <span className="text-xs text-muted-foreground truncate">{message.moderation_reason}</span>
+                )}
+              </div>
+
+              {editingId === message.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={draft}
+                    onChange={(event) => setDraft(event.target.value.slice(0, 500))}
+                    className="min-h-16"
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={saveEdit} disabled={!draft.trim()}>Save</Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-foreground break-words">
+                  {message.transcript}
+                  {message.original_transcript && (
+                    <span className="block text-xs text-muted-foreground">Submitted: {message.original_transcript}</span>
+                  )}
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-start gap-1">
+              {message.audio_url && (
+                <Button size="icon" variant="ghost" onClick={() => togglePlay(message)} title="Listen">
+                  {playingId === message.id ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </Button>
+              )}
+              <Button size="icon" variant="ghost" onClick={() => startEdit(message)} title="Edit transcript">
+                <Pencil className="w-4 h-4" />
+              </Button>
+              {message.moderation_status !== "approved" && (
+                <Button size="icon" variant="ghost" onClick={() => review(message.id, "approved")} title="Approve">
+                  <Check className="w-4 h-4 text-primary" />
+                </Button>
+              )}
+              <Button size="icon" variant="ghost" onClick={() => review(message.id, "rejected")} title="Reject">
+                <X className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {rejected.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">Rejected ({rejected.length})</summary>
+          <ul className="mt-2 space-y-2">
+            {rejected.map((message) => (
+              <li key={message.id} className="flex items-center gap-3 p-2 rounded border border-border">
+                <p className="flex-1 text-muted-foreground break-words">
+                  {message.transcript}
+                  {message.moderation_reason && <span className="block text-xs">{message.moderation_reason}</span>}
+                </p>
+                <Button size="sm" variant="ghost" onClick={() => review(message.id, "approved")}>
+                  Restore
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
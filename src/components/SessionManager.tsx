@@ -7,6 +7,10 @@ import { SubmissionForm } from "./SubmissionForm";
 import { WatchView } from "./WatchView";
 import { ArchiveStudioView } from "./ArchiveStudioView";
 import { LatestRoastsFeed } from "./LatestRoastsFeed";
+import { IntermissionView } from "./IntermissionView";
+import { useRoundState } from "@/hooks/useRoundState";
+import { useShowConfig } from "@/hooks/useShowConfig";
+import { fetchLineup, type LineupSession } from "@/lib/lineup";
 
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -38,15 +42,12 @@ export function SessionManager() {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [messageCount, setMessageCount] = useState(0);
-  const [personas, setPersonas] = useState<Persona[]>([]);
   const [activeTab, setActiveTab] = useState("submit");
-  const [upcomingSessions, setUpcomingSessions] = useState<Session[]>([]);
+  const [upcomingSessions, setUpcomingSessions] = useState<LineupSession[]>([]);
   const [archivedSessions, setArchivedSessions] = useState<Session[]>([]);
   const [selectedArchive, setSelectedArchive] = useState<Session | null>(null);
-  const [isTransitioning, setIsTransitioning] = useState(false);
-  const [transitionCount, setTransitionCount] = useState(3);
-  const [nextKolName, setNextKolName] = useState<string | null>(null);
-  
+  const { roundState, currentRoundId, phaseEndsAt } = useRoundState();
+  const showConfig = useShowConfig();
 
   // Keep latest session id for realtime handlers (avoids stale closures)
   const sessionIdRef = useRef<string | null>(null);
@@ -57,16 +58,7 @@ export function SessionManager() {
 
 
   const fetchUpcomingSessions = async () => {
-    const { data } = await supabase
-      .from("roast_sessions")
-      .select("*")
-      .eq("status", "QUEUED")
-      .order("created_at", { ascending: true })
-      .limit(3);
-    
-    if (data) {
-      setUpcomingSessions(data as Session[]);
-    }
+    setUpcomingSessions(await fetchLineup());
   };
 
   const fetchArchivedSessions = async () => {
@@ -82,17 +74,6 @@ export function SessionManager() {
     }
   };
 
-  const fetchPersonas = async () => {
-    const { data } = await supabase
-      .from("personas")
-      .select("*")
-      .order("username", { ascending: true });
-    
-    if (data) {
-      setPersonas(data);
-    }
-  };
-
   const fetchCurrentSession = async () => {
     const { data, error } = await supabase
       .from("roast_sessions")
@@ -136,156 +117,10 @@ export function SessionManager() {
     setMessageCount(count || 0);
   };
 
-  const createDemoSession = async () => {
-    if (personas.length === 0) {
-      console.error("No personas available");
-      return;
-    }
-
-    const randomPersona = personas[Math.floor(Math.random() * personas.length)];
-    const startTime = new Date();
-    const lockTime = new Date(startTime.getTime() + 2 * 60 * 1000); // 2 minutes from now
-
-    const { data, error } = await supabase.from("roast_sessions").insert({
-      persona_name: randomPersona.username,
-      persona_avatar: randomPersona.profile_pic_url,
-      persona_id: randomPersona.id,
-      status: "OPEN",
-      start_time: startTime.toISOString(),
-      lock_time: lockTime.toISOString(),
-    }).select().single();
-
-    if (data) {
-      const sessionData: Session = { ...data, persona: randomPersona };
-      setSession(sessionData);
-    }
-  };
-
-  const handleSessionComplete = async () => {
-    if (!session || personas.length === 0) return;
-    
-    // Archive the current session
-    await supabase
-      .from("roast_sessions")
-      .update({ status: "ARCHIVED" })
-      .eq("id", session.id);
-    
-    // Get list of recently roasted persona IDs (last 10 sessions)
-    const { data: recentSessions } = await supabase
-      .from("roast_sessions")
-      .select("persona_id")
-      .order("created_at", { ascending: false })
-      .limit(10);
-    
-    const recentlyRoastedIds = new Set(
-      (recentSessions || []).map(s => s.persona_id).filter(Boolean)
-    );
-    
-    // Sort personas alphabetically
-    const sortedPersonas = [...personas].sort((a, b) => a.username.localeCompare(b.username));
-    
-    // Find next persona that hasn't been roasted recently
-    // Start from the current persona's position in the list
-    let currentIndex = sortedPersonas.findIndex(p => p.id === session.persona_id);
-    if (currentIndex === -1) currentIndex = 0;
-    
-    let nextPersona = null;
-    let searchCount = 0;
-    
-    // Try to find someone not recently roasted
-    while (searchCount < sortedPersonas.length) {
-      const candidateIndex = (currentIndex + 1 + searchCount) % sortedPersonas.length;
-      const candidate = sortedPersonas[candidateIndex];
-      
-      if (!recentlyRoastedIds.has(candidate.id)) {
-        nextPersona = candidate;
-        console.log(`[Session Cycle] Found fresh KOL: ${candidate.username} (not in recent ${recentlyRoastedIds.size})`);
-        break;
-      }
-      searchCount++;
-    }
-    
-    // If everyone was recently roasted, just go to the next one alphabetically
-    if (!nextPersona) {
-      const nextIndex = (currentIndex + 1) % sortedPersonas.length;
-      nextPersona = sortedPersonas[nextIndex];
-      console.log(`[Session Cycle] All KOLs recently roasted, cycling to: ${nextPersona.username}`);
-    }
-    
-    console.log(`[Session Cycle] Current: ${session.persona_name} -> Next: ${nextPersona?.username}`);
-    
-    setNextKolName(nextPersona?.username || "???");
-    setIsTransitioning(true);
-    setTransitionCount(3);
-    
-    // Countdown then create new session
-    let count = 3;
-    const countdownInterval = setInterval(() => {
-      count -= 1;
-      if (count <= 0) {
-        clearInterval(countdownInterval);
-        // Create new session after countdown
-        createNewSession(nextPersona);
-      } else {
-        setTransitionCount(count);
-      }
-    }, 1000);
-  };
-
-  const createNewSession = async (persona: Persona) => {
-    const startTime = new Date();
-    const lockTime = new Date(startTime.getTime() + 2 * 60 * 1000);
-
-    const { data, error } = await supabase.from("roast_sessions").insert({
-      persona_name: persona.username,
-      persona_avatar: persona.profile_pic_url,
-      persona_id: persona.id,
-      status: "OPEN",
-      start_time: startTime.toISOString(),
-      lock_time: lockTime.toISOString(),
-    }).select().single();
-
-    if (data) {
-      const sessionData: Session = { ...data, persona };
-      setSession(sessionData);
-      setActiveTab("submit");
-    }
-    setIsTransitioning(false);
-  };
-
-  // Poll the session manager to check for state transitions
-  const pollSessionManager = async () => {
-    try {
-      await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/session-manager`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({}),
-        }
-      );
-    } catch (error) {
-      console.error("Session manager poll failed:", error);
-    }
-  };
-
   useEffect(() => {
-    fetchPersonas();
     fetchCurrentSession();
     fetchUpcomingSessions();
     fetchArchivedSessions();
-    
-    // Initial poll
-    pollSessionManager();
-
-    // Poll session manager every 5 seconds for state transitions
-    const pollInterval = setInterval(() => {
-      pollSessionManager();
-    }, 5000);
 
     // Subscribe to session changes
     const channel = supabase
@@ -301,7 +136,7 @@ export function SessionManager() {
       )
       .on(
         "postgres_changes",
-        { event: "INSERT", schema: "public", table: "roast_messages" },
+        { event: "*", schema: "public", table: "roast_messages" },
         () => {
           const sessionId = sessionIdRef.current;
           if (sessionId) fetchMessageCount(sessionId);
@@ -310,18 +145,10 @@ export function SessionManager() {
       .subscribe();
 
     return () => {
-      clearInterval(pollInterval);
       supabase.removeChannel(channel);
     };
   }, []);
 
-  // Auto-create session when none exists
-  useEffect(() => {
-    if (!loading && !session && personas.length > 0) {
-      createDemoSession();
-    }
-  }, [loading, session, personas.length]);
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-studio crt-effect">
@@ -333,50 +160,14 @@ export function SessionManager() {
     );
   }
 
-  // Transition screen between KOLs
-  if (isTransitioning) {
+  // Intermission between KOLs: recap of the finished round, then the next KOL reveal
+  if (!session && (roundState === "COOLDOWN" || roundState === "UP_NEXT")) {
     return (
-      <div className="min-h-screen flex flex-col items-center justify-center bg-background relative overflow-hidden">
-        {/* Radial gradient background */}
-        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,hsl(320_100%_30%/0.3)_0%,transparent_70%)]" />
-        
-        {/* Animated rings */}
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="w-[600px] h-[600px] rounded-full border-2 border-secondary/20 animate-ping" style={{ animationDuration: '2s' }} />
-          <div className="absolute w-[400px] h-[400px] rounded-full border-2 border-primary/20 animate-ping" style={{ animationDuration: '1.5s' }} />
-          <div className="absolute w-[200px] h-[200px] rounded-full border-2 border-accent/20 animate-ping" style={{ animationDuration: '1s' }} />
-        </div>
-        
-        <div className="relative z-20 text-center space-y-6">
-          {/* Title */}
-          <h2 className="text-3xl md:text-4xl font-pixel text-secondary tracking-wider" style={{
-            textShadow: '0 0 30px hsl(320 100% 60%), 0 0 60px hsl(320 100% 60%)'
-          }}>
-            NEXT UP
-          </h2>
-          
-          {/* Countdown number - big and bold */}
-          <div 
-            key={transitionCount}
-            className="text-[150px] md:text-[200px] font-pixel text-primary leading-none animate-pulse"
-            style={{
-              textShadow: '0 0 40px hsl(120 100% 50%), 0 0 80px hsl(120 100% 50%), 0 0 120px hsl(120 100% 50%)'
-            }}
-          >
-            {transitionCount}
-          </div>
-          
-          {/* Next KOL name with glow */}
-          <div className="space-y-3">
-            <p className="text-sm text-muted-foreground uppercase tracking-[0.3em]">GET READY TO ROAST</p>
-            <p className="text-2xl md:text-3xl font-pixel text-accent" style={{
-              textShadow: '0 0 20px hsl(180 100% 50%), 0 0 40px hsl(180 100% 50%)'
-            }}>
-              {nextKolName}
-            </p>
-          </div>
-        </div>
-      </div>
+      <IntermissionView
+        roundState={roundState}
+        sessionId={currentRoundId}
+        phaseEndsAt={phaseEndsAt}
+      />
     );
   }
 
@@ -392,40 +183,13 @@ export function SessionManager() {
   }
 
   // Calculate lock time
-  const lockTime = session.lock_time ? new Date(session.lock_time) : new Date(new Date(session.start_time).getTime() + 2 * 60 * 1000);
+  const lockTime = session.lock_time ? new Date(session.lock_time) : new Date(new Date(session.start_time).getTime() + showConfig.submit_window_seconds * 1000);
 
   // Get display name and avatar
   const displayName = session.persona?.username || session.persona_name;
   const displayAvatar = session.persona?.profile_pic_url || session.persona_avatar;
   const twitterHandle = session.persona?.twitter_handle;
 
-  // Get next KOLs to roast - deterministic alphabetical order
-  const getNextKols = () => {
-    // Sort personas alphabetically
-    const sortedPersonas = [...personas].sort((a, b) => a.username.localeCompare(b.username));
-    
-    // Find current persona index
-    const currentIndex = sortedPersonas.findIndex(
-      p => p.username.toLowerCase() === session.persona_name.toLowerCase()
-    );
-    
-    // Get next 10 KOLs in alphabetical order (wrapping around)
-    const nextKols = [];
-    const maxKols = Math.min(10, sortedPersonas.length - 1);
-    for (let i = 1; i <= maxKols; i++) {
-      const nextIndex = (currentIndex + i) % sortedPersonas.length;
-      const kol = sortedPersonas[nextIndex];
-      nextKols.push({
-        id: kol.id,
-        username: kol.username,
-        profile_pic_url: kol.profile_pic_url,
-      });
-    }
-    
-    return nextKols;
-  };
-
-  const nextKols = getNextKols();
 
   // Render WatchView fullscreen when show tab is active OR when session is locked/live (via lock)
   const isViewLocked = typeof window !== 'undefined' && localStorage.getItem('roast-studio-view-locked') === 'true';
@@ -436,7 +200,6 @@ export function SessionManager() {
       <WatchView 
         key={session.id} 
         session={session} 
-        onComplete={handleSessionComplete}
         onBack={() => setActiveTab("submit")}
       />
     );
@@ -587,15 +350,25 @@ export function SessionManager() {
                 <span className="text-xs text-secondary uppercase tracking-wider font-bold">UP NEXT</span>
               </div>
               <div className="flex-1 overflow-y-auto p-3">
-                {nextKols.length > 0 ? (
+                {upcomingSessions.length > 0 ? (
                   <div className="space-y-2">
-                    {nextKols.map((kol, i) => (
-                      <div key={kol.id} className="flex items-center gap-2 p-2 bg-background/70 border border-border rounded-md hover:border-secondary/50 transition-colors">
+                    {upcomingSessions.map((kol, i) => (
+                      <div
+                        key={kol.id}
+                        className={`flex items-center gap-2 p-2 bg-background/70 border rounded-md hover:border-secondary/50 transition-colors ${kol.is_special ? "border-accent" : "border-border"}`}
+                      >
                         <span className="text-xs text-secondary w-4 font-bold">{i + 1}.</span>
-                        {kol.profile_pic_url && (
-                          <img src={kol.profile_pic_url} alt="" className="w-8 h-8 object-cover border-2 border-border rounded" />
+                        {kol.persona_avatar && (
+                          <img src={kol.persona_avatar} alt="" className="w-8 h-8 object-cover border-2 border-border rounded" />
                         )}
-                        <span className="text-[10px] text-foreground font-medium truncate">{kol.username}</span>
+                        <div className="min-w-0">
+                          <span className="block text-[10px] text-foreground font-medium truncate">{kol.persona_name}</span>
+                          {kol.is_special && (
+                            <span className="block text-[8px] text-accent uppercase tracking-wider truncate">
+                              ★ {kol.episode_title || "Special"}
+                            </span>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
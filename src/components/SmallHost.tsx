@@ -1,13 +1,23 @@
 import { forwardRef, useEffect, useRef, useState, useMemo } from "react";
+import { useHosts } from "@/hooks/useHosts";
+import type { HostAppearance } from "@/lib/hosts";
+
+// Translucent version of any CSS colour
+function fade(color: string, alpha: number): string {
+  return `color-mix(in srgb, ${color} ${Math.round(alpha * 100)}%, transparent)`;
+}
 
 export interface SmallHostProps {
   type: "hostA" | "hostB";
   isSpeaking: boolean;
   size?: "small" | "large";
+  appearance?: HostAppearance; // Overrides the seat's active host, e.g. for previews
+  mouth?: () => number | null; // How open (0-1) the mouth is right now, from the line's timing
 }
 
 export const SmallHost = forwardRef<SVGSVGElement, SmallHostProps>(
-  ({ type, isSpeaking, size = "small" }, ref) => {
+  ({ type, isSpeaking, size = "small", appearance: appearanceOverride, mouth }, ref) => {
+    const cast = useHosts();
     const rafRef = useRef<number | null>(null);
     const [t, setT] = useState(() => performance.now());
 
@@ -38,12 +48,13 @@ export const SmallHost = forwardRef<SVGSVGElement, SmallHostProps>(
 
     const seconds = t / 1000;
 
-    const skinColor = type === "hostA" ? "hsl(16 70% 88%)" : "hsl(28 35% 68%)";
-    const shirtColor = type === "hostA" ? "hsl(30 80% 50%)" : "hsl(200 80% 40%)";
-    const pantsColor = type === "hostA" ? "hsl(220 60% 30%)" : "hsl(0 0% 20%)";
-    const hairColor = type === "hostA" ? "hsl(25 28% 22%)" : "hsl(0 0% 10%)";
-    const glowColor =
-      type === "hostA" ? "hsl(30 100% 50% / 0.7)" : "hsl(200 100% 50% / 0.7)";
+    // Colours and prop come from the seat's active host
+    const appearance = appearanceOverride ?? cast[type === "hostA" ? "A" : "B"].appearance;
+    const skinColor = appearance.skin;
+    const shirtColor = appearance.shirt;
+    const pantsColor = appearance.pants;
+    const hairColor = appearance.hair;
+    const glowColor = fade(appearance.glow, 0.7);
 
     // Idle animations with randomized offsets
     const idleArmL = Math.sin(seconds * randomOffsets.armSpeed + randomOffsets.armPhase) * randomOffsets.armAmp;
@@ -65,12 +76,14 @@ export const SmallHost = forwardRef<SVGSVGElement, SmallHostProps>(
     const headTilt = isSpeaking ? speakHead : idleHead;
     const bodyLean = isSpeaking ? speakLean : idleLean;
 
-    // Mouth animation - more varied when speaking
+    // Mouth animation - follows the line's characters when its timing is known,
+    // otherwise flaps while speaking
+    const spokenMouth = isSpeaking && mouth ? mouth() : null;
     const mouthBase = isSpeaking ? 3 : 0;
     const mouthVar = isSpeaking 
       ? Math.abs(Math.sin(seconds * 28)) * 5 + Math.abs(Math.sin(seconds * 19)) * 3
       : 0;
-    const mouthOpen = mouthBase + mouthVar;
+    const mouthOpen = spokenMouth !== null ? spokenMouth * 8 : mouthBase + mouthVar;
 
     // Eye blink
     const blink = Math.sin(seconds * 0.3) > 0.98 ? 0.3 : 1;
@@ -88,7 +101,7 @@ export const SmallHost = forwardRef<SVGSVGElement, SmallHostProps>(
           transformOrigin: "center bottom",
           filter: isSpeaking
             ? `drop-shadow(0 0 25px ${glowColor}) drop-shadow(0 0 50px ${glowColor})`
-            : `drop-shadow(0 0 8px ${glowColor.replace("0.7", "0.2")})`,
+            : `drop-shadow(0 0 8px ${fade(appearance.glow, 0.2)})`,
         }}
       >
         <g transform={`translate(0, ${bodyBob}) rotate(${bodyLean}, 30, 50)`}>
@@ -160,12 +173,13 @@ export const SmallHost = forwardRef<SVGSVGElement, SmallHostProps>(
           <ellipse cx="35" cy="82" rx="5" ry="3" fill="hsl(0 0% 20%)" />
 
           {/* Accessories */}
-          {type === "hostA" ? (
+          {appearance.accessory === "microphone" && (
             <g transform={`rotate(${-30 + armSwingL * 0.5}, 8, 40)`}>
               <rect x="3" y="35" width="2" height="10" fill="hsl(0 0% 40%)" />
               <ellipse cx="4" cy="33" rx="3" ry="4" fill="hsl(0 0% 20%)" />
             </g>
-          ) : (
+          )}
+          {appearance.accessory === "glasses" && (
             <>
               <rect
                 x="23"
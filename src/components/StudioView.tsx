@@ -1,9 +1,21 @@
 import { useState, useEffect, useRef, useCallback, forwardRef, type HTMLAttributes } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { AudioWaveformVisualizer } from "./AudioWaveformVisualizer";
+import { KaraokeCaption } from "./KaraokeCaption";
 import { Button } from "@/components/ui/button";
 import { Play, Pause, RotateCcw } from "lucide-react";
 import { SmallHost } from "./SmallHost";
+import { useHosts } from "@/hooks/useHosts";
+import { shortHostName } from "@/lib/hosts";
+import { IntermissionView } from "./IntermissionView";
+import { useRoundState } from "@/hooks/useRoundState";
+import { useShowTimeline } from "@/hooks/useShowTimeline";
+import { fetchNextUp } from "@/lib/lineup";
+import { serverNow } from "@/lib/serverClock";
+import { mouthOpenness } from "@/lib/speechTiming";
+import { speechUrl, trackFirstAudio } from "@/lib/speech";
+import { countdownWarnings, introSequences as waitingRoomIntros } from "@/lib/waitingRoomLines";
+import { fetchTimeline, groupByExchange, isRoastSegment, type ShowSegment } from "@/lib/showTimeline";
 
 interface SessionData {
   id: string;
@@ -16,14 +28,8 @@ interface SessionData {
 
 interface StudioViewProps {
   session: SessionData;
-  onComplete?: () => void;
   isArchive?: boolean;
 }
-interface Message {
-  id: string;
-  transcript: string | null;
-  audio_url: string | null;
-}
 type Speaker = "user" | "hostA" | "hostB";
 interface DisplayItem {
   speaker: Speaker;
@@ -43,7 +49,7 @@ const CountdownDisplay = forwardRef<HTMLDivElement, CountdownDisplayProps>(
     
     useEffect(() => {
       const calculateTime = () => {
-        const now = new Date();
+        const now = serverNow();
         let targetTime: Date | null = null;
         let newLabel = "";
         if (session.status === "OPEN" && session.lock_time) {
@@ -54,7 +60,7 @@ const CountdownDisplay = forwardRef<HTMLDivElement, CountdownDisplayProps>(
           newLabel = "Show starts in";
         }
         if (targetTime) {
-          const diff = targetTime.getTime() - now.getTime();
+          const diff = targetTime.getTime() - now;
           if (diff > 0) {
             const minutes = Math.floor(diff / 60000);
             const seconds = Math.floor((diff % 60000) / 1000);
@@ -153,31 +159,30 @@ const ConfettiParticle = ({ index }: { index: number }) => {
 };
 export function StudioView({
   session,
-  onComplete,
   isArchive = false
 }: StudioViewProps) {
+  const hosts = useHosts();
   const [currentDisplay, setCurrentDisplay] = useState<DisplayItem | null>(null);
   const [currentSpeaker, setCurrentSpeaker] = useState<Speaker | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [hasStarted, setHasStarted] = useState(false);
   const [displayAnimation, setDisplayAnimation] = useState<"enter" | "exit" | "idle">("idle");
   const [showConfetti, setShowConfetti] = useState(false);
   const [prevStatus, setPrevStatus] = useState(session.status);
-  const [noRoastsMode, setNoRoastsMode] = useState(false);
-  const [hostCommentary, setHostCommentary] = useState<string | null>(null);
   const [nextKol, setNextKol] = useState<{
     username: string;
     profile_pic_url: string | null;
   } | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const messagesRef = useRef<Message[]>([]);
-  const processedMessagesRef = useRef<Set<string>>(new Set());
-  const hostTurnRef = useRef<"A" | "B">("A");
-  const hasCompletedRef = useRef(false);
-  const isProcessingRef = useRef(false);
-  const noRoastsCheckedRef = useRef(false);
   const isSpeakingRef = useRef(false);
   const mountedRef = useRef(true);
+  const { roundState, currentRoundId, phaseEndsAt } = useRoundState();
+
+  // The live show is produced server-side; this view only renders the timeline
+  const { segment, segments } = useShowTimeline({
+    sessionId: session.id,
+    enabled: !isArchive && session.status === "LIVE",
+    muted: false,
+  });
+  const noRoastsMode = segment?.kind === "no_roasts";
 
   // State for waiting room host chatter
   const [waitingRoomDialogue, setWaitingRoomDialogue] = useState<string | null>(null);
@@ -196,7 +201,8 @@ export function StudioView({
   // Archive replay state
   const [isReplaying, setIsReplaying] = useState(false);
   const [replayPaused, setReplayPaused] = useState(false);
-  const [replayMessages, setReplayMessages] = useState<Message[]>([]);
+  const [replayExchanges, setReplayExchanges] = useState<ShowSegment[][]>([]);
+  const replayRoastCount = replayExchanges.filter(group => group.some(isRoastSegment)).length;
   const [currentReplayIndex, setCurrentReplayIndex] = useState(0);
   const replayPausedRef = useRef(false);
   const replayActiveRef = useRef(false);
@@ -222,29 +228,18 @@ export function StudioView({
     replayPausedRef.current = replayPaused;
   }, [replayPaused]);
 
-  // Fetch archived messages for replay
+  // Fetch the archived timeline for replay
   useEffect(() => {
     if (isArchive) {
-      fetchReplayMessages();
+      fetchTimeline(session.id).then((replaySegments) => setReplayExchanges(groupByExchange(replaySegments)));
     }
   }, [isArchive, session.id]);
-  const fetchReplayMessages = async () => {
-    const {
-      data
-    } = await supabase.from("roast_messages").select("*").eq("session_id", session.id).order("created_at", {
-      ascending: true
-    });
-    if (data) {
-      setReplayMessages(data);
-    }
-  };
   const startReplay = async () => {
-    if (replayMessages.length === 0) return;
+    if (replayExchanges.length === 0) return;
     setIsReplaying(true);
     setReplayPaused(false);
     setCurrentReplayIndex(0);
     replayActiveRef.current = true;
-    hostTurnRef.current = "A";
     await playReplaySequence(0);
   };
   const toggleReplayPause = () => {
@@ -277,68 +272,41 @@ export function StudioView({
     // Brief pause before restarting
     await new Promise(resolve => setTimeout(resolve, 300));
     replayActiveRef.current = true;
-    hostTurnRef.current = "A";
     await playReplaySequence(0);
   };
+  // Replays the stored exchanges and their recorded audio as they aired
   const playReplaySequence = async (startIndex: number) => {
-    for (let i = startIndex; i < replayMessages.length; i++) {
-      if (!mountedRef.current || !replayActiveRef.current) break;
-
-      // Wait if paused
-      while (replayPausedRef.current && mountedRef.current && replayActiveRef.current) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
+    for (let i = startIndex; i < replayExchanges.length; i++) {
       if (!mountedRef.current || !replayActiveRef.current) break;
       setCurrentReplayIndex(i);
-      const message = replayMessages[i];
-
-      // Play user roast
-      const userText = message.transcript || "[Voice clip]";
-      await showDisplay({
-        speaker: "user",
-        text: userText,
-        isActive: true
-      });
-      if (message.audio_url) {
-        setCurrentSpeaker("user");
-        await playAudio(message.audio_url);
-      } else if (message.transcript) {
-        // Use announcer voice to read text submissions
-        setCurrentSpeaker("user");
-        const announcerUrl = await generateTTS(message.transcript, "announcer");
-        if (announcerUrl) {
-          await playAudio(announcerUrl);
+      for (const replaySegment of replayExchanges[i]) {
+        // Wait if paused
+        while (replayPausedRef.current && mountedRef.current && replayActiveRef.current) {
+          await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        if (!mountedRef.current || !replayActiveRef.current) break;
+        const speaker = replaySegment.speaker;
+        if (speaker) {
+          setCurrentSpeaker(speaker);
+          await showDisplay({
+            speaker,
+            text: replaySegment.text ?? "",
+            isActive: true
+          });
+        }
+        if (replaySegment.audio_url) {
+          await playAudio(replaySegment.audio_url);
         } else {
-          await new Promise(resolve => setTimeout(resolve, 2000));
+          await new Promise(resolve => setTimeout(resolve, replaySegment.duration_ms));
+        }
+        if (!mountedRef.current || !replayActiveRef.current) break;
+        if (speaker) {
+          setCurrentSpeaker(null);
+          await hideDisplay();
         }
-      } else {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-      if (!mountedRef.current || !replayActiveRef.current) break;
-      await hideDisplay();
-
-      // Generate and play host response
-      const hostType = hostTurnRef.current;
-      hostTurnRef.current = hostType === "A" ? "B" : "A";
-      const roast = await generateRoast(userText, hostType);
-      if (!mountedRef.current || !replayActiveRef.current) break;
-      setCurrentSpeaker(hostType === "A" ? "hostA" : "hostB");
-      await showDisplay({
-        speaker: hostType === "A" ? "hostA" : "hostB",
-        text: roast,
-        isActive: true
-      });
-      const ttsUrl = await generateTTS(roast, hostType);
-      if (ttsUrl && mountedRef.current && replayActiveRef.current) {
-        await playAudio(ttsUrl);
-      } else {
-        await new Promise(resolve => setTimeout(resolve, 3000));
       }
-      if (!mountedRef.current || !replayActiveRef.current) break;
-      setCurrentSpeaker(null);
-      await hideDisplay();
 
-      // Brief pause between messages
+      // Brief pause between exchanges
       await new Promise(resolve => setTimeout(resolve, 500));
     }
     if (mountedRef.current && replayActiveRef.current) {
@@ -349,6 +317,41 @@ export function StudioView({
     }
   };
 
+  // Mirror the segment on air into the display
+  useEffect(() => {
+    if (isArchive) return;
+    if (segment?.speaker) {
+      setDisplayAnimation("enter");
+      setCurrentDisplay({
+        speaker: segment.speaker,
+        text: segment.text ?? "",
+        isActive: true
+      });
+      setCurrentSpeaker(segment.speaker);
+    } else {
+      setCurrentDisplay(null);
+      setCurrentSpeaker(null);
+      setDisplayAnimation("idle");
+    }
+  }, [segment, isArchive]);
+
+  // How far into the segment on air the show is, in ms
+  const segmentPosition = useCallback(
+    () => (segment ? serverNow() - Date.parse(segment.starts_at) : null),
+    [segment]
+  );
+
+  const segmentMouth = useCallback(
+    () => (segment?.timing ? mouthOpenness(segment.timing, segmentPosition()) : null),
+    [segment, segmentPosition]
+  );
+
+  // Name the next KOL while the hosts cover an empty round
+  useEffect(() => {
+    if (!noRoastsMode || nextKol) return;
+    fetchNextKol(session.id).then(setNextKol);
+  }, [noRoastsMode, nextKol, session.id]);
+
   // Detect transition to LIVE and trigger confetti
   useEffect(() => {
     if (prevStatus !== "LIVE" && session.status === "LIVE") {
@@ -362,7 +365,7 @@ export function StudioView({
   useEffect(() => {
     if (session.status !== "OPEN" || !session.lock_time || countdownWarningPlayedRef.current) return;
     const checkCountdown = () => {
-      const now = new Date().getTime();
+      const now = serverNow();
       const lockTime = new Date(session.lock_time!).getTime();
       const diff = lockTime - now;
 
@@ -392,11 +395,11 @@ export function StudioView({
 
   // Play countdown warning a few seconds before timer ends
   const playCountdownWarning = async () => {
-    const warningLines = [`WHOA WHOA WHOA! Time's almost up folks! Get those last roasts in for ${session.persona_name}! 5 seconds!`, `TICK TOCK TICK TOCK! Last chance to roast ${session.persona_name}! The clock is running out!`, `HEY! If you haven't submitted your roast yet, DO IT NOW! ${session.persona_name} is about to get it!`];
+    const warningLines = countdownWarnings(session.persona_name);
     const warning = warningLines[Math.floor(Math.random() * warningLines.length)];
     setWaitingRoomSpeaker("hostA");
     setWaitingRoomDialogue(warning);
-    const audioUrl = await generateTTS(warning, "A");
+    const audioUrl = await speechUrl(warning, "A");
     if (audioUrl) {
       await playAudio(audioUrl);
     } else {
@@ -409,46 +412,7 @@ export function StudioView({
   // Play periodic chatter in the waiting room - varied intros, only plays ONCE per session
   const playWaitingRoomChatter = async () => {
     // Different intro sequences - pick one at random
-    const introSequences = [[{
-      speaker: "A" as const,
-      text: `Welcome to the ROAST STUDIO! We're warming up for ${session.persona_name}!`
-    }, {
-      speaker: "B" as const,
-      text: `Indeed. ${session.persona_name} has no idea what's coming. Neither do we, actually.`
-    }, {
-      speaker: "A" as const,
-      text: `Drop your HOTTEST takes! Don't hold back!`
-    }], [{
-      speaker: "B" as const,
-      text: `Ladies and gentlemen, welcome to the show. Tonight's victim... I mean guest... ${session.persona_name}.`
-    }, {
-      speaker: "A" as const,
-      text: `VICTIM is right Ronnie! The roast submissions are OPEN, let's GO!`
-    }], [{
-      speaker: "A" as const,
-      text: `YO YO YO! Chaos Carl here with my boy Roast Ronnie! We're about to DESTROY ${session.persona_name}!`
-    }, {
-      speaker: "B" as const,
-      text: `Destroy is a strong word Carl. I prefer... constructively criticize into oblivion.`
-    }], [{
-      speaker: "B" as const,
-      text: `Another day, another victim on the hot seat. ${session.persona_name}, you're up.`
-    }, {
-      speaker: "A" as const,
-      text: `Send in your roasts people! The spicier the BETTER!`
-    }], [{
-      speaker: "A" as const,
-      text: `BREAKING NEWS! ${session.persona_name} is about to get absolutely COOKED! Submit your roasts NOW!`
-    }, {
-      speaker: "B" as const,
-      text: `This is going to be good. Or bad. For ${session.persona_name}, definitely bad.`
-    }], [{
-      speaker: "B" as const,
-      text: `Welcome back to Roast Studio. I'm Roast Ronnie, been doing this since the Reagan era.`
-    }, {
-      speaker: "A" as const,
-      text: `And I'm Chaos Carl! Today we're roasting ${session.persona_name}! SEND IT!`
-    }]];
+    const introSequences = waitingRoomIntros(session.persona_name, hosts);
 
     // Pick a random intro sequence
     const selectedSequence = introSequences[Math.floor(Math.random() * introSequences.length)];
@@ -456,7 +420,7 @@ export function StudioView({
       if (session.status !== "OPEN") break;
       setWaitingRoomSpeaker(line.speaker === "A" ? "hostA" : "hostB");
       setWaitingRoomDialogue(line.text);
-      const audioUrl = await generateTTS(line.text, line.speaker);
+      const audioUrl = await speechUrl(line.text, line.speaker);
       if (audioUrl) {
         await playAudio(audioUrl);
       } else {
@@ -471,105 +435,16 @@ export function StudioView({
 
     // After intro, hosts stay silent - no more periodic chatter
   };
-  const generateRoast = async (transcript: string, hostType: "A" | "B"): Promise<string> => {
-    try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-roast`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`
-        },
-        body: JSON.stringify({
-          transcript,
-          personaName: session.persona_name,
-          hostType
-        })
-      });
-      if (!response.ok) {
-        console.error("Failed to generate roast:", response.status);
-        return hostType === "A" ? `Oh WOW, did ${session.persona_name} really just get called out like that?! 💀` : `According to my highly scientific analysis... that's a valid roast.`;
-      }
-      const data = await response.json();
-      return data.roast;
-    } catch (error) {
-      console.error("Error generating roast:", error);
-      return hostType === "A" ? `Oh WOW, did ${session.persona_name} really just get called out like that?! 💀` : `According to my highly scientific analysis... that's a valid roast.`;
-    }
-  };
-
-  // Fetch the next KOL in queue (deterministic order based on alphabetical)
-  const fetchNextKol = async () => {
-    const {
-      data: personas
-    } = await supabase.from("personas").select("id, username, profile_pic_url").order("username", {
-      ascending: true
-    });
-    if (!personas || personas.length === 0) return null;
-
-    // Find current persona index and get next one
-    const currentIndex = personas.findIndex(p => p.username.toLowerCase() === session.persona_name.toLowerCase());
-    const nextIndex = (currentIndex + 1) % personas.length;
-    return personas[nextIndex];
+  // Fetch the KOL actually scheduled to air next
+  const fetchNextKol = async (sessionId: string) => {
+    const next = await fetchNextUp(sessionId);
+    if (!next) return null;
+    return {
+      username: next.persona_name,
+      profile_pic_url: next.persona_avatar
+    };
   };
 
-  // Handle case when LIVE but no roasts submitted
-  const handleNoRoasts = async () => {
-    if (noRoastsCheckedRef.current) return;
-    noRoastsCheckedRef.current = true;
-    setNoRoastsMode(true);
-
-    // Fetch next KOL
-    const next = await fetchNextKol();
-    setNextKol(next);
-
-    // Pick random host to deliver the commentary
-    const host = Math.random() > 0.5 ? "A" : "B";
-    const noRoastLines = [`Well... this is awkward. Nobody showed up to roast ${session.persona_name}! Even the haters took a day off!`, `*crickets* Not a SINGLE roast for ${session.persona_name}? Either they're universally loved or universally... forgotten.`, `Breaking news: ${session.persona_name} is so unroastable that nobody even tried! Or maybe everyone's just scared?`, `Wow. Zero roasts. ${session.persona_name} wins by default! That's... actually kind of sad.`, `Hello? Anyone? Bueller? No roasts for ${session.persona_name}? Fine, we'll move on then!`];
-    const commentary = noRoastLines[Math.floor(Math.random() * noRoastLines.length)];
-    setHostCommentary(commentary);
-    setCurrentSpeaker(host === "A" ? "hostA" : "hostB");
-
-    // Generate TTS for the commentary
-    const audioUrl = await generateTTS(commentary, host);
-    if (audioUrl) {
-      await playAudio(audioUrl);
-    } else {
-      await new Promise(resolve => setTimeout(resolve, 4000));
-    }
-
-    // Wait a moment then transition
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    if (onComplete && !hasCompletedRef.current) {
-      hasCompletedRef.current = true;
-      onComplete();
-    }
-  };
-  const generateTTS = async (text: string, hostType: "A" | "B" | "announcer"): Promise<string | null> => {
-    try {
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`
-        },
-        body: JSON.stringify({
-          text,
-          hostType
-        })
-      });
-      if (!response.ok) {
-        console.error("Failed to generate TTS:", response.status);
-        return null;
-      }
-      const data = await response.json();
-      return `data:audio/mpeg;base64,${data.audioContent}`;
-    } catch (error) {
-      console.error("Error generating TTS:", error);
-      return null;
-    }
-  };
   const playAudio = async (audioUrl: string): Promise<void> => {
     // Don't play if component unmounted
     if (!mountedRef.current) return;
@@ -591,6 +466,7 @@ export function StudioView({
         audioRef.current.src = "";
       }
       const audio = new Audio(audioUrl);
+      trackFirstAudio(audio);
       audioRef.current = audio;
       const cleanup = () => {
         isSpeakingRef.current = false;
@@ -625,172 +501,6 @@ export function StudioView({
     setCurrentDisplay(null);
     setDisplayAnimation("idle");
   };
-  const processMessage = useCallback(async (message: Message) => {
-    if (processedMessagesRef.current.has(message.id)) return;
-    processedMessagesRef.current.add(message.id);
-    const userText = message.transcript || "[Voice clip]";
-
-    // Show user roast on display
-    await showDisplay({
-      speaker: "user",
-      text: userText,
-      isActive: true
-    });
-
-    // Play user audio if available, otherwise use announcer voice to read the text
-    if (message.audio_url) {
-      await playAudio(message.audio_url);
-    } else if (message.transcript) {
-      // Use announcer voice to read text submissions
-      const announcerUrl = await generateTTS(message.transcript, "announcer");
-      if (announcerUrl) {
-        await playAudio(announcerUrl);
-      } else {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-    } else {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
-    await hideDisplay();
-    await new Promise(resolve => setTimeout(resolve, 500));
-    const currentHost = hostTurnRef.current;
-    const hostSpeaker: Speaker = currentHost === "A" ? "hostA" : "hostB";
-    setCurrentSpeaker(hostSpeaker);
-
-    // Generate AI response
-    const roastText = await generateRoast(userText, currentHost);
-
-    // Show host response on display
-    await showDisplay({
-      speaker: hostSpeaker,
-      text: roastText,
-      isActive: true
-    });
-
-    // Generate and play TTS
-    const audioUrl = await generateTTS(roastText, currentHost);
-    if (audioUrl) {
-      await playAudio(audioUrl);
-    } else {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
-    await hideDisplay();
-
-    // Mark message as used
-    await supabase.from("roast_messages").update({
-      used: true
-    }).eq("id", message.id);
-
-    // Alternate host
-    hostTurnRef.current = currentHost === "A" ? "B" : "A";
-    setCurrentSpeaker(null);
-  }, [session.persona_name]);
-
-  // Play outro dialogue announcing next KOL
-  const playOutroDialogue = async () => {
-    const next = await fetchNextKol();
-    if (!next) return;
-    const outroLines = [`And that's a WRAP on ${session.persona_name}! But hold up, we're not done yet! Next up on the chopping block... ${next.username}!`, `${session.persona_name} survived! But there's no rest for the wicked... ${next.username}, you're NEXT!`, `Alright folks, ${session.persona_name}'s roast session is OVER! Coming up next... it's ${next.username}'s turn to get absolutely destroyed!`];
-    const outro = outroLines[Math.floor(Math.random() * outroLines.length)];
-    setCurrentSpeaker("hostB");
-    setHostCommentary(outro);
-    await showDisplay({
-      speaker: "hostB",
-      text: outro,
-      isActive: true
-    });
-    const audioUrl = await generateTTS(outro, "B");
-    if (audioUrl) {
-      await playAudio(audioUrl);
-    } else {
-      await new Promise(resolve => setTimeout(resolve, 3000));
-    }
-    await hideDisplay();
-    setCurrentSpeaker(null);
-    setHostCommentary(null);
-  };
-  const processQueue = useCallback(async () => {
-    if (isProcessingRef.current || hasCompletedRef.current) return;
-    const unprocessedMessages = messagesRef.current.filter(msg => !processedMessagesRef.current.has(msg.id));
-    if (unprocessedMessages.length === 0) return;
-    isProcessingRef.current = true;
-    setIsProcessing(true);
-    for (const message of unprocessedMessages) {
-      await processMessage(message);
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
-    isProcessingRef.current = false;
-    setIsProcessing(false);
-
-    // Play outro before completing
-    if (onComplete && !hasCompletedRef.current) {
-      hasCompletedRef.current = true;
-      await playOutroDialogue();
-      setTimeout(() => onComplete(), 1000);
-    }
-  }, [processMessage, onComplete]);
-  useEffect(() => {
-    const loadMessages = async () => {
-      const {
-        data
-      } = await supabase.from("roast_messages").select("*").eq("session_id", session.id).eq("used", false).order("created_at", {
-        ascending: true
-      }).limit(20);
-      if (data && data.length > 0) {
-        messagesRef.current = data as Message[];
-        setHasStarted(true);
-        // Only start processing if session is LIVE
-        if (session.status === "LIVE") {
-          processQueue();
-        }
-      }
-    };
-    loadMessages();
-    const channel = supabase.channel(`messages-${session.id}`).on("postgres_changes", {
-      event: "INSERT",
-      schema: "public",
-      table: "roast_messages",
-      filter: `session_id=eq.${session.id}`
-    }, payload => {
-      const newMessage = payload.new as Message;
-      if (!processedMessagesRef.current.has(newMessage.id)) {
-        messagesRef.current = [...messagesRef.current, newMessage];
-        setHasStarted(true);
-        // Only start processing if session is LIVE
-        if (session.status === "LIVE") {
-          processQueue();
-        }
-      }
-    }).subscribe();
-    return () => {
-      supabase.removeChannel(channel);
-      if (audioRef.current) {
-        audioRef.current.pause();
-      }
-    };
-  }, [session.id, session.status, processQueue]);
-
-  // Start processing when session becomes LIVE
-  useEffect(() => {
-    if (session.status === "LIVE" && !isProcessingRef.current && !hasCompletedRef.current && messagesRef.current.length > 0) {
-      processQueue();
-    }
-  }, [session.status, processQueue]);
-
-  // Check for no roasts when session is LIVE
-  useEffect(() => {
-    if (session.status !== "LIVE") return;
-    if (noRoastsCheckedRef.current) return;
-
-    // Wait a few seconds for messages to load, then check if there are any
-    const checkTimeout = setTimeout(async () => {
-      if (messagesRef.current.length === 0 && !hasStarted && !isProcessingRef.current) {
-        // No messages and nothing has started - trigger no roasts flow
-        handleNoRoasts();
-      }
-    }, 5000);
-    return () => clearTimeout(checkTimeout);
-  }, [session.status, hasStarted]);
   const getDisplayStyles = () => {
     if (!currentDisplay) return "";
     const baseStyles = "transition-all duration-300";
@@ -816,21 +526,26 @@ export function StudioView({
       case "user":
         return "AUDIENCE";
       case "hostA":
-        return "CHAOS CARL";
+        return hosts.A.name.toUpperCase();
       case "hostB":
-        return "ROAST RONNIE";
+        return hosts.B.name.toUpperCase();
     }
   };
 
   // Components ConfettiParticle, CountdownDisplay, and DancingHost are now defined outside StudioView
 
+  // Intermission between KOLs, once the outro has finished (skip for archives)
+  if (!isArchive && (roundState === "COOLDOWN" || roundState === "UP_NEXT") && !segment) {
+    return <IntermissionView roundState={roundState} sessionId={currentRoundId} phaseEndsAt={phaseEndsAt} />;
+  }
+
   // Waiting screen with hosts - only show when session is not LIVE yet (skip for archives)
   if (session.status !== "LIVE" && !isArchive) {
     return <div className="min-h-[500px] grid grid-cols-1 md:grid-cols-[auto_minmax(0,1fr)_auto] items-center md:items-stretch gap-6 md:gap-10 px-4">
         {/* Host A (Left of the box) */}
         <div className="hidden md:flex flex-col items-center justify-end pb-6">
           <SmallHost type="hostA" isSpeaking={waitingRoomSpeaker === "hostA"} />
-          <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostA" ? "text-orange-400 text-glow-orange" : "text-muted-foreground"}`}>CARL</span>
+          <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostA" ? "text-orange-400 text-glow-orange" : "text-muted-foreground"}`}>{shortHostName(hosts.A).toUpperCase()}</span>
         </div>
 
         {/* The waiting room box */}
@@ -872,7 +587,7 @@ export function StudioView({
             {waitingRoomDialogue && <div className="mt-6 w-full max-w-xs animate-fade-in">
                 <div className={`border-2 p-4 rounded-lg relative ${waitingRoomSpeaker === "hostA" ? "bg-orange-950/50 border-orange-500/60" : "bg-blue-950/50 border-blue-500/60"}`}>
                   <div className={`absolute -top-3 left-4 px-2 py-0.5 text-[10px] font-pixel uppercase tracking-wider bg-background border ${waitingRoomSpeaker === "hostA" ? "border-orange-500 text-orange-400" : "border-blue-500 text-blue-400"}`}>
-                    {waitingRoomSpeaker === "hostA" ? "CHAOS CARL" : "ROAST RONNIE"}
+                    {waitingRoomSpeaker === "hostA" ? hosts.A.name.toUpperCase() : hosts.B.name.toUpperCase()}
                   </div>
                   <p className="text-sm text-foreground leading-relaxed pt-1 line-clamp-4">
                     "{waitingRoomDialogue}"
@@ -892,18 +607,18 @@ export function StudioView({
         {/* Host B (Right of the box) */}
         <div className="hidden md:flex flex-col items-center justify-end pb-6">
           <SmallHost type="hostB" isSpeaking={waitingRoomSpeaker === "hostB"} />
-          <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostB" ? "text-blue-400 text-glow-cyan" : "text-muted-foreground"}`}>RONNIE</span>
+          <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostB" ? "text-blue-400 text-glow-cyan" : "text-muted-foreground"}`}>{shortHostName(hosts.B).toUpperCase()}</span>
         </div>
 
         {/* Mobile fallback (below the box) */}
         <div className="md:hidden flex items-end justify-between px-2 pb-2">
           <div className="flex flex-col items-center">
             <SmallHost type="hostA" isSpeaking={waitingRoomSpeaker === "hostA"} />
-            <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostA" ? "text-orange-400 text-glow-orange" : "text-muted-foreground"}`}>CARL</span>
+            <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostA" ? "text-orange-400 text-glow-orange" : "text-muted-foreground"}`}>{shortHostName(hosts.A).toUpperCase()}</span>
           </div>
           <div className="flex flex-col items-center">
             <SmallHost type="hostB" isSpeaking={waitingRoomSpeaker === "hostB"} />
-            <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostB" ? "text-blue-400 text-glow-cyan" : "text-muted-foreground"}`}>RONNIE</span>
+            <span className={`text-sm font-pixel uppercase tracking-wider mt-2 ${waitingRoomSpeaker === "hostB" ? "text-blue-400 text-glow-cyan" : "text-muted-foreground"}`}>{shortHostName(hosts.B).toUpperCase()}</span>
           </div>
         </div>
       </div>;
@@ -921,19 +636,19 @@ export function StudioView({
         <div className="relative z-20 flex flex-col items-center text-center space-y-8 p-8">
           {/* Host speaking */}
           <div className="flex items-center gap-4">
-            <SmallHost type={currentSpeaker === "hostA" ? "hostA" : "hostB"} isSpeaking={true} />
+            <SmallHost type={currentSpeaker === "hostA" ? "hostA" : "hostB"} isSpeaking={true} mouth={segmentMouth} />
             <div className="text-left">
               <p className="text-xs text-secondary text-glow-magenta uppercase tracking-wider mb-1">
-                {currentSpeaker === "hostA" ? "CHAOS CARL" : "ROAST RONNIE"}
+                {currentSpeaker === "hostA" ? hosts.A.name.toUpperCase() : hosts.B.name.toUpperCase()}
               </p>
             </div>
           </div>
           
           {/* Speech bubble with commentary */}
-          {hostCommentary && <div className="max-w-md bg-card border-2 border-secondary p-4 relative animate-fade-in">
+          {segment && <div className="max-w-md bg-card border-2 border-secondary p-4 relative animate-fade-in">
               <div className="absolute -top-2 left-1/2 -translate-x-1/2 w-0 h-0 border-l-8 border-r-8 border-b-8 border-transparent border-b-secondary" />
               <p className="text-lg font-pixel text-foreground leading-relaxed">
-                {hostCommentary}
+                {segment.timing ? <KaraokeCaption timing={segment.timing} position={segmentPosition} /> : segment.text}
               </p>
             </div>}
           
@@ -978,9 +693,9 @@ export function StudioView({
         
         {/* Replay Controls for Archive */}
         {isArchive && <div className="flex items-center gap-2">
-            {!isReplaying ? <Button variant="neon" size="sm" onClick={startReplay} disabled={replayMessages.length === 0} className="text-xs">
+            {!isReplaying ? <Button variant="neon" size="sm" onClick={startReplay} disabled={replayExchanges.length === 0} className="text-xs">
                 <Play className="w-3 h-3 mr-1" />
-                {replayMessages.length > 0 ? `Play (${replayMessages.length} roasts)` : "No roasts"}
+                {replayRoastCount > 0 ? `Play (${replayRoastCount} roasts)` : "No roasts"}
               </Button> : <div className="flex items-center gap-2">
                 <Button variant="ghost" size="sm" onClick={toggleReplayPause} className="text-xs">
                   {replayPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
@@ -989,7 +704,7 @@ export function StudioView({
                   <RotateCcw className="w-3 h-3" />
                 </Button>
                 <span className="text-xs text-muted-foreground">
-                  {currentReplayIndex + 1}/{replayMessages.length}
+                  {currentReplayIndex + 1}/{replayExchanges.length}
                 </span>
               </div>}
           </div>}
@@ -1030,17 +745,17 @@ export function StudioView({
           {/* Roast Display with Hosts on sides */}
           <div className="w-full max-w-2xl flex items-center justify-center gap-4">
             
-            {/* Host A - Carl on LEFT */}
+            {/* Host A on LEFT */}
             <div className="flex flex-col items-center flex-shrink-0">
               <div className={`transition-all duration-300 ${currentSpeaker === "hostA" ? "scale-125 animate-bounce" : "scale-100 animate-pulse"}`} style={{
               animationDuration: currentSpeaker === "hostA" ? "0.3s" : "3s",
               transform: currentSpeaker === "hostA" ? "translateY(-4px)" : "none"
             }}>
-                <SmallHost type="hostA" isSpeaking={currentSpeaker === "hostA"} />
+                <SmallHost type="hostA" isSpeaking={currentSpeaker === "hostA"} mouth={segmentMouth} />
               </div>
               <AudioWaveformVisualizer isActive={currentSpeaker === "hostA"} color="hsl(30 100% 50%)" barCount={5} className="mt-1" />
               <div className={`mt-1 px-3 py-1 rounded-full transition-all ${currentSpeaker === "hostA" ? "bg-orange-500 text-white shadow-[0_0_20px_hsl(30_100%_50%/0.8)] scale-110" : "bg-card/30 text-muted-foreground/60 border border-border/50"}`}>
-                <span className="text-[10px] font-bold uppercase tracking-wider">Carl</span>
+                <span className="text-[10px] font-bold uppercase tracking-wider">{shortHostName(hosts.A)}</span>
               </div>
             </div>
 
@@ -1073,31 +788,35 @@ export function StudioView({
                       
                       {/* Message content */}
                       <p className="text-sm md:text-base text-foreground leading-relaxed pl-8">
-                        {currentDisplay.text}
+                        {!isArchive && segment?.timing ? (
+                          <KaraokeCaption timing={segment.timing} position={segmentPosition} />
+                        ) : (
+                          currentDisplay.text
+                        )}
                       </p>
                     </div> : <div className="flex flex-col items-center justify-center h-full py-6 gap-3">
                       <div className="w-12 h-12 rounded-full border-2 border-dashed border-primary/30 flex items-center justify-center">
                         <span className="text-2xl animate-bounce">🎤</span>
                       </div>
                       <p className="text-primary/60 text-sm uppercase tracking-wider animate-pulse">
-                        {isProcessing ? "Loading roast..." : "Waiting for roasts..."}
+                        {segments.length > 0 ? "Loading roast..." : "Waiting for roasts..."}
                       </p>
                     </div>}
                 </div>
               </div>
             </div>
 
-            {/* Host B - Ronnie on RIGHT */}
+            {/* Host B on RIGHT */}
             <div className="flex flex-col items-center flex-shrink-0">
               <div className={`transition-all duration-300 ${currentSpeaker === "hostB" ? "scale-125" : "scale-100"}`} style={{
               animation: currentSpeaker === "hostB" ? "none" : "pulse 4s ease-in-out infinite",
               transform: currentSpeaker === "hostB" ? "translateY(-4px) rotate(3deg)" : "none"
             }}>
-                <SmallHost type="hostB" isSpeaking={currentSpeaker === "hostB"} />
+                <SmallHost type="hostB" isSpeaking={currentSpeaker === "hostB"} mouth={segmentMouth} />
               </div>
               <AudioWaveformVisualizer isActive={currentSpeaker === "hostB"} color="hsl(200 100% 50%)" barCount={5} className="mt-1" />
               <div className={`mt-1 px-3 py-1 rounded-full transition-all ${currentSpeaker === "hostB" ? "bg-blue-500 text-white shadow-[0_0_20px_hsl(200_100%_50%/0.8)] scale-110" : "bg-card/30 text-muted-foreground/60 border border-border/50"}`}>
-                <span className="text-[10px] font-bold uppercase tracking-wider">Ronnie</span>
+                <span className="text-[10px] font-bold uppercase tracking-wider">{shortHostName(hosts.B)}</span>
               </div>
             </div>
           </div>
@@ -5,8 +5,8 @@ import { Mic, Square, Send, MessageSquare, Play, Trash2, Pause, Loader2 } from "
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { AudioWaveform } from "./AudioWaveform";
-
-const MAX_ROASTS_PER_USER = 3;
+import { useShowConfig } from "@/hooks/useShowConfig";
+import { isRejected, submitErrorDescription, submitRoast, type SubmitRoastResult } from "@/lib/submissions";
 
 interface SubmissionFormProps {
   sessionId: string;
@@ -21,6 +21,7 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
   const [recordingTime, setRecordingTime] = useState(0);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [recordedUrl, setRecordedUrl] = useState<string | null>(null);
+  const [recordedDurationMs, setRecordedDurationMs] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [transcript, setTranscript] = useState<string | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
@@ -28,26 +29,47 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const recordingStartedAtRef = useRef(0);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const { toast } = useToast();
+  const { max_roasts_per_user: maxRoastsPerUser } = useShowConfig();
 
   // Storage key is per-session so limit is per round
   const storageKey = `roast-count-session-${sessionId}`;
 
-  // Load user's roast count for this session from localStorage
+  // Load user's roast count for this session from localStorage.
+  // Display only: submit-roast enforces the real quota.
   useEffect(() => {
     const storedCount = localStorage.getItem(storageKey);
     setUserRoastCount(storedCount ? parseInt(storedCount, 10) : 0);
   }, [storageKey]);
 
-  const incrementRoastCount = () => {
-    const newCount = userRoastCount + 1;
-    localStorage.setItem(storageKey, String(newCount));
-    setUserRoastCount(newCount);
+  const saveRoastCount = (count: number) => {
+    localStorage.setItem(storageKey, String(count));
+    setUserRoastCount(count);
   };
 
-  const hasReachedLimit = userRoastCount >= MAX_ROASTS_PER_USER;
+  // Track the server's count and report rejections
+  const handleSubmitResult = (result: SubmitRoastResult) => {
+    if (!isRejected(result)) {
+      saveRoastCount(result.limit - result.remaining);
+      return;
+    }
+
+    if (result.code === "client_quota") {
+      saveRoastCount(result.limit ?? maxRoastsPerUser);
+    } else if (result.remaining != null && result.limit != null) {
+      saveRoastCount(result.limit - result.remaining);
+    }
+    toast({
+      title: "Failed to submit",
+      description: submitErrorDescription(result.code),
+      variant: "destructive",
+    });
+  };
+
+  const hasReachedLimit = userRoastCount >= maxRoastsPerUser;
 
   const transcribeAudio = useCallback(async (blob: Blob) => {
     setIsTranscribing(true);
@@ -93,10 +115,12 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
       };
 
       mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(chunksRef.current, { type: "audio/webm" });
+        const audioBlob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || "audio/webm" });
         const url = URL.createObjectURL(audioBlob);
         setRecordedBlob(audioBlob);
         setRecordedUrl(url);
+        // Real clip length, so the show timeline can schedule it exactly
+        setRecordedDurationMs(Math.max(1, Date.now() - recordingStartedAtRef.current));
         stream.getTracks().forEach((track) => track.stop());
         
         // Transcribe the recording
@@ -104,6 +128,7 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
       };
 
       mediaRecorder.start();
+      recordingStartedAtRef.current = Date.now();
       setIsRecording(true);
       setRecordingTime(0);
       setTranscript(null);
@@ -171,6 +196,7 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
     }
     setRecordedBlob(null);
     setRecordedUrl(null);
+    setRecordedDurationMs(null);
     setIsPlaying(false);
     setRecordingTime(0);
     setTranscript(null);
@@ -181,26 +207,19 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
     
     setIsSubmitting(true);
     try {
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64Audio = reader.result as string;
-        
-        const { error } = await supabase.from("roast_messages").insert({
-          session_id: sessionId,
-          audio_url: base64Audio,
-          transcript: transcript || "[Voice submission]",
-        });
-
-        if (error) throw error;
+      const result = await submitRoast({
+        sessionId,
+        audio: recordedBlob,
+        audioDurationMs: recordedDurationMs,
+      });
+      handleSubmitResult(result);
+      if (isRejected(result)) return;
 
-        incrementRoastCount();
-        deleteRecording();
-        toast({
-          title: "Roast submitted!",
-          description: `Your voice clip is in the queue. (${userRoastCount + 1}/${MAX_ROASTS_PER_USER} total)`,
-        });
-      };
-      reader.readAsDataURL(recordedBlob);
+      deleteRecording();
+      toast({
+        title: "Roast submitted!",
+        description: `${result.moderationStatus === "approved" ? "Your voice clip is in the queue." : "Your voice clip is being reviewed before it airs."} (${result.limit - result.remaining}/${result.limit} total)`,
+      });
     } catch (error) {
       toast({
         title: "Failed to submit",
@@ -217,24 +236,14 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
     
     setIsSubmitting(true);
     try {
-      const { error } = await supabase.from("roast_messages").insert({
-        session_id: sessionId,
-        transcript: text.trim(),
-      });
-
-      if (error) throw error;
+      const result = await submitRoast({ sessionId, transcript: text.trim() });
+      handleSubmitResult(result);
+      if (isRejected(result)) return;
 
-      incrementRoastCount();
       setText("");
       toast({
         title: "Roast submitted!",
-        description: `Your message will be converted to voice. (${userRoastCount + 1}/${MAX_ROASTS_PER_USER} total)`,
-      });
-    } catch (error) {
-      toast({
-        title: "Failed to submit",
-        description: "Please try again.",
-        variant: "destructive",
+        description: `${result.moderationStatus === "approved" ? "Your message will be converted to voice." : "Your message is being reviewed before it airs."} (${result.limit - result.remaining}/${result.limit} total)`,
       });
     } finally {
       setIsSubmitting(false);
@@ -252,7 +261,7 @@ export function SubmissionForm({ sessionId, disabled }: SubmissionFormProps) {
   if (hasReachedLimit) {
     return (
       <div className="p-4 rounded-lg bg-studio-surface border border-border text-center">
-        <p className="text-muted-foreground text-sm">You've reached your limit of {MAX_ROASTS_PER_USER} roasts.</p>
+        <p className="text-muted-foreground text-sm">You've reached your limit of {maxRoastsPerUser} roasts.</p>
         <p className="text-xs text-muted-foreground mt-1">Thanks for participating!</p>
       </div>
     );
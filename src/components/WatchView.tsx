@@ -5,9 +5,17 @@ import { Button } from "@/components/ui/button";
 import { Play, Pause, RotateCcw, Volume2, VolumeX, Maximize2, Minimize2, ArrowLeft, Users, Lock, Unlock } from "lucide-react";
 import { SmallHost } from "./SmallHost";
 import { AudioWaveformVisualizer } from "./AudioWaveformVisualizer";
+import { KaraokeCaption } from "./KaraokeCaption";
+import { IntermissionView } from "./IntermissionView";
 import { useSessionSync } from "@/hooks/useSessionSync";
 import { useRoundState } from "@/hooks/useRoundState";
 import { useHostChatter } from "@/hooks/useHostChatter";
+import { useHosts } from "@/hooks/useHosts";
+import { useShowTimeline } from "@/hooks/useShowTimeline";
+import { serverNow } from "@/lib/serverClock";
+import { mouthOpenness } from "@/lib/speechTiming";
+import { speechUrl } from "@/lib/speech";
+import { resolveChatterLine, type ScriptLine } from "@/lib/waitingRoomLines";
 
 interface WatchViewProps {
   session: {
@@ -18,7 +26,6 @@ interface WatchViewProps {
     lock_time?: string;
     start_time?: string;
   };
-  onComplete?: () => void;
   onBack?: () => void;
 }
 
@@ -28,33 +35,15 @@ interface Message {
   audio_url: string | null;
 }
 
-type Speaker = "user" | "hostA" | "hostB";
-
-interface DisplayItem {
-  speaker: Speaker;
-  text: string;
-}
-
-export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
+export function WatchView({ session, onBack }: WatchViewProps) {
   const navigate = useNavigate();
+  const hosts = useHosts();
   const [messages, setMessages] = useState<Message[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [currentDisplay, setCurrentDisplay] = useState<DisplayItem | null>(null);
-  const [currentSpeaker, setCurrentSpeaker] = useState<Speaker | null>(null);
   const [isMuted, setIsMuted] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [showIntro, setShowIntro] = useState(true);
-  const [roastNumber, setRoastNumber] = useState(0);
-  const [phase, setPhase] = useState<"idle" | "intro" | "roast" | "response" | "transition">("idle");
-  const [isAutoStarting, setIsAutoStarting] = useState(false);
-  const [isTransitioning, setIsTransitioning] = useState(false);
   const [displayedText, setDisplayedText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
   const [isViewLocked, setIsViewLocked] = useState(false);
-  const [showComplete, setShowComplete] = useState(false);
-  const [completeCountdown, setCompleteCountdown] = useState(3);
 
   // Load lock state from localStorage on mount
   useEffect(() => {
@@ -77,75 +66,63 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
   const waitingRoomChatterRef = useRef(false);
   const countdownWarningPlayedRef = useRef(false);
 
-  const audioRef = useRef<HTMLAudioElement | null>(null);
   const mountedRef = useRef(true);
-  const pausedRef = useRef(false);
-  const playingRef = useRef(false);
-  const hostTurnRef = useRef<"A" | "B">("A");
   const containerRef = useRef<HTMLDivElement>(null);
-  const hasCompletedRef = useRef(false);
   const typewriterRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Global state sync refs
-  const lastProcessedIndexRef = useRef<number>(-1);
-  const currentlyProcessingRef = useRef<number | null>(null);
-
-  // Pre-generated TTS cache: stores { roastText, ttsUrl, ttsBase64, hostType } for next roast
-  const pregenCacheRef = useRef<Map<number, {
-    roastText: string;
-    ttsUrl: string | null;
-    ttsBase64: string | null;
-    hostType: "A" | "B";
-  }>>(new Map());
+  // Draft being typed and how much of it is on screen
+  const draftTypingRef = useRef({ text: "", typed: 0 });
 
   // Round state from global synchronized state
-  const { 
-    endLiveRound, 
-    advanceRoastIndex,
-    currentRoastIndex: globalRoastIndex,
-    totalRoasts: globalTotalRoasts,
-    liveStartTime: globalLiveStartTime,
+  const {
     roundState: globalRoundState,
+    currentRoundId: globalRoundId,
+    phaseEndsAt,
     timeRemaining
   } = useRoundState();
 
-  // Session sync for synchronized viewing (host/follower model for UI sync)
-  const { isHost, playbackState, viewerCount, broadcastState } = useSessionSync({
+  // The live show is produced server-side; every viewer renders the same timeline
+  const { segment, roastCount, roastNumber, segments, draft } = useShowTimeline({
+    sessionId: session.id,
+    enabled: session.status === "LIVE",
+    muted: isMuted,
+  });
+  const currentSpeaker = segment?.speaker ?? null;
+  // The line the hosts are writing while nothing is on air
+  const draftLine = draft?.lines[draft.lines.length - 1] ?? null;
+
+  // Host chatter for waiting room (only active when not LIVE)
+  const isWaitingRoom = session.status !== "LIVE";
+
+  // The line a follower is voicing, so republished state doesn't start it again
+  const followedLineRef = useRef<string | null>(null);
+
+  const hostsRef = useRef(hosts);
+  hostsRef.current = hosts;
+
+  // The leader tab picks waiting-room chatter and publishes each line's key; followers
+  // voice the line the key names in their own copy. Chatter lines are static and
+  // prewarmed, so every tab plays the same stored clip from the TTS cache.
+  const { isHost, playbackState, broadcastState } = useSessionSync({
     sessionId: session.id,
+    enabled: isWaitingRoom,
     onStateChange: (state) => {
-      // Followers sync to host's state for UI display
-      if (!isHost && state) {
-        setCurrentIndex(state.current_index);
-        setPhase(state.phase as typeof phase);
-        setCurrentSpeaker(state.current_speaker as Speaker | null);
-        setRoastNumber(state.roast_number);
-        setIsPlaying(state.is_playing);
-        hostTurnRef.current = state.host_turn as "A" | "B";
-        
-        if (state.current_text) {
-          setCurrentDisplay({
-            speaker: state.current_speaker as Speaker,
-            text: state.current_text,
-          });
-          setDisplayedText(state.current_text);
-        } else {
-          setCurrentDisplay(null);
-          setDisplayedText("");
-        }
-        
-        // Play audio if follower and audio URL provided
-        if (state.current_audio_url && state.audio_started_at) {
-          playFollowerAudio(state.current_audio_url, state.audio_started_at);
-        }
+      const key = state.current_line && state.is_playing ? state.current_line : null;
+      if (key === followedLineRef.current) return;
+
+      followedLineRef.current = key;
+      const line = key ? resolveChatterLine(key, hostsRef.current) : null;
+      if (key && line && !mutedRef.current) {
+        void followLine(key, line);
       }
     },
   });
-
-  // Host chatter for waiting room (only active when not LIVE and countdown is running)
-  // Enable chatter for hosts OR when there's an active countdown (studio page scenario)
-  const isWaitingRoom = session.status !== "LIVE";
-  const shouldEnableChatter = isWaitingRoom && (isHost || timeRemaining > 0);
-  const { speakingHost: chatterSpeakingHost, currentText: chatterCurrentText, isPlaying: chatterIsPlaying } = useHostChatter({
+  const shouldEnableChatter = isWaitingRoom && isHost;
+  const {
+    speakingHost: chatterSpeakingHost,
+    currentText: chatterCurrentText,
+    currentLine: chatterCurrentLine,
+    isPlaying: chatterIsPlaying,
+  } = useHostChatter({
     enabled: shouldEnableChatter,
     timeRemaining,
   });
@@ -163,18 +140,38 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
     }
   }, [shouldEnableChatter, chatterSpeakingHost, chatterCurrentText]);
 
-  // Scheduler and processed refs
-  const schedulerIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const liveStartTimeRef = useRef<number>(0);
-  const roastProcessedRef = useRef<Set<number>>(new Set());
+  // Leader: publish each chatter line for followers to voice
+  useEffect(() => {
+    if (!isHost || !shouldEnableChatter) return;
+    void broadcastState({
+      phase: chatterSpeakingHost ? "chatter" : "idle",
+      current_line: chatterCurrentLine,
+      is_playing: chatterIsPlaying,
+    });
+  }, [isHost, shouldEnableChatter, chatterSpeakingHost, chatterCurrentLine, chatterIsPlaying, broadcastState]);
+
+  // Follower: show the leader's chatter
+  useEffect(() => {
+    if (isHost || !playbackState) return;
+    const line = playbackState.current_line ? resolveChatterLine(playbackState.current_line, hosts) : null;
+    setWaitingRoomSpeaker(line ? (line.speaker === "A" ? "hostA" : "hostB") : null);
+    setWaitingRoomDialogue(line?.text ?? null);
+  }, [isHost, playbackState, hosts]);
+
+  // A follower that takes over the lead stops voicing the old leader's line
+  useEffect(() => {
+    if (!isHost) return;
+    followedLineRef.current = null;
+    waitingAudioRef.current?.pause();
+    waitingAudioRef.current = null;
+  }, [isHost]);
+
+  const waitingRoomIsPlaying = shouldEnableChatter ? chatterIsPlaying : !!playbackState?.is_playing;
 
   // Ref for muted state to avoid stale closure issues
   const mutedRef = useRef(isMuted);
   useEffect(() => {
     mutedRef.current = isMuted;
-    if (audioRef.current) {
-      audioRef.current.muted = isMuted;
-    }
     if (waitingAudioRef.current) {
       waitingAudioRef.current.muted = isMuted;
     }
@@ -188,39 +185,10 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
     waitingRoomChatterRef.current = false;
     setWaitingRoomDialogue(null);
     setWaitingRoomSpeaker(null);
-    
-    hasCompletedRef.current = false;
-    playingRef.current = false;
-    hostTurnRef.current = "A";
-    roastProcessedRef.current.clear();
-    currentlyProcessingRef.current = null;
-    lastProcessedIndexRef.current = -1;
-    liveStartTimeRef.current = 0;
-    pregenCacheRef.current.clear();
     setMessages([]);
-    setCurrentIndex(0);
-    setIsPlaying(false);
-    setIsPaused(false);
-    setCurrentDisplay(null);
-    setCurrentSpeaker(null);
-    setShowIntro(true);
-    setRoastNumber(0);
-    setPhase("idle");
-    setIsAutoStarting(false);
-    setIsTransitioning(false);
     setDisplayedText("");
     setIsTyping(false);
-    setShowComplete(false);
-    setCompleteCountdown(3);
-    
-    if (schedulerIntervalRef.current) {
-      clearInterval(schedulerIntervalRef.current);
-      schedulerIntervalRef.current = null;
-    }
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = "";
-    }
+
     if (typewriterRef.current) {
       clearInterval(typewriterRef.current);
     }
@@ -231,49 +199,9 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
     mountedRef.current = true;
     return () => {
       mountedRef.current = false;
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current = null;
-      }
       if (typewriterRef.current) {
         clearInterval(typewriterRef.current);
       }
-      if (schedulerIntervalRef.current) {
-        clearInterval(schedulerIntervalRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    pausedRef.current = isPaused;
-  }, [isPaused]);
-
-  // Play audio for followers with time sync
-  const playFollowerAudio = useCallback((url: string, startedAt: string) => {
-    if (!mountedRef.current) return;
-    
-    const startTime = new Date(startedAt).getTime();
-    const now = Date.now();
-    const elapsed = (now - startTime) / 1000;
-    
-    if (elapsed > 30) {
-      return;
-    }
-    
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = "";
-    }
-    
-    const audio = new Audio(url);
-    audio.muted = mutedRef.current;
-    audioRef.current = audio;
-    
-    audio.onloadedmetadata = () => {
-      if (elapsed > 0 && elapsed < audio.duration) {
-        audio.currentTime = elapsed;
-      }
-      audio.play().catch(() => {});
     };
   }, []);
 
@@ -285,161 +213,47 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
       .channel(`watch-messages-${session.id}`)
       .on(
         "postgres_changes",
-        { event: "INSERT", schema: "public", table: "roast_messages", filter: `session_id=eq.${session.id}` },
+        { event: "*", schema: "public", table: "roast_messages", filter: `session_id=eq.${session.id}` },
         () => fetchMessages()
       )
       .subscribe();
 
-    // Subscribe to waiting room dialogue broadcast (for followers)
-    const dialogueChannel = supabase
-      .channel(`dialogue-${session.id}`)
-      .on("broadcast", { event: "dialogue" }, (payload) => {
-        if (!isHost && payload.payload) {
-          setWaitingRoomDialogue(payload.payload.text || null);
-          setWaitingRoomSpeaker(payload.payload.speaker || null);
-          if (payload.payload.audioUrl && !isMuted) {
-            playAudioForWaiting(payload.payload.audioUrl);
-          }
-        }
-      })
-      .subscribe();
-
     return () => {
       supabase.removeChannel(channel);
-      supabase.removeChannel(dialogueChannel);
     };
-  }, [session.id, isHost, isMuted]);
-
-  // Auto-start when session goes LIVE (HOST ONLY)
-  useEffect(() => {
-    if (session.status === "LIVE" && !hasCompletedRef.current && isHost) {
-      if (messages.length === 0 && !playingRef.current) {
-        playingRef.current = true;
-        const runNoRoasts = async () => {
-          await playNoRoastsCommentary();
-          if (!hasCompletedRef.current) {
-            hasCompletedRef.current = true;
-            // BRUTE FORCE: End round and immediately force new session
-            await endLiveRound();
-            // Force create a new session with different KOL
-            await forceNewKOL();
-          }
-        };
-        runNoRoasts();
-        return;
-      }
-      
-      if (messages.length > 0 && !isPlaying && !playingRef.current) {
-        setIsAutoStarting(true);
-        setShowIntro(false);
-        const timer = setTimeout(() => {
-          setIsAutoStarting(false);
-          handleStart();
-        }, 1500);
-        return () => clearTimeout(timer);
-      }
-    }
-  }, [session.status, messages.length, isHost, isPlaying]);
+  }, [session.id]);
 
-  // Handle completion countdown
+  // Type out each segment as it comes on air. Segments with timing are captioned
+  // word by word instead.
   useEffect(() => {
-    if (!showComplete) return;
-    
-    if (completeCountdown <= 0) {
-      setShowComplete(false);
-      if (onComplete) {
-        onComplete();
+    draftTypingRef.current = { text: "", typed: 0 };
+    if (!segment || segment.timing) {
+      if (typewriterRef.current) {
+        clearInterval(typewriterRef.current);
       }
+      setDisplayedText("");
+      setIsTyping(false);
       return;
     }
-    
-    const timer = setTimeout(() => {
-      setCompleteCountdown(prev => prev - 1);
-    }, 1000);
-    
-    return () => clearTimeout(timer);
-  }, [showComplete, completeCountdown, onComplete]);
-
-  // Play "no roasts" commentary when session goes live with no messages
-  const playNoRoastsCommentary = async () => {
-    const noRoastDialogues = [
-      [
-        { speaker: "A" as const, text: `Wait... NOBODY roasted ${session.persona_name}?! Are you KIDDING me?!` },
-        { speaker: "B" as const, text: `Apparently ${session.persona_name} is too boring to roast. Or everyone fell asleep.` },
-      ],
-    ];
-
-    const selectedDialogue = noRoastDialogues[Math.floor(Math.random() * noRoastDialogues.length)];
-
-    for (const line of selectedDialogue) {
-      if (!mountedRef.current) break;
-
-      const speaker = line.speaker === "A" ? "hostA" : "hostB";
-      
-      // Set BOTH display systems so text shows in LIVE state too
-      setWaitingRoomSpeaker(speaker);
-      setWaitingRoomDialogue(line.text);
-      setCurrentSpeaker(speaker);
-      setCurrentDisplay({ speaker, text: line.text });
-      setDisplayedText(line.text);
-
-      supabase.channel(`dialogue-${session.id}`).send({
-        type: "broadcast",
-        event: "dialogue",
-        payload: { text: line.text, speaker, audioUrl: null },
-      });
 
-      const audioUrl = await generateTTSForWaiting(line.text, line.speaker);
-      
-      if (audioUrl) {
-        supabase.channel(`dialogue-${session.id}`).send({
-          type: "broadcast",
-          event: "dialogue",
-          payload: { text: line.text, speaker, audioUrl },
-        });
-        await playAudioForWaiting(audioUrl);
-      } else {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
+    typeText(segment.text ?? "", segment.speaker === "user" ? 25 : 20);
+  }, [segment]);
 
-      await new Promise(resolve => setTimeout(resolve, 600));
-    }
+  // Type the draft line as its tokens stream in
+  useEffect(() => {
+    if (draftLine?.text) typeDraft(draftLine.text);
+  }, [draftLine?.text]);
 
-    // Clear both display systems
-    setWaitingRoomSpeaker(null);
-    setWaitingRoomDialogue(null);
-    setCurrentSpeaker(null);
-    setCurrentDisplay(null);
-    setDisplayedText("");
-    
-    supabase.channel(`dialogue-${session.id}`).send({
-      type: "broadcast",
-      event: "dialogue",
-      payload: { text: null, speaker: null, audioUrl: null },
-    });
-  };
+  // How far into the segment on air the show is, in ms
+  const segmentPosition = useCallback(
+    () => (segment ? serverNow() - Date.parse(segment.starts_at) : null),
+    [segment]
+  );
 
-  const generateTTSForWaiting = async (text: string, hostType: "A" | "B"): Promise<string | null> => {
-    try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({ text, hostType }),
-        }
-      );
-      if (!response.ok) return null;
-      const data = await response.json();
-      return `data:audio/mpeg;base64,${data.audioContent}`;
-    } catch {
-      return null;
-    }
-  };
+  const segmentMouth = useCallback(
+    () => (segment?.timing ? mouthOpenness(segment.timing, segmentPosition()) : null),
+    [segment, segmentPosition]
+  );
 
   const playAudioForWaiting = async (url: string): Promise<void> => {
     if (!mountedRef.current) return;
@@ -468,72 +282,15 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
     });
   };
 
-  // BRUTE FORCE: Create new session with different KOL immediately
-  const forceNewKOL = async () => {
-    console.log("[WatchView] BRUTE FORCE: Creating new KOL session...");
-    try {
-      // Get a random persona
-      const { data: personas } = await supabase
-        .from("personas")
-        .select("*");
-      
-      if (!personas || personas.length === 0) {
-        console.log("[WatchView] No personas available");
-        return;
-      }
-      
-      // Pick random persona (different from current if possible)
-      let selectedPersona = personas[Math.floor(Math.random() * personas.length)];
-      if (personas.length > 1) {
-        const filtered = personas.filter(p => p.username !== session.persona_name);
-        if (filtered.length > 0) {
-          selectedPersona = filtered[Math.floor(Math.random() * filtered.length)];
-        }
-      }
-      
-      // Create new OPEN session
-      const now = new Date();
-      const lockTime = new Date(now.getTime() + 2 * 60 * 1000); // 2 minutes
-      
-      const { data: newSession, error } = await supabase
-        .from("roast_sessions")
-        .insert({
-          persona_name: selectedPersona.username,
-          persona_avatar: selectedPersona.profile_pic_url,
-          persona_id: selectedPersona.id,
-          status: "OPEN",
-          start_time: now.toISOString(),
-          lock_time: lockTime.toISOString(),
-        })
-        .select()
-        .single();
-      
-      if (error) {
-        console.error("[WatchView] Failed to create new session:", error);
-        return;
-      }
-      
-      console.log("[WatchView] BRUTE FORCE: New session created:", newSession.id);
-      
-      // Update global round state to SUBMITTING with new session
-      await supabase
-        .from("global_round_state")
-        .update({
-          round_state: "SUBMITTING",
-          session_id: newSession.id,
-          submit_end_time: lockTime.toISOString(),
-          current_roast_index: 0,
-          total_roasts: 0,
-          live_start_time: null,
-        })
-        .eq("id", "singleton");
-      
-      console.log("[WatchView] BRUTE FORCE: Global state updated to SUBMITTING");
-    } catch (err) {
-      console.error("[WatchView] BRUTE FORCE error:", err);
+  // Follower: voice a line the leader published
+  const followLine = async (key: string, line: ScriptLine): Promise<void> => {
+    const url = await speechUrl(line.text, line.speaker);
+    if (url && followedLineRef.current === key) {
+      await playAudioForWaiting(url);
     }
   };
 
+
   const fetchMessages = async () => {
     const { data } = await supabase
       .from("roast_messages")
@@ -545,97 +302,6 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
     if (data) setMessages(data);
   };
 
-  const playAudio = async (url: string): Promise<void> => {
-    if (!mountedRef.current) return;
-
-    return new Promise((resolve) => {
-      if (!mountedRef.current) { resolve(); return; }
-
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.src = "";
-      }
-
-      const audio = new Audio(url);
-      audio.muted = mutedRef.current;
-      audioRef.current = audio;
-
-      audio.onended = () => resolve();
-      audio.onerror = () => resolve();
-      audio.play().catch(() => resolve());
-    });
-  };
-
-  const generateRoast = async (transcript: string, hostType: "A" | "B"): Promise<string> => {
-    try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-roast`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({
-            transcript,
-            personaName: session.persona_name,
-            hostType,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        return hostType === "A"
-          ? `Oh WOW, that was BRUTAL! 🔥`
-          : `Now that's what I call a proper roast.`;
-      }
-
-      const data = await response.json();
-      return data.roast;
-    } catch {
-      return hostType === "A"
-        ? `Oh WOW, that was BRUTAL! 🔥`
-        : `Now that's what I call a proper roast.`;
-    }
-  };
-
-  const generateTTS = async (text: string, hostType: "A" | "B" | "announcer"): Promise<string | null> => {
-    try {
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({ text, hostType }),
-        }
-      );
-
-      if (!response.ok) return null;
-      const data = await response.json();
-      return `data:audio/mpeg;base64,${data.audioContent}`;
-    } catch {
-      return null;
-    }
-  };
-
-  const markMessageUsed = async (messageId: string) => {
-    await supabase
-      .from("roast_messages")
-      .update({ used: true })
-      .eq("id", messageId);
-  };
-
-  const waitWhilePaused = async () => {
-    while (pausedRef.current && mountedRef.current && playingRef.current) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
-  };
-
   // Typewriter effect function
   const typeText = (text: string, speed: number = 30): Promise<void> => {
     return new Promise((resolve) => {
@@ -662,413 +328,33 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
     });
   };
 
-  // Save exchange to database for archive replay
-  const saveExchange = async (
-    messageId: string,
-    userTranscript: string,
-    userAudioUrl: string | null,
-    hostType: "A" | "B",
-    hostResponse: string,
-    hostAudioBase64: string | null,
-    sequenceNumber: number
-  ) => {
-    try {
-      let hostAudioUrl: string | null = null;
-
-      // Upload host audio to storage if we have it
-      if (hostAudioBase64) {
-        const audioBlob = base64ToBlob(hostAudioBase64, "audio/mpeg");
-        const fileName = `${session.id}/${sequenceNumber}_host${hostType}.mp3`;
-        
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from("host-audio")
-          .upload(fileName, audioBlob, { contentType: "audio/mpeg", upsert: true });
-
-        if (!uploadError && uploadData) {
-          const { data: urlData } = supabase.storage
-            .from("host-audio")
-            .getPublicUrl(fileName);
-          hostAudioUrl = urlData.publicUrl;
-        }
-      }
-
-      // Insert exchange record
-      await supabase.from("roast_exchanges").insert({
-        session_id: session.id,
-        message_id: messageId,
-        user_transcript: userTranscript,
-        user_audio_url: userAudioUrl,
-        host_type: hostType,
-        host_response: hostResponse,
-        host_audio_url: hostAudioUrl,
-        sequence_number: sequenceNumber,
-      });
-    } catch (err) {
-      console.error("Error saving exchange:", err);
-    }
-  };
-
-  // Helper to convert base64 to Blob
-  const base64ToBlob = (base64: string, mimeType: string): Blob => {
-    const byteCharacters = atob(base64);
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
-    }
-    const byteArray = new Uint8Array(byteNumbers);
-    return new Blob([byteArray], { type: mimeType });
-  };
-
-  // Pre-generate roast text and TTS for a given index (runs in background)
-  const pregenForIndex = useCallback(async (idx: number) => {
-    if (idx >= messages.length) return;
-    if (pregenCacheRef.current.has(idx)) return; // Already pre-generated
-    
-    const message = messages[idx];
-    const userText = message.transcript || "[Voice clip]";
-    
-    // Determine which host will respond (based on alternation)
-    // Host alternates: 0->A, 1->B, 2->A, 3->B...
-    const hostType: "A" | "B" = idx % 2 === 0 ? "A" : "B";
-    
-    console.log(`[Pregen] Starting pre-generation for roast ${idx + 1}`);
-    
-    try {
-      // Generate roast text
-      const roastText = await generateRoast(userText, hostType);
-      
-      // Generate TTS
-      const ttsUrl = await generateTTS(roastText, hostType);
-      
-      let ttsBase64: string | null = null;
-      if (ttsUrl) {
-        const base64Match = ttsUrl.match(/base64,(.+)$/);
-        if (base64Match) {
-          ttsBase64 = base64Match[1];
-        }
-      }
-      
-      // Store in cache
-      pregenCacheRef.current.set(idx, {
-        roastText,
-        ttsUrl,
-        ttsBase64,
-        hostType,
-      });
-      
-      console.log(`[Pregen] Completed pre-generation for roast ${idx + 1}`);
-    } catch (err) {
-      console.error(`[Pregen] Failed for roast ${idx + 1}:`, err);
-    }
-  }, [messages]);
-
-  // Process a single roast at the given index
-  const processRoast = useCallback(async (idx: number) => {
-    if (!mountedRef.current || !playingRef.current) return;
-    if (currentlyProcessingRef.current !== null) return; // Already processing one
-    
-    currentlyProcessingRef.current = idx;
-    roastProcessedRef.current.add(idx);
-
-    setCurrentIndex(idx);
-    setRoastNumber(idx + 1);
-
-    const message = messages[idx];
-    const userText = message.transcript || "[Voice clip]";
-
-    // Start pre-generating the NEXT roast in background (don't await)
-    if (idx + 1 < messages.length) {
-      pregenForIndex(idx + 1);
-    }
-
-    // Show user roast with typewriter AND play audio simultaneously
-    setPhase("roast");
-    setCurrentSpeaker("user");
-    setCurrentDisplay({ speaker: "user", text: userText });
-
-    // Start typewriter and audio in parallel
-    const typewriterPromise = typeText(userText, 25);
-    
-    // Broadcast user roast state
-    broadcastState({
-      current_index: idx,
-      phase: "roast",
-      current_speaker: "user",
-      current_text: userText,
-      roast_number: idx + 1,
-      current_audio_url: message.audio_url,
-      audio_started_at: new Date().toISOString(),
-    });
-
-    let audioPromise: Promise<void>;
-    if (message.audio_url) {
-      audioPromise = playAudio(message.audio_url);
-    } else if (message.transcript) {
-      audioPromise = (async () => {
-        const announcerUrl = await generateTTS(message.transcript!, "announcer");
-        if (announcerUrl) {
-          await playAudio(announcerUrl);
-        } else {
-          await new Promise((resolve) => setTimeout(resolve, 3000));
-        }
-      })();
-    } else {
-      audioPromise = new Promise((resolve) => setTimeout(resolve, 3000));
-    }
-
-    // Wait for both to complete
-    await Promise.all([typewriterPromise, audioPromise]);
-
-    if (!mountedRef.current || !playingRef.current) {
-      currentlyProcessingRef.current = null;
-      return;
-    }
-
-    // Transition with fade
-    setIsTransitioning(true);
-    setPhase("transition");
-    await broadcastState({ phase: "transition" });
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    // Check if we have pre-generated content for THIS roast's host response
-    const cached = pregenCacheRef.current.get(idx);
-    
-    // Determine host type for this response
-    const hostType: "A" | "B" = idx % 2 === 0 ? "A" : "B";
-    hostTurnRef.current = hostType === "A" ? "B" : "A"; // Set next turn
-
-    setPhase("response");
-    setIsTransitioning(false);
-
-    let roast: string;
-    let ttsUrl: string | null;
-    let ttsBase64: string | null = null;
-
-    if (cached && cached.hostType === hostType) {
-      // Use pre-generated content - instant!
-      console.log(`[Pregen] Using cached roast for ${idx + 1}`);
-      roast = cached.roastText;
-      ttsUrl = cached.ttsUrl;
-      ttsBase64 = cached.ttsBase64;
-      pregenCacheRef.current.delete(idx); // Clear from cache
-    } else {
-      // Generate on-the-fly (fallback for first roast or cache miss)
-      roast = await generateRoast(userText, hostType);
-      ttsUrl = await generateTTS(roast, hostType);
-      if (ttsUrl) {
-        const base64Match = ttsUrl.match(/base64,(.+)$/);
-        if (base64Match) {
-          ttsBase64 = base64Match[1];
-        }
-      }
-    }
-
-    const hostSpeaker = hostType === "A" ? "hostA" : "hostB";
-    setCurrentSpeaker(hostSpeaker);
-    setCurrentDisplay({
-      speaker: hostSpeaker,
-      text: roast,
-    });
-
-    // Start typewriter and play audio simultaneously (TTS already generated!)
-    const hostTypewriterPromise = typeText(roast, 20);
-    
-    // Broadcast host response state with audio
-    broadcastState({
-      phase: "response",
-      current_speaker: hostSpeaker,
-      current_text: roast,
-      host_turn: hostTurnRef.current,
-      current_audio_url: ttsUrl,
-      audio_started_at: new Date().toISOString(),
-    });
-    
-    const ttsPlayPromise = ttsUrl 
-      ? playAudio(ttsUrl) 
-      : new Promise<void>((resolve) => setTimeout(resolve, 3000));
-
-    // Wait for both typewriter and audio to complete
-    await Promise.all([hostTypewriterPromise, ttsPlayPromise]);
-
-    // Save this exchange to database for archive replay
-    await saveExchange(
-      message.id,
-      userText,
-      message.audio_url,
-      hostType,
-      roast,
-      ttsBase64,
-      idx + 1
-    );
-
-    // Mark message as used
-    await markMessageUsed(message.id);
+  // Typewriter for a line that grows while it is typed: text extending what is on screen
+  // carries on from there, anything else starts over
+  const typeDraft = (text: string, speed: number = 20) => {
+    const typing = draftTypingRef.current;
+    if (!text.startsWith(typing.text.slice(0, typing.typed))) typing.typed = 0;
+    typing.text = text;
 
-    // Brief pause between messages
-    setPhase("transition");
-    await broadcastState({ phase: "transition" });
-    await new Promise((resolve) => setTimeout(resolve, 400));
-
-    currentlyProcessingRef.current = null;
-
-    // Check if this was the last roast
-    if (idx === messages.length - 1) {
-      finishPlayback();
-    }
-  }, [messages, session.persona_name, broadcastState, pregenForIndex]);
-
-  // Finish playback and transition to completion
-  const finishPlayback = useCallback(async () => {
-    if (schedulerIntervalRef.current) {
-      clearInterval(schedulerIntervalRef.current);
-      schedulerIntervalRef.current = null;
-    }
-
-    playingRef.current = false;
-    setIsPlaying(false);
-    setPhase("idle");
-    setCurrentDisplay(null);
-    setCurrentSpeaker(null);
-
-    // Broadcast end state
-    await broadcastState({
-      is_playing: false,
-      phase: "idle",
-      current_speaker: null,
-      current_text: null,
-      current_audio_url: null,
-    });
-
-    // BRUTE FORCE: End round and immediately force new session with 2-minute timer
-    if (!hasCompletedRef.current) {
-      hasCompletedRef.current = true;
-      await endLiveRound();
-      // Force create a new session with different KOL
-      await forceNewKOL();
-    }
-  }, [broadcastState, endLiveRound]);
-
-  // Timestamp-based scheduler - checks every 250ms which roast should play
-  const startTimestampScheduler = useCallback(() => {
-    if (!isHost) {
-      console.log("[Sync] Not host, skipping scheduler");
-      return;
-    }
-
-    // Clear any existing scheduler
-    if (schedulerIntervalRef.current) {
-      clearInterval(schedulerIntervalRef.current);
-    }
-
-    // Initialize
-    liveStartTimeRef.current = Date.now();
-    roastProcessedRef.current.clear();
-    currentlyProcessingRef.current = null;
-    pregenCacheRef.current.clear();
-    playingRef.current = true;
-
-    // Pre-generate the FIRST roast immediately so it's ready when we start
-    if (messages.length > 0) {
-      pregenForIndex(0);
+    if (typewriterRef.current) {
+      clearInterval(typewriterRef.current);
     }
+    setIsTyping(true);
 
-    // Base delay per roast (estimated average time per roast in ms)
-    const BASE_DELAY_PER_ROAST = 15000; // 15 seconds average per roast
-
-    // Broadcast initial state
-    broadcastState({
-      is_playing: true,
-      current_index: 0,
-      phase: "roast",
-    });
-
-    // Start the 250ms interval ticker
-    schedulerIntervalRef.current = setInterval(() => {
-      if (!mountedRef.current || !playingRef.current) {
-        if (schedulerIntervalRef.current) {
-          clearInterval(schedulerIntervalRef.current);
-          schedulerIntervalRef.current = null;
-        }
-        return;
-      }
-
-      // Check if paused
-      if (pausedRef.current) return;
-
-      const elapsed = Date.now() - liveStartTimeRef.current;
-
-      // Find the roast that should be playing based on elapsed time
-      for (let i = 0; i < messages.length; i++) {
-        const offsetTime = i * BASE_DELAY_PER_ROAST;
-        
-        // If enough time has passed for this roast AND it hasn't been processed yet
-        if (elapsed >= offsetTime && !roastProcessedRef.current.has(i)) {
-          // Only start if nothing is currently processing
-          if (currentlyProcessingRef.current === null) {
-            console.log(`[Scheduler] Triggering roast ${i + 1}/${messages.length} at elapsed=${elapsed}ms`);
-            processRoast(i);
-          }
-          break; // Only trigger one at a time
-        }
-      }
-
-      // Check if all roasts have been processed
-      if (roastProcessedRef.current.size === messages.length && currentlyProcessingRef.current === null) {
-        // All done, the last processRoast will call finishPlayback
-        if (schedulerIntervalRef.current) {
-          clearInterval(schedulerIntervalRef.current);
-          schedulerIntervalRef.current = null;
+    typewriterRef.current = setInterval(() => {
+      if (typing.typed < typing.text.length) {
+        typing.typed++;
+        setDisplayedText(typing.text.slice(0, typing.typed));
+      } else {
+        if (typewriterRef.current) {
+          clearInterval(typewriterRef.current);
         }
+        setIsTyping(false);
       }
-    }, 250);
-  }, [isHost, messages, broadcastState, processRoast, pregenForIndex]);
-
-  const handleStart = () => {
-    if (messages.length === 0) return;
-    setIsPlaying(true);
-    setIsPaused(false);
-    setCurrentIndex(0);
-    hostTurnRef.current = "A";
-    startTimestampScheduler();
-  };
-
-  const handleTogglePause = () => {
-    if (isPaused) {
-      setIsPaused(false);
-      if (audioRef.current) audioRef.current.play();
-    } else {
-      setIsPaused(true);
-      if (audioRef.current) audioRef.current.pause();
-    }
-  };
-
-  const handleRestart = () => {
-    // Stop scheduler and audio
-    if (schedulerIntervalRef.current) {
-      clearInterval(schedulerIntervalRef.current);
-      schedulerIntervalRef.current = null;
-    }
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.src = "";
-    }
-    playingRef.current = false;
-    hasCompletedRef.current = false;
-    roastProcessedRef.current.clear();
-    currentlyProcessingRef.current = null;
-    pregenCacheRef.current.clear();
-    setCurrentIndex(0);
-    setCurrentDisplay(null);
-    setCurrentSpeaker(null);
-    setPhase("idle");
-    setTimeout(() => handleStart(), 300);
+    }, speed);
   };
 
   const toggleMute = () => {
     setIsMuted(!isMuted);
-    if (audioRef.current) {
-      audioRef.current.muted = !isMuted;
-    }
   };
 
   const toggleFullscreen = () => {
@@ -1082,6 +368,17 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
     setIsFullscreen(!isFullscreen);
   };
 
+  // Intermission between KOLs, once this show has finished airing
+  if ((globalRoundState === "COOLDOWN" || globalRoundState === "UP_NEXT") && !segment) {
+    return (
+      <IntermissionView
+        roundState={globalRoundState}
+        sessionId={globalRoundId}
+        phaseEndsAt={phaseEndsAt}
+      />
+    );
+  }
+
   // Waiting state (OPEN or LOCKED)
   if (session.status !== "LIVE") {
     const isLocked = session.status === "LOCKED";
@@ -1189,9 +486,9 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
                         <p className="text-foreground text-center text-xs leading-snug">{waitingRoomDialogue}</p>
                       </div>
                     )}
-                    <SmallHost type="hostA" isSpeaking={waitingRoomSpeaker === "hostA" && chatterIsPlaying} size="large" />
+                    <SmallHost type="hostA" isSpeaking={waitingRoomSpeaker === "hostA" && waitingRoomIsPlaying} size="large" />
                   </div>
-                  <span className="watch-host-label text-lg text-orange-400">CHAOS CARL</span>
+                  <span className="watch-host-label text-lg text-orange-400">{hosts.A.name.toUpperCase()}</span>
                   <span className="watch-host-status-text">
                     {waitingRoomSpeaker === "hostA" ? "🎤 Speaking..." : "🔥 Ready to roast"}
                   </span>
@@ -1211,9 +508,9 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
                         <p className="text-foreground text-center text-xs leading-snug">{waitingRoomDialogue}</p>
                       </div>
                     )}
-                    <SmallHost type="hostB" isSpeaking={waitingRoomSpeaker === "hostB" && chatterIsPlaying} size="large" />
+                    <SmallHost type="hostB" isSpeaking={waitingRoomSpeaker === "hostB" && waitingRoomIsPlaying} size="large" />
                   </div>
-                  <span className="watch-host-label text-lg text-blue-400">ROAST RONNIE</span>
+                  <span className="watch-host-label text-lg text-blue-400">{hosts.B.name.toUpperCase()}</span>
                   <span className="watch-host-status-text">
                     {waitingRoomSpeaker === "hostB" ? "🎤 Speaking..." : "🧊 Cool and deadly"}
                   </span>
@@ -1263,16 +560,16 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
                 <span className="watch-badge-dot bg-destructive animate-pulse" />
                 LIVE
               </div>
-              {isPlaying && (
+              {roastNumber > 0 && (
                 <span className="text-[10px] text-muted-foreground font-pixel">
-                  #{roastNumber} / {messages.length}
+                  #{roastNumber} / {roastCount}
                 </span>
               )}
             </div>
 
             <div className="flex items-center gap-3">
               <span className="text-[10px] text-secondary text-glow-magenta font-bold">
-                {messages.length} ROASTS
+                {roastCount} ROASTS
               </span>
               <a 
                 href="https://twitter.com/RoastStudio" 
@@ -1330,7 +627,7 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
               {/* Host A - Left side */}
               <div className={`watch-host-stage watch-host-stage-left ${currentSpeaker === "hostA" ? "watch-host-active" : ""}`}>
                 <div className="watch-host-figure">
-                  <SmallHost type="hostA" isSpeaking={currentSpeaker === "hostA"} size="large" />
+                  <SmallHost type="hostA" isSpeaking={currentSpeaker === "hostA"} size="large" mouth={segmentMouth} />
                 </div>
                 <AudioWaveformVisualizer
                   isActive={currentSpeaker === "hostA"}
@@ -1339,43 +636,50 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
                   className="mt-3"
                 />
                 <span className={`watch-host-label text-lg ${currentSpeaker === "hostA" ? "text-orange-400" : "text-muted-foreground"}`}>
-                  CHAOS CARL
+                  {hosts.A.name.toUpperCase()}
                 </span>
               </div>
 
               {/* Speech bubble - Center */}
               <div className="watch-speech-container">
-                {currentDisplay ? (
+                {segment ? (
                   <div
+                    key={segment.id}
                     className={`watch-speech-bubble watch-speech-dramatic ${
-                      currentDisplay.speaker === "user"
+                      segment.speaker === "user"
                         ? "watch-speech-user watch-slide-up"
-                        : currentDisplay.speaker === "hostA"
+                        : segment.speaker === "hostA"
                         ? "watch-speech-hosta watch-slide-left"
                         : "watch-speech-hostb watch-slide-right"
-                    } ${isTransitioning ? "watch-fade-out" : ""}`}
+                    }`}
                   >
                     <div className="watch-speech-label">
-                      {currentDisplay.speaker === "user"
+                      {segment.speaker === "user"
                         ? "🎤 AUDIENCE ROAST"
-                        : currentDisplay.speaker === "hostA"
-                        ? "🔥 CHAOS CARL"
-                        : "🧊 ROAST RONNIE"}
+                        : segment.speaker === "hostA"
+                        ? `🔥 ${hosts.A.name.toUpperCase()}`
+                        : `🧊 ${hosts.B.name.toUpperCase()}`}
                     </div>
-                    <p className="watch-speech-text watch-typewriter">
-                      {displayedText}
-                      {isTyping && <span className="watch-cursor">|</span>}
-                    </p>
+                    {segment.timing ? (
+                      <p className="watch-speech-text">
+                        <KaraokeCaption timing={segment.timing} position={segmentPosition} />
+                      </p>
+                    ) : (
+                      <p className="watch-speech-text watch-typewriter">
+                        {displayedText}
+                        {isTyping && <span className="watch-cursor">|</span>}
+                      </p>
+                    )}
                     
                     {/* Speaker-specific particles */}
-                    {currentDisplay.speaker === "hostA" && (
+                    {segment.speaker === "hostA" && (
                       <div className="watch-speech-flames">
                         {[...Array(5)].map((_, i) => (
                           <div key={i} className={`watch-flame watch-flame-${i + 1}`} />
                         ))}
                       </div>
                     )}
-                    {currentDisplay.speaker === "hostB" && (
+                    {segment.speaker === "hostB" && (
                       <div className="watch-speech-frost">
                         {[...Array(5)].map((_, i) => (
                           <div key={i} className={`watch-frost watch-frost-${i + 1}`} />
@@ -1383,35 +687,23 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
                       </div>
                     )}
                   </div>
-                ) : showComplete ? (
-                  <div className="watch-speech-idle">
-                    <div className="flex flex-col items-center gap-4 text-center">
-                      <p className="text-6xl font-pixel text-primary animate-pulse">
-                        {completeCountdown > 0 ? completeCountdown : "GO!"}
-                      </p>
-                      <p className="text-xl font-pixel text-secondary">
-                        {isViewLocked ? "NEXT KOL INCOMING..." : "NEXT KOL"}
-                      </p>
-                      <p className="text-muted-foreground text-sm">
-                        {isViewLocked 
-                          ? "Staying on Watch tab..." 
-                          : "Switching to Submit tab..."}
-                      </p>
+                ) : draftLine ? (
+                  <div
+                    className={`watch-speech-bubble opacity-80 ${
+                      draftLine.speaker === "A" ? "watch-speech-hosta" : "watch-speech-hostb"
+                    }`}
+                  >
+                    <div className="watch-speech-label">
+                      ✍️ {hosts[draftLine.speaker].name.toUpperCase()} IS WRITING...
                     </div>
+                    <p className="watch-speech-text watch-typewriter">
+                      {displayedText}
+                      {isTyping && <span className="watch-cursor">|</span>}
+                    </p>
                   </div>
                 ) : (
                   <div className="watch-speech-idle">
-                    {messages.length === 0 ? (
-                      <div className="flex flex-col items-center gap-4 text-center">
-                        <p className="text-xl font-pixel text-secondary">NO ROASTS SUBMITTED</p>
-                        <p className="text-muted-foreground text-sm">
-                          No one roasted {session.persona_name} this round. 😅
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          Show will end shortly...
-                        </p>
-                      </div>
-                    ) : isAutoStarting ? (
+                    {segments.length === 0 ? (
                       <div className="flex flex-col items-center gap-4">
                         <div className="watch-spinner" />
                         <p className="text-primary text-sm animate-pulse">Starting the show...</p>
@@ -1419,13 +711,7 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
                     ) : (
                       <div className="flex flex-col items-center gap-2">
                         <div className="watch-spinner" />
-                        <p className="text-muted-foreground text-sm animate-pulse">
-                          {isPlaying 
-                            ? "Loading next roast..." 
-                            : messages.length === 0 
-                              ? "Waiting for roasts..." 
-                              : "Starting show..."}
-                        </p>
+                        <p className="text-muted-foreground text-sm animate-pulse">Loading next roast...</p>
                       </div>
                     )}
                   </div>
@@ -1435,7 +721,7 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
               {/* Host B - Right side */}
               <div className={`watch-host-stage watch-host-stage-right ${currentSpeaker === "hostB" ? "watch-host-active" : ""}`}>
                 <div className="watch-host-figure">
-                  <SmallHost type="hostB" isSpeaking={currentSpeaker === "hostB"} size="large" />
+                  <SmallHost type="hostB" isSpeaking={currentSpeaker === "hostB"} size="large" mouth={segmentMouth} />
                 </div>
                 <AudioWaveformVisualizer
                   isActive={currentSpeaker === "hostB"}
@@ -1444,7 +730,7 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
                   className="mt-3"
                 />
                 <span className={`watch-host-label text-lg ${currentSpeaker === "hostB" ? "text-blue-400" : "text-muted-foreground"}`}>
-                  ROAST RONNIE
+                  {hosts.B.name.toUpperCase()}
                 </span>
               </div>
             </div>
@@ -1452,11 +738,11 @@ export function WatchView({ session, onComplete, onBack }: WatchViewProps) {
         </div>
 
         {/* Progress bar */}
-        {isPlaying && (
+        {roastNumber > 0 && (
           <div className="watch-progress">
             <div
               className="watch-progress-fill"
-              style={{ width: `${((currentIndex + 1) / messages.length) * 100}%` }}
+              style={{ width: `${(roastNumber / roastCount) * 100}%` }}
             />
           </div>
         )}
@@ -1471,7 +757,7 @@ function CountdownDisplay({ session }: { session: { status: string; lock_time?:
 
   useEffect(() => {
     const calculateTime = () => {
-      const now = new Date();
+      const now = serverNow();
       let targetTime: Date | null = null;
 
       if (session.status === "OPEN" && session.lock_time) {
@@ -1481,7 +767,7 @@ function CountdownDisplay({ session }: { session: { status: string; lock_time?:
       }
 
       if (targetTime) {
-        const diff = targetTime.getTime() - now.getTime();
+        const diff = targetTime.getTime() - now;
         if (diff > 0) {
           const minutes = Math.floor(diff / 60000);
           const seconds = Math.floor((diff % 60000) / 1000);
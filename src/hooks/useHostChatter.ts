@@ -1,32 +1,16 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-
-const IDLE_LINES = {
-  hostA: [
-    "Man, I could roast people all day!",
-    "Who's gonna step up next? Come on!",
-    "The flames are hungry!",
-    "This silence is killing me!",
-    "Hey, you still there? Don't leave us hanging!",
-    "I'm getting bored over here!",
-    "Where's all the action at?",
-  ],
-  hostB: [
-    "Patience. The best roasts take time to marinate.",
-    "I'm analyzing the room... it's mostly empty.",
-    "Statistical probability of entertainment: increasing.",
-    "The calm before the storm, as they say.",
-    "I've calculated we have time for exactly one awkward silence.",
-    "Still waiting. My algorithms are ready.",
-    "Any moment now... or not.",
-  ],
-};
-
-const COUNTDOWN_ANNOUNCEMENTS: Record<number, { host: "A" | "B"; text: string }> = {
-  30: { host: "A", text: "Thirty seconds! Get ready to roast!" },
-  10: { host: "B", text: "Ten seconds remaining." },
-  5: { host: "A", text: "Five! Four! Three! Two! One!" },
-  0: { host: "B", text: "Submissions are now closed. Let the roasting begin." },
-};
+import { useHosts } from "@/hooks/useHosts";
+import type { HostCast } from "@/lib/hosts";
+import { speechUrl, trackFirstAudio } from "@/lib/speech";
+import { COUNTDOWN_ANNOUNCEMENTS, countdownLineKey, idleLineKey } from "@/lib/waitingRoomLines";
+
+// A random idle line from the seat's active host and its key, if it has any
+function pickIdleLine(cast: HostCast, host: "A" | "B"): { text: string; key: string } | null {
+  const lines = cast[host].idle_lines;
+  if (!lines.length) return null;
+  const index = Math.floor(Math.random() * lines.length);
+  return { text: lines[index], key: idleLineKey(host, index) };
+}
 
 interface UseHostChatterOptions {
   enabled: boolean;
@@ -36,12 +20,15 @@ interface UseHostChatterOptions {
 interface UseHostChatterReturn {
   speakingHost: "hostA" | "hostB" | null;
   currentText: string;
+  // Key of the line being voiced, for follower tabs to resolve
+  currentLine: string | null;
   isPlaying: boolean;
 }
 
 export function useHostChatter({ enabled, timeRemaining }: UseHostChatterOptions): UseHostChatterReturn {
   const [speakingHost, setSpeakingHost] = useState<"hostA" | "hostB" | null>(null);
   const [currentText, setCurrentText] = useState<string>("");
+  const [currentLine, setCurrentLine] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const lastIdleTimeRef = useRef<number>(0);
@@ -49,15 +36,19 @@ export function useHostChatter({ enabled, timeRemaining }: UseHostChatterOptions
   const isPlayingRef = useRef(false);
   const hasStartedRef = useRef(false);
   const cooldownRef = useRef(false);
+  const cast = useHosts();
+  const castRef = useRef(cast);
+  castRef.current = cast;
 
   const clearSpeakingState = useCallback(() => {
     isPlayingRef.current = false;
     setIsPlaying(false);
     setSpeakingHost(null);
     setCurrentText("");
+    setCurrentLine(null);
   }, []);
 
-  const playTTS = useCallback(async (text: string, hostType: "A" | "B") => {
+  const playTTS = useCallback(async (text: string, hostType: "A" | "B", key: string) => {
     // Block if already playing or in cooldown
     if (isPlayingRef.current || cooldownRef.current) {
       console.log("[useHostChatter] Blocked - playing:", isPlayingRef.current, "cooldown:", cooldownRef.current);
@@ -69,32 +60,21 @@ export function useHostChatter({ enabled, timeRemaining }: UseHostChatterOptions
       setIsPlaying(true);
       setSpeakingHost(hostType === "A" ? "hostA" : "hostB");
       setCurrentText(text);
+      setCurrentLine(key);
 
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({ text, hostType }),
-        }
-      );
-
-      if (!response.ok) {
+      // Starts playing while the line is still being synthesized
+      const audioUrl = await speechUrl(text, hostType);
+
+      if (!audioUrl) {
         throw new Error("TTS request failed");
       }
-
-      const data = await response.json();
-      const audioUrl = `data:audio/mpeg;base64,${data.audioContent}`;
       
       if (audioRef.current) {
         audioRef.current.pause();
       }
       
       const audio = new Audio(audioUrl);
+      trackFirstAudio(audio);
       audioRef.current = audio;
       
       audio.onended = () => {
@@ -128,9 +108,8 @@ export function useHostChatter({ enabled, timeRemaining }: UseHostChatterOptions
       hasStartedRef.current = true;
       // Play first line immediately
       const host = Math.random() > 0.5 ? "A" : "B";
-      const lines = host === "A" ? IDLE_LINES.hostA : IDLE_LINES.hostB;
-      const line = lines[Math.floor(Math.random() * lines.length)];
-      playTTS(line, host);
+      const line = pickIdleLine(castRef.current, host);
+      if (line) playTTS(line.text, host, line.key);
       lastIdleTimeRef.current = Date.now();
     }
   }, [enabled, timeRemaining, playTTS]);
@@ -154,10 +133,9 @@ export function useHostChatter({ enabled, timeRemaining }: UseHostChatterOptions
       
       // Alternate hosts randomly
       const host = Math.random() > 0.5 ? "A" : "B";
-      const lines = host === "A" ? IDLE_LINES.hostA : IDLE_LINES.hostB;
-      const line = lines[Math.floor(Math.random() * lines.length)];
+      const line = pickIdleLine(castRef.current, host);
       
-      playTTS(line, host);
+      if (line) playTTS(line.text, host, line.key);
     }, 3000);
 
     return () => clearInterval(idleInterval);
@@ -181,7 +159,7 @@ export function useHostChatter({ enabled, timeRemaining }: UseHostChatterOptions
         !isPlayingRef.current
       ) {
         announcedTimesRef.current.add(thresholdNum);
-        playTTS(announcement.text, announcement.host);
+        playTTS(announcement.text, announcement.speaker, countdownLineKey(thresholdNum));
         break; // Only one announcement at a time
       }
     }
@@ -203,6 +181,7 @@ export function useHostChatter({ enabled, timeRemaining }: UseHostChatterOptions
   return {
     speakingHost,
     currentText,
+    currentLine,
     isPlaying,
   };
 }
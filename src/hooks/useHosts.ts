@@ -0,0 +1,23 @@
+import { useState, useEffect } from "react";
+import { getCachedCast, subscribeToCast, type HostCast } from "@/lib/hosts";
+
+// Live view of the active hosts; starts from the built-in pair until the table loads.
+export function useHosts(): HostCast {
+  const [cast, setCast] = useState<HostCast>(getCachedCast);
+
+  useEffect(() => {
+    let mounted = true;
+    const apply = (next: HostCast) => {
+      if (mounted) setCast(next);
+    };
+
+    const unsubscribe = subscribeToCast(apply);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return cast;
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+interface UseProducerAuthReturn {
+  session: Session | null;
+  isProducer: boolean;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<string | null>; // Resolves to an error message
+  signOut: () => Promise<void>;
+}
+
+// Supabase Auth session plus the caller's role from current_app_role().
+// The database enforces the role; this only decides what the console shows.
+export function useProducerAuth(): UseProducerAuthReturn {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isProducer, setIsProducer] = useState(false);
+  const [sessionReady, setSessionReady] = useState(false);
+  const [rolesLoading, setRolesLoading] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+
+    supabase.auth.getSession().then(({ data }) => {
+      if (!mounted) return;
+      setSession(data.session);
+      setSessionReady(true);
+    });
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, next) => {
+      if (mounted) setSession(next);
+    });
+
+    return () => {
+      mounted = false;
+      listener.subscription.unsubscribe();
+    };
+  }, []);
+
+  const userId = session?.user.id ?? null;
+
+  useEffect(() => {
+    if (!userId) {
+      setIsProducer(false);
+      setRolesLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setRolesLoading(true);
+
+    const load = async () => {
+      const { data } = await supabase.rpc("current_app_role");
+
+      if (cancelled) return;
+      setIsProducer(data === "producer");
+      setRolesLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return error?.message ?? null;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+  }, []);
+
+  return { session, isProducer, loading: !sessionReady || rolesLoading, signIn, signOut };
+}
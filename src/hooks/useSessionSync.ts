@@ -0,0 +1,170 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  HEARTBEAT_MS,
+  claimLeadership,
+  fetchPlaybackState,
+  getClientId,
+  isLeaseExpired,
+  mergePlaybackState,
+  publishPlaybackState,
+  releaseLeadership,
+  subscribeToPlaybackState,
+  trackViewers,
+  type PlaybackState,
+  type PlaybackStateUpdate,
+} from "@/lib/sessionSync";
+import { serverNow } from "@/lib/serverClock";
+
+export type { PlaybackState, PlaybackStateUpdate } from "@/lib/sessionSync";
+
+interface UseSessionSyncOptions {
+  sessionId: string;
+  enabled?: boolean;
+  onStateChange?: (state: PlaybackState) => void; // Followers only, newest version first seen
+}
+
+interface UseSessionSyncReturn {
+  isHost: boolean;
+  playbackState: PlaybackState | null;
+  viewerCount: number;
+  broadcastState: (update: PlaybackStateUpdate) => Promise<void>;
+}
+
+// Elects one leader tab per session with a heartbeat-renewed lease. Followers
+// take over once the lease expires, and apply published state in version order.
+export function useSessionSync({
+  sessionId,
+  enabled = true,
+  onStateChange,
+}: UseSessionSyncOptions): UseSessionSyncReturn {
+  const [isHost, setIsHost] = useState(false);
+  const [playbackState, setPlaybackState] = useState<PlaybackState | null>(null);
+  const [viewerCount, setViewerCount] = useState(0);
+  const tokenRef = useRef<string | null>(null);
+  const stateRef = useRef<PlaybackState | null>(null);
+  const publishQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const onStateChangeRef = useRef(onStateChange);
+  const clientId = useRef(getClientId()).current;
+
+  useEffect(() => {
+    onStateChangeRef.current = onStateChange;
+  }, [onStateChange]);
+
+  // Follow the playback state row
+  useEffect(() => {
+    stateRef.current = null;
+    setPlaybackState(null);
+    if (!enabled) return;
+
+    let mounted = true;
+    const apply = (next: PlaybackState) => {
+      if (!mounted) return;
+      const previous = stateRef.current;
+      const merged = mergePlaybackState(previous, next);
+      if (merged === previous) return;
+
+      stateRef.current = merged;
+      setPlaybackState(merged);
+      if (!tokenRef.current && merged.version !== previous?.version) {
+        onStateChangeRef.current?.(merged);
+      }
+    };
+
+    fetchPlaybackState(sessionId).then((state) => {
+      if (state) apply(state);
+    });
+    const unsubscribe = subscribeToPlaybackState(sessionId, apply);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [sessionId, enabled]);
+
+  // Heartbeat while leading; try to take over once the leader's lease lapses
+  useEffect(() => {
+    tokenRef.current = null;
+    setIsHost(false);
+    if (!enabled) return;
+
+    let mounted = true;
+    let busy = false;
+
+    const tick = async () => {
+      if (busy) return;
+      const leading = tokenRef.current !== null;
+      if (!leading && stateRef.current && !isLeaseExpired(stateRef.current, serverNow())) return;
+
+      busy = true;
+      try {
+        const token = await claimLeadership(sessionId, clientId, tokenRef.current);
+        if (!mounted) {
+          if (token) void releaseLeadership(sessionId, token);
+          return;
+        }
+        tokenRef.current = token;
+        setIsHost(token !== null);
+      } finally {
+        busy = false;
+      }
+    };
+
+    // Hand over immediately when the tab closes instead of waiting for expiry
+    const release = () => {
+      if (tokenRef.current) {
+        void releaseLeadership(sessionId, tokenRef.current);
+        tokenRef.current = null;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, HEARTBEAT_MS);
+    window.addEventListener("pagehide", release);
+
+    return () => {
+      mounted = false;
+      clearInterval(interval);
+      window.removeEventListener("pagehide", release);
+      release();
+    };
+  }, [sessionId, enabled, clientId]);
+
+  // Presence-based viewer count
+  useEffect(() => {
+    setViewerCount(0);
+    if (!enabled) return;
+    return trackViewers(sessionId, clientId, setViewerCount);
+  }, [sessionId, enabled, clientId]);
+
+  // Publish in call order so versions match the order updates were made.
+  // A rejected publish means another tab has taken over.
+  const broadcastState = useCallback(
+    (update: PlaybackStateUpdate) => {
+      const next = publishQueueRef.current.then(async () => {
+        const token = tokenRef.current;
+        if (!token) return;
+
+        const version = await publishPlaybackState(sessionId, token, update);
+        if (version === null) {
+          if (tokenRef.current === token) {
+            tokenRef.current = null;
+            setIsHost(false);
+          }
+          return;
+        }
+
+        const current = stateRef.current;
+        if (current && version > current.version) {
+          const merged = { ...current, ...update, version };
+          stateRef.current = merged;
+          setPlaybackState(merged);
+        }
+      });
+      publishQueueRef.current = next;
+      return next;
+    },
+    [sessionId]
+  );
+
+  return { isHost, playbackState, viewerCount, broadcastState };
+}
@@ -0,0 +1,29 @@
+import { useState, useEffect } from "react";
+import {
+  DEFAULT_SHOW_CONFIG,
+  fetchShowConfig,
+  subscribeToShowConfig,
+  type ShowConfig,
+} from "@/lib/showConfig";
+
+// Live view of the show pacing; starts from the defaults until the row loads.
+export function useShowConfig(): ShowConfig {
+  const [config, setConfig] = useState<ShowConfig>(DEFAULT_SHOW_CONFIG);
+
+  useEffect(() => {
+    let mounted = true;
+    const apply = (next: ShowConfig) => {
+      if (mounted) setConfig(next);
+    };
+
+    fetchShowConfig().then(apply);
+    const unsubscribe = subscribeToShowConfig(apply);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return config;
+}
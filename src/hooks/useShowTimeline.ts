@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  fetchTimeline,
+  groupByExchange,
+  isRoastSegment,
+  segmentAt,
+  subscribeToDrafts,
+  subscribeToTimeline,
+  type ShowDraft,
+  type ShowSegment,
+} from "@/lib/showTimeline";
+import { serverNow } from "@/lib/serverClock";
+
+interface UseShowTimelineOptions {
+  sessionId: string;
+  enabled: boolean; // Only follow the timeline while the session is LIVE
+  muted: boolean;
+}
+
+interface UseShowTimelineReturn {
+  segments: ShowSegment[];
+  segment: ShowSegment | null; // Spoken segment on air; sound effects play without replacing it
+  roastCount: number; // Audience roasts published so far
+  roastNumber: number; // 1-based position of the roast on air, 0 between roasts
+  isFinished: boolean; // Outro published and aired
+  draft: ShowDraft | null; // Next exchange as it is written, while nothing is on air
+}
+
+const TICK_MS = 250;
+
+// Renders the show runner's timeline: every viewer derives the segment on air
+// from its absolute start time and plays its audio from the matching offset.
+export function useShowTimeline({ sessionId, enabled, muted }: UseShowTimelineOptions): UseShowTimelineReturn {
+  const [segments, setSegments] = useState<ShowSegment[]>([]);
+  const [onAir, setOnAir] = useState<ShowSegment | null>(null);
+  const [segment, setSegment] = useState<ShowSegment | null>(null);
+  const [now, setNow] = useState(() => serverNow());
+  const [draft, setDraft] = useState<ShowDraft | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const mutedRef = useRef(muted);
+
+  // Load and follow the published segments
+  useEffect(() => {
+    setSegments([]);
+    setOnAir(null);
+    setSegment(null);
+    if (!enabled) return;
+
+    let mounted = true;
+    const apply = (next: ShowSegment[]) => {
+      if (mounted) setSegments(next);
+    };
+
+    fetchTimeline(sessionId).then(apply);
+    const unsubscribe = subscribeToTimeline(sessionId, apply);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [sessionId, enabled]);
+
+  // Follow what the runner is writing
+  useEffect(() => {
+    setDraft(null);
+    if (!enabled) return;
+    return subscribeToDrafts(sessionId, setDraft);
+  }, [sessionId, enabled]);
+
+  // Find the segment on air
+  useEffect(() => {
+    if (!enabled) return;
+
+    const tick = () => {
+      const at = serverNow();
+      const next = segmentAt(segments, at);
+      setNow(at);
+      setOnAir((prev) => (prev?.id === next?.id ? prev : next));
+      // Keep the last line on screen while a sting plays
+      if (next?.kind !== "sfx") {
+        setSegment((prev) => (prev?.id === next?.id ? prev : next));
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [segments, enabled]);
+
+  // Play the segment's audio, joining mid-segment when the viewer arrives late
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.src = "";
+      audioRef.current = null;
+    }
+    if (!onAir?.audio_url) return;
+
+    const startsAt = new Date(onAir.starts_at).getTime();
+    const audio = new Audio(onAir.audio_url);
+    audio.muted = mutedRef.current;
+    audioRef.current = audio;
+
+    audio.onloadedmetadata = () => {
+      const offset = (serverNow() - startsAt) / 1000;
+      if (offset > 0 && offset < audio.duration) {
+        audio.currentTime = offset;
+      }
+      audio.play().catch(() => {});
+    };
+
+    return () => {
+      audio.pause();
+      audio.src = "";
+    };
+  }, [onAir]);
+
+  useEffect(() => {
+    mutedRef.current = muted;
+    if (audioRef.current) {
+      audioRef.current.muted = muted;
+    }
+  }, [muted]);
+
+  const roastSegments = segments.filter(isRoastSegment);
+  const roastNumber = segment?.exchange_id
+    ? roastSegments.findIndex((roast) => roast.exchange_id === segment.exchange_id) + 1
+    : 0;
+  const last = segments[segments.length - 1];
+  const isFinished = last?.kind === "outro" && new Date(last.ends_at).getTime() <= now;
+  // A draft is stale once its exchange has been published
+  const pendingDraft = !segment && draft && draft.sequence > groupByExchange(segments).length ? draft : null;
+
+  return {
+    segments,
+    segment,
+    roastCount: roastSegments.length,
+    roastNumber,
+    isFinished,
+    draft: pendingDraft,
+  };
+}
@@ -0,0 +1,200 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type HostSlot = "A" | "B";
+
+// SmallHost colours (any CSS colour, glow without alpha) and hand prop
+export interface HostAppearance {
+  skin: string;
+  shirt: string;
+  pants: string;
+  hair: string;
+  glow: string;
+  accessory: "microphone" | "glasses" | "none";
+}
+
+// A row of public.hosts
+export interface HostDefinition {
+  id: string | null; // null for the built-in fallback
+  slug: string;
+  name: string;
+  slot: HostSlot;
+  is_active: boolean;
+  system_prompt: string;
+  banter_persona: string;
+  model: string;
+  temperature: number;
+  voice_id: string;
+  voice_stability: number;
+  voice_style: number;
+  voice_speed: number;
+  idle_lines: string[];
+  appearance: HostAppearance;
+}
+
+// The active host of each seat
+export type HostCast = Record<HostSlot, HostDefinition>;
+
+// Used until the hosts table has loaded, or for a seat nobody holds. Keep in sync with the seeded hosts.
+export const DEFAULT_CAST: HostCast = {
+  A: {
+    id: null,
+    slug: "chaos-carl",
+    name: "Chaos Carl",
+    slot: "A",
+    is_active: true,
+    system_prompt: "",
+    banter_persona: "",
+    model: "google/gemini-2.5-flash",
+    temperature: 1.2,
+    voice_id: "IKne3meq5aSn9XLyUdCD",
+    voice_stability: 0.3,
+    voice_style: 0.7,
+    voice_speed: 1.1,
+    idle_lines: [
+      "Man, I could roast people all day!",
+      "Who's gonna step up next? Come on!",
+      "The flames are hungry!",
+      "This silence is killing me!",
+      "Hey, you still there? Don't leave us hanging!",
+      "I'm getting bored over here!",
+      "Where's all the action at?",
+    ],
+    appearance: {
+      skin: "hsl(16 70% 88%)",
+      shirt: "hsl(30 80% 50%)",
+      pants: "hsl(220 60% 30%)",
+      hair: "hsl(25 28% 22%)",
+      glow: "hsl(30 100% 50%)",
+      accessory: "microphone",
+    },
+  },
+  B: {
+    id: null,
+    slug: "roast-ronnie",
+    name: "Roast Ronnie",
+    slot: "B",
+    is_active: true,
+    system_prompt: "",
+    banter_persona: "",
+    model: "google/gemini-2.5-flash",
+    temperature: 1.2,
+    voice_id: "onwK4e9ZLuTAKqWW03F9",
+    voice_stability: 0.7,
+    voice_style: 0.3,
+    voice_speed: 0.95,
+    idle_lines: [
+      "Patience. The best roasts take time to marinate.",
+      "I'm analyzing the room... it's mostly empty.",
+      "Statistical probability of entertainment: increasing.",
+      "The calm before the storm, as they say.",
+      "I've calculated we have time for exactly one awkward silence.",
+      "Still waiting. My algorithms are ready.",
+      "Any moment now... or not.",
+    ],
+    appearance: {
+      skin: "hsl(28 35% 68%)",
+      shirt: "hsl(200 80% 40%)",
+      pants: "hsl(0 0% 20%)",
+      hair: "hsl(0 0% 10%)",
+      glow: "hsl(200 100% 50%)",
+      accessory: "glasses",
+    },
+  },
+};
+
+// Numeric columns arrive as strings; appearance may be partial
+function toHostDefinition(row: Record<string, unknown>): HostDefinition {
+  const host = row as unknown as HostDefinition;
+  const fallback = DEFAULT_CAST[host.slot];
+  return {
+    ...host,
+    temperature: Number(host.temperature),
+    voice_stability: Number(host.voice_stability),
+    voice_style: Number(host.voice_style),
+    voice_speed: Number(host.voice_speed),
+    idle_lines: host.idle_lines || [],
+    appearance: { ...fallback.appearance, ...(host.appearance || {}) },
+  };
+}
+
+// Every host, active or not, by seat then name
+export async function fetchHosts(): Promise<HostDefinition[]> {
+  const { data } = await supabase
+    .from("hosts")
+    .select("*")
+    .order("slot", { ascending: true })
+    .order("name", { ascending: true });
+
+  return (data || []).map(toHostDefinition);
+}
+
+export function castFromHosts(hosts: HostDefinition[]): HostCast {
+  const cast: HostCast = { ...DEFAULT_CAST };
+  for (const host of hosts) {
+    if (host.is_active) cast[host.slot] = host;
+  }
+  return cast;
+}
+
+// Every SmallHost and chatter hook reads the cast, so they share one channel
+let castCache: HostCast | null = null;
+const castListeners = new Set<(cast: HostCast) => void>();
+let castChannel: ReturnType<typeof supabase.channel> | null = null;
+
+function refreshCast() {
+  fetchHosts().then((hosts) => {
+    castCache = castFromHosts(hosts);
+    castListeners.forEach((listener) => listener(castCache!));
+  });
+}
+
+export function getCachedCast(): HostCast {
+  return castCache ?? DEFAULT_CAST;
+}
+
+// Follow the active cast. Returns an unsubscribe function.
+export function subscribeToCast(onChange: (cast: HostCast) => void): () => void {
+  castListeners.add(onChange);
+
+  if (!castChannel) {
+    castChannel = supabase
+      .channel("hosts")
+      .on("postgres_changes", { event: "*", schema: "public", table: "hosts" }, refreshCast)
+      .subscribe();
+    refreshCast();
+  } else if (castCache) {
+    onChange(castCache);
+  }
+
+  return () => {
+    castListeners.delete(onChange);
+    if (castListeners.size === 0 && castChannel) {
+      supabase.removeChannel(castChannel);
+      castChannel = null;
+    }
+  };
+}
+
+export type HostDraft = Omit<HostDefinition, "id" | "is_active">;
+
+// Producer edits. New hosts start inactive; activateHost puts one in its seat.
+export async function saveHost(id: string | null, draft: HostDraft): Promise<HostDefinition> {
+  const query = id
+    ? supabase.from("hosts").update(draft).eq("id", id)
+    : supabase.from("hosts").insert(draft);
+  const { data, error } = await query.select("*").single();
+
+  if (error) throw error;
+  return toHostDefinition(data);
+}
+
+export async function activateHost(id: string): Promise<void> {
+  const { error } = await supabase.rpc("activate_host", { p_host_id: id });
+  if (error) throw error;
+}
+
+// "Chaos Carl" -> "Carl", for tight labels and on-air first-name address
+export function shortHostName(host: HostDefinition): string {
+  const words = host.name.trim().split(/\s+/);
+  return words[words.length - 1];
+}
@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fetchShowConfig } from "@/lib/showConfig";
+import { serverNow } from "@/lib/serverClock";
+
+// A QUEUED session in the upcoming lineup
+export interface LineupSession {
+  id: string;
+  persona_id: string | null;
+  persona_name: string;
+  persona_avatar: string | null;
+  status: string;
+  start_time: string;
+  lock_time: string | null;
+  created_at: string;
+  lineup_position: number | null;
+  is_special: boolean;
+  episode_title: string | null;
+}
+
+// Upcoming sessions in the order session-manager will air them
+export async function fetchLineup(limit = 10): Promise<LineupSession[]> {
+  const { data } = await supabase
+    .from("roast_sessions")
+    .select("*")
+    .eq("status", "QUEUED")
+    .order("lineup_position", { ascending: true, nullsFirst: false })
+    .order("start_time", { ascending: true })
+    .limit(limit);
+
+  return (data || []) as LineupSession[];
+}
+
+// First session in lineup order whose start time has come by `at`.
+// Same rule session-manager uses when it reveals the next KOL.
+export function nextDueSession(lineup: LineupSession[], at: Date): LineupSession | null {
+  return lineup.find((session) => new Date(session.start_time) <= at) ?? null;
+}
+
+// The session that will air after `sessionId`'s intermission: the one its outro pinned
+// while that is still queued, else the first due session. Same rule as session-manager.
+export async function fetchNextUp(sessionId: string): Promise<LineupSession | null> {
+  const [lineup, config, pin] = await Promise.all([
+    fetchLineup(50),
+    fetchShowConfig(),
+    supabase.from("roast_sessions").select("next_session_id").eq("id", sessionId).maybeSingle(),
+  ]);
+  const pinned = lineup.find((session) => session.id === pin.data?.next_session_id);
+  const revealAt = new Date(serverNow() + (config.cooldown_seconds + config.up_next_seconds) * 1000);
+  return pinned ?? nextDueSession(lineup, revealAt);
+}
+
+export interface ScheduleRequest {
+  personaId: string;
+  startTime: Date | null; // Null airs as soon as the lineup reaches it
+  isSpecial: boolean;
+  episodeTitle: string | null;
+}
+
+// Append a session to the end of the lineup. Requires the producer role.
+export async function scheduleSession({ personaId, startTime, isSpecial, episodeTitle }: ScheduleRequest): Promise<string> {
+  const { data, error } = await supabase.rpc("schedule_session", {
+    p_persona_id: personaId,
+    p_start_time: (startTime ?? new Date(serverNow())).toISOString(),
+    p_is_special: isSpecial,
+    p_episode_title: episodeTitle,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+// Persist the air order of the lineup. Sessions left out keep their relative order
+// after the listed ones. Requires the producer role.
+export async function reorderLineup(sessionIds: string[]): Promise<void> {
+  const { error } = await supabase.rpc("reorder_lineup", { p_session_ids: sessionIds });
+  if (error) throw error;
+}
+
+// Refetch on any session change. Returns an unsubscribe function.
+export function subscribeToLineup(onChange: (lineup: LineupSession[]) => void, limit = 10): () => void {
+  const channel = supabase
+    .channel("producer-lineup")
+    .on("postgres_changes", { event: "*", schema: "public", table: "roast_sessions" }, () => {
+      fetchLineup(limit).then(onChange);
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
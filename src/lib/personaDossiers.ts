@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PersonaSummary {
+  id: string;
+  username: string;
+  profile_pic_url: string | null;
+}
+
+// A row of public.persona_dossiers. Only producers can read or write them.
+export interface PersonaDossier {
+  persona_id: string;
+  bio: string | null;
+  notable_calls: string[];
+  catchphrases: string[];
+  controversies: string[];
+  do_not_mention: string[];
+  updated_at: string | null;
+}
+
+export function emptyDossier(personaId: string): PersonaDossier {
+  return {
+    persona_id: personaId,
+    bio: null,
+    notable_calls: [],
+    catchphrases: [],
+    controversies: [],
+    do_not_mention: [],
+    updated_at: null,
+  };
+}
+
+export async function fetchPersonas(): Promise<PersonaSummary[]> {
+  const { data } = await supabase
+    .from("personas")
+    .select("id, username, profile_pic_url")
+    .order("username", { ascending: true });
+
+  return (data || []) as PersonaSummary[];
+}
+
+// The persona's dossier, or an empty one when nothing is on file yet
+export async function fetchDossier(personaId: string): Promise<PersonaDossier> {
+  const { data, error } = await supabase
+    .from("persona_dossiers")
+    .select("persona_id, bio, notable_calls, catchphrases, controversies, do_not_mention, updated_at")
+    .eq("persona_id", personaId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as PersonaDossier | null) ?? emptyDossier(personaId);
+}
+
+export async function saveDossier(dossier: PersonaDossier): Promise<PersonaDossier> {
+  const { persona_id, bio, notable_calls, catchphrases, controversies, do_not_mention } = dossier;
+  const { data, error } = await supabase
+    .from("persona_dossiers")
+    .upsert({ persona_id, bio, notable_calls, catchphrases, controversies, do_not_mention })
+    .select("persona_id, bio, notable_calls, catchphrases, controversies, do_not_mention, updated_at")
+    .single();
+
+  if (error) throw error;
+  return data as PersonaDossier;
+}
@@ -0,0 +1,37 @@
+import { getSubmitterId } from "@/lib/submissions";
+
+// Audience votes for the audience_voted persona strategy go through the vote-persona
+// edge function: one vote per browser until the next persona is scheduled, capped per
+// network address. Direct inserts are blocked by RLS.
+
+export type VoteErrorCode = "invalid_request" | "persona_not_found" | "already_voted" | "ip_quota";
+
+export interface VoteRejected {
+  code: VoteErrorCode | "network";
+  message: string;
+}
+
+// Null once the vote is counted
+export async function votePersona(personaId: string): Promise<VoteRejected | null> {
+  try {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/vote-persona`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      },
+      // The submitter id doubles as the voter id: stable per browser, across tabs and reloads
+      body: JSON.stringify({ personaId, voterId: getSubmitterId() }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { code: data.code ?? "network", message: data.error ?? "Please try again." };
+    }
+    return null;
+  } catch (error) {
+    console.error("[personaVotes] Vote failed:", error);
+    return { code: "network", message: "Please try again." };
+  }
+}
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ModerationStatus = "pending" | "approved" | "rejected" | "flagged";
+
+// A roast_messages row as producers see it (every moderation status)
+export interface QueueMessage {
+  id: string;
+  session_id: string;
+  transcript: string | null;
+  original_transcript: string | null;
+  audio_url: string | null;
+  audio_duration_ms: number | null;
+  used: boolean;
+  moderation_status: ModerationStatus;
+  moderation_reason: string | null;
+  queue_position: number | null;
+  created_at: string;
+}
+
+// Air order used by the show runner: curated positions first, then arrival order
+export function compareQueueOrder(a: QueueMessage, b: QueueMessage): number {
+  if (a.queue_position !== b.queue_position) {
+    if (a.queue_position === null) return 1;
+    if (b.queue_position === null) return -1;
+    return a.queue_position - b.queue_position;
+  }
+  return a.created_at.localeCompare(b.created_at);
+}
+
+// Every message of a session, in air order. Requires the producer role.
+export async function fetchSessionQueue(sessionId: string): Promise<QueueMessage[]> {
+  const { data } = await supabase
+    .from("roast_messages")
+    .select(
+      "id, session_id, transcript, original_transcript, audio_url, audio_duration_ms, used, moderation_status, moderation_reason, queue_position, created_at"
+    )
+    .eq("session_id", sessionId);
+
+  return ((data || []) as QueueMessage[]).sort(compareQueueOrder);
+}
+
+// Refetch on any message change in the session. Returns an unsubscribe function.
+export function subscribeToSessionQueue(
+  sessionId: string,
+  onChange: (messages: QueueMessage[]) => void
+): () => void {
+  const channel = supabase
+    .channel(`producer-queue-${sessionId}`)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "roast_messages", filter: `session_id=eq.${sessionId}` },
+      () => {
+        fetchSessionQueue(sessionId).then(onChange);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export async function reviewMessage(messageId: string, status: "approved" | "rejected"): Promise<void> {
+  const { error } = await supabase.rpc("review_roast_message", {
+    p_message_id: messageId,
+    p_status: status,
+  });
+  if (error) throw error;
+}
+
+export async function editTranscript(messageId: string, transcript: string): Promise<void> {
+  const { error } = await supabase.rpc("edit_roast_transcript", {
+    p_message_id: messageId,
+    p_transcript: transcript,
+  });
+  if (error) throw error;
+}
+
+// Persist the air order of a session's unaired messages
+export async function reorderQueue(sessionId: string, messageIds: string[]): Promise<void> {
+  const { error } = await supabase.rpc("reorder_roast_queue", {
+    p_session_id: sessionId,
+    p_message_ids: messageIds,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Round phases, in show order. The server (session-manager / complete-live-round)
+// is the only writer; transitions are validated by public.is_valid_round_transition.
+export const ROUND_STATES = ["WAITING", "UP_NEXT", "SUBMITTING", "LOCKED", "LIVE", "COOLDOWN"] as const;
+
+export type RoundState = (typeof ROUND_STATES)[number];
+
+export interface GlobalRoundStateRow {
+  id: string;
+  session_id: string | null;
+  round_state: RoundState;
+  current_roast_index: number;
+  total_roasts: number;
+  live_start_time: string | null;
+  submit_end_time: string | null;
+  phase_ends_at: string | null;
+  updated_at: string;
+}
+
+export function isRoundState(value: unknown): value is RoundState {
+  return typeof value === "string" && (ROUND_STATES as readonly string[]).includes(value);
+}
+
+// Phase a session with the given status maps to
+export function roundStateForSessionStatus(status: string): RoundState {
+  switch (status) {
+    case "QUEUED":
+      return "UP_NEXT";
+    case "OPEN":
+      return "SUBMITTING";
+    case "LOCKED":
+      return "LOCKED";
+    case "LIVE":
+      return "LIVE";
+    default:
+      return "WAITING";
+  }
+}
+
+// Read the current global round state. If the server has not written one yet,
+// derive a local, unsaved view from the active session instead.
+export async function fetchRoundState(): Promise<GlobalRoundStateRow> {
+  const { data } = await supabase
+    .from("global_round_state")
+    .select("*")
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (data && isRoundState(data.round_state)) {
+    return data as GlobalRoundStateRow;
+  }
+
+  return deriveRoundStateFromSession();
+}
+
+async function deriveRoundStateFromSession(): Promise<GlobalRoundStateRow> {
+  const { data: session } = await supabase
+    .from("roast_sessions")
+    .select("id, status, lock_time")
+    .in("status", ["OPEN", "LOCKED", "LIVE"])
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return {
+    id: "",
+    session_id: session?.id ?? null,
+    round_state: session ? roundStateForSessionStatus(session.status) : "WAITING",
+    current_roast_index: 0,
+    total_roasts: 0,
+    live_start_time: null,
+    submit_end_time: session?.lock_time ?? null,
+    phase_ends_at: null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// Subscribe to round state changes. Session changes trigger a refetch so the
+// derived fallback stays current. Returns an unsubscribe function.
+export function subscribeToRoundState(onChange: (state: GlobalRoundStateRow) => void): () => void {
+  const refetch = () => {
+    fetchRoundState().then(onChange);
+  };
+
+  const channel = supabase
+    .channel("round-state")
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "global_round_state" },
+      (payload) => {
+        const next = payload.new as Partial<GlobalRoundStateRow> | undefined;
+        if (next && isRoundState(next.round_state)) {
+          onChange(next as GlobalRoundStateRow);
+        } else {
+          refetch();
+        }
+      }
+    )
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "roast_sessions" },
+      refetch
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,70 @@
+// Offset between this device's clock and the server clock, estimated NTP-style:
+// each sample assumes the server stamped its time halfway through the round trip,
+// and the median of several samples discards the ones skewed by a slow leg.
+
+const SAMPLE_COUNT = 5;
+const RESYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+let offsetMs = 0;
+let lastSyncedAt = 0;
+let syncing: Promise<void> | null = null;
+
+async function sampleOffset(): Promise<number | null> {
+  const sentAt = Date.now();
+  try {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/server-time`, {
+      headers: {
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      },
+      cache: "no-store",
+    });
+    if (!response.ok) return null;
+
+    const { now } = await response.json();
+    const receivedAt = Date.now();
+    return typeof now === "number" ? now - (sentAt + receivedAt) / 2 : null;
+  } catch {
+    return null;
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Re-estimate the offset. Keeps the previous estimate if every sample fails.
+export function syncServerClock(): Promise<void> {
+  if (syncing) return syncing;
+
+  syncing = (async () => {
+    const samples: number[] = [];
+    // Sequential, so samples don't queue behind each other
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+      const sample = await sampleOffset();
+      if (sample !== null) samples.push(sample);
+    }
+
+    if (samples.length > 0) offsetMs = median(samples);
+    lastSyncedAt = Date.now();
+    syncing = null;
+  })();
+
+  return syncing;
+}
+
+// Current server time in Unix ms. Use this for every countdown and seek.
+// Starts a background resync when the estimate is missing or stale.
+export function serverNow(): number {
+  if (!syncing && Date.now() - lastSyncedAt > RESYNC_INTERVAL_MS) {
+    void syncServerClock();
+  }
+  return Date.now() + offsetMs;
+}
+
+// Estimated server clock minus local clock, in ms
+export function serverClockOffset(): number {
+  return offsetMs;
+}
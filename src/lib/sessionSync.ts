@@ -0,0 +1,170 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Row of public.session_playback_state. Only the leader tab writes it, through
+// public.publish_playback_state; every other tab follows.
+export interface PlaybackState {
+  session_id: string;
+  host_id: string; // Client id of the leader tab
+  current_index: number;
+  phase: string;
+  current_speaker: string | null;
+  current_text: string | null;
+  current_audio_url: string | null;
+  current_line: string | null; // Chatter line key, see resolveChatterLine
+  audio_started_at: string | null;
+  host_turn: string | null;
+  roast_number: number | null;
+  is_playing: boolean | null;
+  lease_expires_at: string | null;
+  version: number;
+  updated_at: string;
+}
+
+// Fields the leader may publish
+export type PlaybackStateUpdate = Partial<
+  Pick<
+    PlaybackState,
+    | "current_index"
+    | "phase"
+    | "current_line"
+    | "audio_started_at"
+    | "host_turn"
+    | "roast_number"
+    | "is_playing"
+  >
+>;
+
+export const LEASE_SECONDS = 10;
+export const HEARTBEAT_MS = 3000;
+
+const CLIENT_ID_KEY = "roast-studio-client-id";
+
+// Stable per tab (sessionStorage), so a reloaded leader can renew its own lease
+export function getClientId(): string {
+  let id = sessionStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+}
+
+// Renew the lease held with `token`, or take over an expired one.
+// Resolves to the lease token while this tab leads, null otherwise.
+export async function claimLeadership(
+  sessionId: string,
+  clientId: string,
+  token: string | null
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("claim_playback_lease", {
+    p_session_id: sessionId,
+    p_client_id: clientId,
+    p_token: token,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) {
+    console.error("[sessionSync] Claim failed:", error);
+    return null;
+  }
+  return (data as string | null) ?? null;
+}
+
+export async function releaseLeadership(sessionId: string, token: string): Promise<void> {
+  await supabase.rpc("release_playback_lease", {
+    p_session_id: sessionId,
+    p_token: token,
+  });
+}
+
+// Resolves to the new state version, or null when the token no longer leads
+export async function publishPlaybackState(
+  sessionId: string,
+  token: string,
+  update: PlaybackStateUpdate
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc("publish_playback_state", {
+    p_session_id: sessionId,
+    p_token: token,
+    p_state: update,
+  });
+
+  if (error) {
+    console.error("[sessionSync] Publish failed:", error);
+    return null;
+  }
+  return (data as number | null) ?? null;
+}
+
+export async function fetchPlaybackState(sessionId: string): Promise<PlaybackState | null> {
+  const { data } = await supabase
+    .from("session_playback_state")
+    .select("*")
+    .eq("session_id", sessionId)
+    .maybeSingle();
+
+  return (data as PlaybackState | null) ?? null;
+}
+
+// Order updates by version. Lease heartbeats keep the version and only move
+// the lease; anything older than what we have is a stale delivery.
+export function mergePlaybackState(current: PlaybackState | null, next: PlaybackState): PlaybackState {
+  if (!current || next.version > current.version) return next;
+  if (next.version === current.version) {
+    return { ...current, host_id: next.host_id, lease_expires_at: next.lease_expires_at };
+  }
+  return current;
+}
+
+// Whether nobody holds a live lease at `at` (server time, ms)
+export function isLeaseExpired(state: PlaybackState | null, at: number): boolean {
+  return !state?.lease_expires_at || new Date(state.lease_expires_at).getTime() <= at;
+}
+
+// Subscribe to playback state rows for a session. Returns an unsubscribe function.
+export function subscribeToPlaybackState(
+  sessionId: string,
+  onChange: (state: PlaybackState) => void
+): () => void {
+  const channel = supabase
+    .channel(`playback-${sessionId}`)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "session_playback_state", filter: `session_id=eq.${sessionId}` },
+      (payload) => {
+        const next = payload.new as PlaybackState | undefined;
+        if (next?.session_id) onChange(next);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Count the tabs watching a session through realtime presence.
+// Returns an unsubscribe function.
+export function trackViewers(
+  sessionId: string,
+  clientId: string,
+  onCount: (count: number) => void
+): () => void {
+  const channel = supabase.channel(`viewers-${sessionId}`, {
+    config: { presence: { key: clientId } },
+  });
+
+  channel
+    .on("presence", { event: "sync" }, () => {
+      onCount(Object.keys(channel.presenceState()).length);
+    })
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        channel.track({ joined_at: new Date().toISOString() });
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { SpeechTiming } from "@/lib/speechTiming";
+
+export type SegmentKind = "voice_clip" | "announcer" | "host_reaction" | "sfx" | "no_roasts" | "outro";
+export type TimelineSpeaker = "user" | "hostA" | "hostB";
+
+// One row of public.show_segments, published by the show-runner edge function
+export interface ShowSegment {
+  id: string;
+  session_id: string;
+  exchange_id: string | null;
+  position: number;
+  kind: SegmentKind;
+  speaker: TimelineSpeaker | null; // NULL for sound effects
+  text: string | null;
+  audio_url: string | null;
+  duration_ms: number;
+  timing: SpeechTiming | null; // When each character is spoken; NULL for clips and effects
+  starts_at: string;
+  ends_at: string;
+}
+
+// Audience segments open a roast exchange
+export function isRoastSegment(segment: ShowSegment): boolean {
+  return segment.kind === "voice_clip" || segment.kind === "announcer";
+}
+
+// The segment on air at `at` (Unix ms), or null during gaps and before/after the show
+export function segmentAt(segments: ShowSegment[], at: number): ShowSegment | null {
+  return segments.find(
+    (segment) => new Date(segment.starts_at).getTime() <= at && at < new Date(segment.ends_at).getTime()
+  ) ?? null;
+}
+
+// Segments grouped by exchange, in air order
+export function groupByExchange(segments: ShowSegment[]): ShowSegment[][] {
+  const groups: ShowSegment[][] = [];
+  for (const segment of segments) {
+    const current = groups[groups.length - 1];
+    if (current && current[0].exchange_id === segment.exchange_id) {
+      current.push(segment);
+    } else {
+      groups.push([segment]);
+    }
+  }
+  return groups;
+}
+
+// Published segments for a session, in air order
+export async function fetchTimeline(sessionId: string): Promise<ShowSegment[]> {
+  const { data } = await supabase
+    .from("show_segments")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("position", { ascending: true });
+
+  return (data || []) as ShowSegment[];
+}
+
+// Refetch the timeline whenever the runner publishes. Returns an unsubscribe function.
+export function subscribeToTimeline(sessionId: string, onChange: (segments: ShowSegment[]) => void): () => void {
+  const channel = supabase
+    .channel(`timeline-${sessionId}`)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "show_segments", filter: `session_id=eq.${sessionId}` },
+      () => {
+        fetchTimeline(sessionId).then(onChange);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// The script show-runner is writing for exchange `sequence`, before it is voiced and
+// published. The last line may still be cut off.
+export interface ShowDraft {
+  sequence: number;
+  lines: { speaker: "A" | "B"; text: string }[];
+}
+
+// Follow the drafts show-runner broadcasts while it writes. Returns an unsubscribe function.
+export function subscribeToDrafts(sessionId: string, onDraft: (draft: ShowDraft) => void): () => void {
+  const channel = supabase
+    .channel(`show-draft-${sessionId}`)
+    .on("broadcast", { event: "draft" }, ({ payload }) => onDraft(payload as ShowDraft))
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,162 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Host speech for the waiting room and studio, played while it is still being
+// synthesized: `text-to-speech` streams MP3 frames and a MediaSource feeds them to the
+// <audio> element as they arrive. Lines voiced before are redirected to their clip in the
+// shared TTS cache, so they download from the storage CDN.
+
+export type SpeechVoice = "A" | "B" | "announcer";
+
+// Recent time-to-first-audio measurements, request to `playing`, in ms
+const MAX_SAMPLES = 50;
+const firstAudioSamples: number[] = [];
+
+// When each speech URL was requested, until its first playback is tracked
+const MAX_PENDING = 20;
+const requestedAt = new Map<string, number>();
+
+// `text-to-speech` answers with the MP3 itself for audio/mpeg, or JSON with the
+// cached clip's URL for application/json
+function requestSpeech(text: string, voice: SpeechVoice, accept: "audio/mpeg" | "application/json"): Promise<Response> {
+  return fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/text-to-speech`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: accept,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ text, hostType: voice }),
+  });
+}
+
+function canStream(): boolean {
+  return typeof MediaSource !== "undefined" && MediaSource.isTypeSupported("audio/mpeg");
+}
+
+function appendChunk(sourceBuffer: SourceBuffer, chunk: Uint8Array): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      sourceBuffer.removeEventListener("updateend", done);
+      sourceBuffer.removeEventListener("error", failed);
+      resolve();
+    };
+    const failed = () => {
+      sourceBuffer.removeEventListener("updateend", done);
+      sourceBuffer.removeEventListener("error", failed);
+      reject(new Error("Could not buffer speech"));
+    };
+    sourceBuffer.addEventListener("updateend", done);
+    sourceBuffer.addEventListener("error", failed);
+    sourceBuffer.appendBuffer(chunk);
+  });
+}
+
+// The request starts once an <audio> element attaches the URL. A failed stream ends
+// with a network error, so the element's onerror fires.
+function streamingUrl(text: string, voice: SpeechVoice): string {
+  const mediaSource = new MediaSource();
+  const url = URL.createObjectURL(mediaSource);
+
+  mediaSource.addEventListener(
+    "sourceopen",
+    async () => {
+      URL.revokeObjectURL(url);
+      try {
+        const sourceBuffer = mediaSource.addSourceBuffer("audio/mpeg");
+        const response = await requestSpeech(text, voice, "audio/mpeg");
+        if (!response.ok || !response.body) {
+          throw new Error(`TTS stream failed: ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (mediaSource.readyState !== "open") {
+            reader.cancel();
+            return;
+          }
+          await appendChunk(sourceBuffer, value);
+        }
+        if (mediaSource.readyState === "open") mediaSource.endOfStream();
+      } catch (error) {
+        console.error("Speech stream error:", error);
+        if (mediaSource.readyState === "open") mediaSource.endOfStream("network");
+      }
+    },
+    { once: true }
+  );
+
+  return url;
+}
+
+// The cached clip's URL, for browsers whose MediaSource cannot play MP3
+async function wholeClipUrl(text: string, voice: SpeechVoice): Promise<string | null> {
+  const response = await requestSpeech(text, voice, "application/json");
+  if (!response.ok) {
+    console.error("Failed to generate TTS:", response.status);
+    return null;
+  }
+  const data = await response.json();
+  return typeof data.url === "string" ? data.url : null;
+}
+
+// A URL that plays `text` in the given voice. Null if synthesis failed up front.
+export async function speechUrl(text: string, voice: SpeechVoice): Promise<string | null> {
+  const startedAt = performance.now();
+  try {
+    const url = canStream() ? streamingUrl(text, voice) : await wholeClipUrl(text, voice);
+    if (url) {
+      requestedAt.set(url, startedAt);
+      if (requestedAt.size > MAX_PENDING) requestedAt.delete(requestedAt.keys().next().value!);
+    }
+    return url;
+  } catch (error) {
+    console.error("Error generating TTS:", error);
+    return null;
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Measure time to first audio for an element playing a speechUrl: from the request
+// until the element actually starts playing
+export function trackFirstAudio(audio: HTMLAudioElement) {
+  const startedAt = requestedAt.get(audio.src);
+  if (startedAt === undefined) return;
+  requestedAt.delete(audio.src);
+
+  audio.addEventListener(
+    "playing",
+    () => {
+      const elapsed = Math.round(performance.now() - startedAt);
+      firstAudioSamples.push(elapsed);
+      if (firstAudioSamples.length > MAX_SAMPLES) firstAudioSamples.shift();
+      console.info(
+        `[speech] first audio after ${elapsed}ms (median ${median(firstAudioSamples)}ms over ${firstAudioSamples.length} lines)`
+      );
+    },
+    { once: true }
+  );
+}
+
+export interface PrewarmResult {
+  lines: number;
+  synthesized: number;
+  cached: number;
+  failed: number;
+  finished: boolean;
+}
+
+// Voice every static waiting-room line into the TTS cache now rather than on first use.
+// Producers only.
+export async function prewarmSpeechCache(): Promise<PrewarmResult> {
+  const { data, error } = await supabase.functions.invoke("prewarm-tts", { body: { source: "console" } });
+  if (error) throw error;
+  return data as PrewarmResult;
+}
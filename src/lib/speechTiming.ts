@@ -0,0 +1,63 @@
+// Character timing of a voiced line, from ElevenLabs' with-timestamps endpoint:
+// when each character is spoken, in ms from the start of the line's audio.
+// Stored in show_segments.timing and on each of roast_exchanges.host_lines.
+export interface SpeechTiming {
+  characters: string[];
+  start_ms: number[];
+  end_ms: number[];
+}
+
+export interface TimedWord {
+  text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+// The line's words, split on whitespace, with when each is spoken
+export function timedWords(timing: SpeechTiming): TimedWord[] {
+  const words: TimedWord[] = [];
+  let current: TimedWord | null = null;
+
+  timing.characters.forEach((character, index) => {
+    if (/\s/.test(character)) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { text: "", start_ms: timing.start_ms[index], end_ms: timing.end_ms[index] };
+      words.push(current);
+    }
+    current.text += character;
+    current.end_ms = timing.end_ms[index];
+  });
+
+  return words;
+}
+
+// Index of the character being spoken at `ms`, or -1 before, after and between characters
+function characterAt(timing: SpeechTiming, ms: number): number {
+  let low = 0;
+  let high = timing.start_ms.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (ms < timing.start_ms[middle]) high = middle - 1;
+    else if (ms >= timing.end_ms[middle]) low = middle + 1;
+    else return middle;
+  }
+  return -1;
+}
+
+// How far open (0-1) a speaker's mouth is `ms` into the line: wide on vowels, nearly
+// shut on lip sounds, half open on other letters and closed between words. Each
+// character opens and closes the mouth once, so syllables read on screen.
+export function mouthOpenness(timing: SpeechTiming, ms: number): number {
+  const index = characterAt(timing, ms);
+  if (index < 0) return 0;
+
+  const character = timing.characters[index].toLowerCase();
+  const shape = /[aeiouy]/.test(character) ? 1 : /[mbp]/.test(character) ? 0.1 : /\p{L}/u.test(character) ? 0.5 : 0;
+  const span = Math.max(timing.end_ms[index] - timing.start_ms[index], 1);
+  const progress = (ms - timing.start_ms[index]) / span;
+
+  return shape * (0.6 + 0.4 * Math.sin(Math.PI * progress));
+}
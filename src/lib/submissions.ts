@@ -0,0 +1,117 @@
+// Roast submissions go through the submit-roast edge function, which checks the
+// session and enforces per-client and per-IP quotas. Direct inserts are blocked by RLS.
+
+export type SubmitErrorCode =
+  | "invalid_request"
+  | "session_not_found"
+  | "session_closed"
+  | "client_quota"
+  | "ip_quota"
+  | "round_full"
+  | "moderation_rejected";
+
+export type ModerationStatus = "pending" | "approved" | "rejected" | "flagged";
+
+export interface SubmitRoastInput {
+  sessionId: string;
+  transcript?: string | null; // Typed roasts only; voice clips are transcribed by the server
+  audio?: Blob | null; // Recorded clip, uploaded to the submission-audio bucket
+  audioDurationMs?: number | null;
+}
+
+export interface SubmitRoastAccepted {
+  messageId: string;
+  moderationStatus: ModerationStatus; // Only approved roasts reach the queue
+  remaining: number; // Roasts this client has left in the round
+  limit: number;
+}
+
+export interface SubmitRoastRejected {
+  code: SubmitErrorCode | "network";
+  message: string;
+  remaining?: number; // Set when the rejected roast still used up quota
+  limit?: number;
+}
+
+export type SubmitRoastResult = SubmitRoastAccepted | SubmitRoastRejected;
+
+export function isRejected(result: SubmitRoastResult): result is SubmitRoastRejected {
+  return "code" in result;
+}
+
+const SUBMITTER_ID_KEY = "roast-studio-submitter-id";
+
+// Stable per browser, so the per-client quota spans tabs and reloads
+export function getSubmitterId(): string {
+  let id = localStorage.getItem(SUBMITTER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(SUBMITTER_ID_KEY, id);
+  }
+  return id;
+}
+
+// Voice clips go up as multipart form data; text roasts as JSON
+function submitBody(input: SubmitRoastInput, clientId: string): FormData | string {
+  if (!input.audio) {
+    return JSON.stringify({ sessionId: input.sessionId, clientId, transcript: input.transcript });
+  }
+
+  const form = new FormData();
+  form.append("sessionId", input.sessionId);
+  form.append("clientId", clientId);
+  form.append("audio", input.audio, "roast");
+  if (input.audioDurationMs) form.append("audioDurationMs", String(input.audioDurationMs));
+  return form;
+}
+
+export async function submitRoast(input: SubmitRoastInput): Promise<SubmitRoastResult> {
+  try {
+    const body = submitBody(input, getSubmitterId());
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/submit-roast`, {
+      method: "POST",
+      headers: {
+        // The browser sets the multipart boundary itself
+        ...(typeof body === "string" ? { "Content-Type": "application/json" } : {}),
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+      },
+      body,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        code: data.code ?? "network",
+        message: data.error ?? "Please try again.",
+        remaining: data.remaining,
+        limit: data.limit,
+      };
+    }
+    return { messageId: data.messageId, moderationStatus: data.moderationStatus, remaining: data.remaining, limit: data.limit };
+  } catch (error) {
+    console.error("[submissions] Submit failed:", error);
+    return { code: "network", message: "Please try again." };
+  }
+}
+
+// Toast copy for a rejected submission
+export function submitErrorDescription(code: SubmitErrorCode | "network"): string {
+  switch (code) {
+    case "round_full":
+      return "This round is full. Catch the next KOL!";
+    case "session_closed":
+    case "session_not_found":
+      return "Submissions are closed for this session.";
+    case "client_quota":
+      return "You've used all your roasts for this round.";
+    case "ip_quota":
+      return "Too many roasts from your network this round.";
+    case "moderation_rejected":
+      return "That one can't go on air. Keep it a roast, not a threat or a dox.";
+    case "invalid_request":
+      return "That roast couldn't be accepted. Check its length and try again.";
+    default:
+      return "Please try again.";
+  }
+}
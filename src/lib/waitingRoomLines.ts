@@ -0,0 +1,82 @@
+import { shortHostName, type HostCast, type HostSlot } from "@/lib/hosts";
+
+// Fixed waiting-room scripts. Mirrored in supabase/functions/_shared/waiting-room-lines.ts,
+// which pre-warms the TTS cache with the exact same text: keep the two in sync.
+
+// A scripted waiting-room line
+export interface ScriptLine {
+  speaker: HostSlot;
+  text: string;
+}
+
+// Read as the submission window runs out, keyed by seconds remaining
+export const COUNTDOWN_ANNOUNCEMENTS: Record<number, ScriptLine> = {
+  30: { speaker: "A", text: "Thirty seconds! Get ready to roast!" },
+  10: { speaker: "B", text: "Ten seconds remaining." },
+  5: { speaker: "A", text: "Five! Four! Three! Two! One!" },
+  0: { speaker: "B", text: "Submissions are now closed. Let the roasting begin." },
+};
+
+// Chatter is published between tabs as a key, never as text: "idle:<seat>:<index>" into
+// that host's idle lines, or "countdown:<seconds>". Each tab resolves the key against its
+// own copy of the lines, so a tab can only make others voice a static line.
+export function idleLineKey(speaker: HostSlot, index: number): string {
+  return `idle:${speaker}:${index}`;
+}
+
+export function countdownLineKey(seconds: number): string {
+  return `countdown:${seconds}`;
+}
+
+// The line behind a published key, or null when this tab has no such line
+export function resolveChatterLine(key: string, hosts: HostCast): ScriptLine | null {
+  const idle = /^idle:([AB]):(\d+)$/.exec(key);
+  if (idle) {
+    const speaker = idle[1] as HostSlot;
+    const text = hosts[speaker].idle_lines[Number(idle[2])];
+    return text ? { speaker, text } : null;
+  }
+
+  const countdown = /^countdown:(\d+)$/.exec(key);
+  return countdown ? COUNTDOWN_ANNOUNCEMENTS[Number(countdown[1])] ?? null : null;
+}
+
+// Host A's last call before the window closes; one is picked at random
+export function countdownWarnings(personaName: string): string[] {
+  return [
+    `WHOA WHOA WHOA! Time's almost up folks! Get those last roasts in for ${personaName}! 5 seconds!`,
+    `TICK TOCK TICK TOCK! Last chance to roast ${personaName}! The clock is running out!`,
+    `HEY! If you haven't submitted your roast yet, DO IT NOW! ${personaName} is about to get it!`,
+  ];
+}
+
+// Openers for a session's waiting room; one sequence is picked at random
+export function introSequences(personaName: string, hosts: HostCast): ScriptLine[][] {
+  return [
+    [
+      { speaker: "A", text: `Welcome to the ROAST STUDIO! We're warming up for ${personaName}!` },
+      { speaker: "B", text: `Indeed. ${personaName} has no idea what's coming. Neither do we, actually.` },
+      { speaker: "A", text: `Drop your HOTTEST takes! Don't hold back!` },
+    ],
+    [
+      { speaker: "B", text: `Ladies and gentlemen, welcome to the show. Tonight's victim... I mean guest... ${personaName}.` },
+      { speaker: "A", text: `VICTIM is right ${shortHostName(hosts.B)}! The roast submissions are OPEN, let's GO!` },
+    ],
+    [
+      { speaker: "A", text: `YO YO YO! ${hosts.A.name} here with my boy ${hosts.B.name}! We're about to DESTROY ${personaName}!` },
+      { speaker: "B", text: `Destroy is a strong word ${shortHostName(hosts.A)}. I prefer... constructively criticize into oblivion.` },
+    ],
+    [
+      { speaker: "B", text: `Another day, another victim on the hot seat. ${personaName}, you're up.` },
+      { speaker: "A", text: `Send in your roasts people! The spicier the BETTER!` },
+    ],
+    [
+      { speaker: "A", text: `BREAKING NEWS! ${personaName} is about to get absolutely COOKED! Submit your roasts NOW!` },
+      { speaker: "B", text: `This is going to be good. Or bad. For ${personaName}, definitely bad.` },
+    ],
+    [
+      { speaker: "B", text: `Welcome back to Roast Studio. I'm ${hosts.B.name}, been doing this since the Reagan era.` },
+      { speaker: "A", text: `And I'm ${hosts.A.name}! Today we're roasting ${personaName}! SEND IT!` },
+    ],
+  ];
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect, type FormEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, LogOut } from "lucide-react";
+import { ProducerQueue } from "@/components/ProducerQueue";
+import { PersonaDossierEditor } from "@/components/PersonaDossierEditor";
+import { HostEditor } from "@/components/HostEditor";
+import { LineupEditor } from "@/components/LineupEditor";
+import { useProducerAuth } from "@/hooks/useProducerAuth";
+import { useRoundState } from "@/hooks/useRoundState";
+
+// Producer console. Viewers without the producer role only get the sign-in form.
+const Admin = () => {
+  const navigate = useNavigate();
+  const { session, isProducer, loading, signIn, signOut } = useProducerAuth();
+  const { roundState, currentRoundId } = useRoundState();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const [personaName, setPersonaName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentRoundId) {
+      setPersonaName(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      const { data } = await supabase
+        .from("roast_sessions")
+        .select("persona_name")
+        .eq("id", currentRoundId)
+        .maybeSingle();
+
+      if (!cancelled) setPersonaName(data?.persona_name ?? null);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentRoundId]);
+
+  const handleSignIn = async (event: FormEvent) => {
+    event.preventDefault();
+    setSigningIn(true);
+    setSignInError(await signIn(email, password));
+    setSigningIn(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <form onSubmit={handleSignIn} className="w-full max-w-sm space-y-4 p-6 rounded-lg border border-border bg-card">
+          <h1 className="text-xl font-pixel text-primary">PRODUCER SIGN IN</h1>
+          <Input type="email" placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          <Input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          {signInError && <p className="text-sm text-destructive">{signInError}</p>}
+          <Button type="submit" className="w-full" disabled={signingIn}>
+            {signingIn ? "Signing in..." : "Sign in"}
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
+  if (!isProducer) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <p className="text-muted-foreground">{session.user.email} is not a producer.</p>
+        <Button variant="outline" onClick={signOut}>Sign out</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between gap-4 px-6 py-4 border-b border-border">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-lg font-pixel text-primary">PRODUCER CONSOLE</h1>
+            <p className="text-xs text-muted-foreground uppercase tracking-widest">
+              {roundState}
+              {personaName && ` · ${personaName}`}
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={signOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out
+        </Button>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6">
+        <Tabs defaultValue="queue">
+          <TabsList className="mb-4">
+            <TabsTrigger value="queue">Roast queue</TabsTrigger>
+            <TabsTrigger value="lineup">Lineup</TabsTrigger>
+            <TabsTrigger value="dossiers">Persona dossiers</TabsTrigger>
+            <TabsTrigger value="hosts">Hosts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="queue">
+            {currentRoundId ? (
+              <ProducerQueue sessionId={currentRoundId} />
+            ) : (
+              <p className="text-muted-foreground">No active session.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="lineup">
+            <LineupEditor />
+          </TabsContent>
+
+          <TabsContent value="dossiers">
+            <PersonaDossierEditor />
+          </TabsContent>
+
+          <TabsContent value="hosts">
+            <HostEditor />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,323 @@
+// Identify an audio file by its bytes rather than its declared type, and read how long
+// it plays from the container itself. Covers what MediaRecorder produces across browsers
+// (WebM, Ogg, MP4) plus MP3 and WAV.
+
+export type AudioContainer = "audio/webm" | "audio/ogg" | "audio/mp4" | "audio/mpeg" | "audio/wav";
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function uint32be(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function uint32le(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] << 24) >>> 0) + (bytes[offset + 2] << 16) + (bytes[offset + 1] << 8) + bytes[offset];
+}
+
+// Big-endian unsigned integer of any length up to 8 bytes (exact up to 2^53)
+function uintBe(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let index = 0; index < length; index++) value = value * 256 + bytes[offset + index];
+  return value;
+}
+
+export function sniffAudioContainer(bytes: Uint8Array): AudioContainer | null {
+  if (bytes.length < 12) return null;
+  if (uint32be(bytes, 0) === 0x1a45dfa3) return "audio/webm";
+  if (ascii(bytes, 0, 4) === "OggS") return "audio/ogg";
+  if (ascii(bytes, 4, 4) === "ftyp") return "audio/mp4";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WAVE") return "audio/wav";
+  if (ascii(bytes, 0, 3) === "ID3" || mp3Frame(bytes, 0)) return "audio/mpeg";
+  return null;
+}
+
+// Playing time in ms as the container records it, or null when it does not say
+export function audioDurationMs(bytes: Uint8Array, container: AudioContainer): number | null {
+  switch (container) {
+    case "audio/webm":
+      return webmDurationMs(bytes);
+    case "audio/ogg":
+      return oggDurationMs(bytes);
+    case "audio/mp4":
+      return mp4DurationMs(bytes);
+    case "audio/mpeg":
+      return mp3DurationMs(bytes);
+    case "audio/wav":
+      return wavDurationMs(bytes);
+  }
+}
+
+// --- WebM (EBML) ---
+
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+const EBML_CLUSTER_TIMECODE = 0xe7;
+const EBML_SIMPLE_BLOCK = 0xa3;
+const EBML_BLOCK = 0xa1;
+
+// Masters walked into rather than over. MediaRecorder writes the segment and its
+// clusters with unknown sizes, so they are never skipped by length.
+const EBML_WALKED = new Set([EBML_SEGMENT, EBML_INFO, EBML_CLUSTER, EBML_BLOCK_GROUP]);
+
+// An EBML variable-length integer. IDs keep their length marker, sizes do not.
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let index = 1; index < length; index++) value = value * 256 + bytes[offset + index];
+  return { value, length };
+}
+
+// The segment's declared duration, or else the timestamp of the last block:
+// Chrome's MediaRecorder never writes a duration
+function webmDurationMs(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let timecodeScale = 1_000_000; // ns per tick
+  let declared: number | null = null;
+  let clusterTime = 0;
+  let lastBlock = -1;
+
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = id && readVint(bytes, offset + id.length, false);
+    if (!id || !size) break;
+
+    const start = offset + id.length + size.length;
+    if (EBML_WALKED.has(id.value)) {
+      offset = start;
+      continue;
+    }
+    if (size.value === 2 ** (7 * size.length) - 1 || start + size.value > bytes.length) break;
+
+    switch (id.value) {
+      case EBML_TIMECODE_SCALE:
+        timecodeScale = uintBe(bytes, start, size.value);
+        break;
+      case EBML_DURATION:
+        declared = size.value === 4 ? view.getFloat32(start) : size.value === 8 ? view.getFloat64(start) : null;
+        break;
+      case EBML_CLUSTER_TIMECODE:
+        clusterTime = uintBe(bytes, start, size.value);
+        break;
+      case EBML_SIMPLE_BLOCK:
+      case EBML_BLOCK: {
+        const track = readVint(bytes, start, false);
+        if (track && track.length + 2 <= size.value) {
+          lastBlock = Math.max(lastBlock, clusterTime + view.getInt16(start + track.length));
+        }
+        break;
+      }
+    }
+    offset = start + size.value;
+  }
+
+  const ticks = declared !== null && declared > 0 ? declared : lastBlock >= 0 ? lastBlock : null;
+  return ticks === null ? null : (ticks * timecodeScale) / 1_000_000;
+}
+
+// --- Ogg (Opus or Vorbis) ---
+
+// Granule position of the last page, in samples, over the codec's sample rate
+function oggDurationMs(bytes: Uint8Array): number | null {
+  if (bytes.length < 28) return null;
+  const packet = 27 + bytes[26];
+
+  let sampleRate: number;
+  let preSkip = 0;
+  if (ascii(bytes, packet, 8) === "OpusHead") {
+    sampleRate = 48_000; // Opus granules always count 48 kHz samples
+    preSkip = bytes[packet + 10] | (bytes[packet + 11] << 8);
+  } else if (bytes[packet] === 1 && ascii(bytes, packet + 1, 6) === "vorbis") {
+    sampleRate = uint32le(bytes, packet + 12);
+  } else {
+    return null;
+  }
+  if (!sampleRate) return null;
+
+  for (let offset = bytes.length - 27; offset >= 0; offset--) {
+    if (bytes[offset] !== 0x4f || ascii(bytes, offset, 4) !== "OggS") continue;
+    const low = uint32le(bytes, offset + 6);
+    const high = uint32le(bytes, offset + 10);
+    // -1: no packet ends on this page
+    if (low === 0xffffffff && high === 0xffffffff) continue;
+    return (Math.max(0, high * 2 ** 32 + low - preSkip) * 1000) / sampleRate;
+  }
+  return null;
+}
+
+// --- MP4 (ISO BMFF) ---
+
+interface Box {
+  type: string;
+  start: number; // Payload
+  end: number;
+}
+
+function childBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = uint32be(bytes, offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = uintBe(bytes, offset + 8, 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, parent: Box, path: string[]): Box | null {
+  let box: Box | null = parent;
+  for (const type of path) {
+    box = childBoxes(bytes, box.start, box.end).find((child) => child.type === type) ?? null;
+    if (!box) return null;
+  }
+  return box;
+}
+
+// Timescale and duration of an mvhd, mdhd or mehd-like full box
+function headerTiming(bytes: Uint8Array, box: Box): { timescale: number; duration: number } {
+  return bytes[box.start] === 1
+    ? { timescale: uint32be(bytes, box.start + 20), duration: uintBe(bytes, box.start + 24, 8) }
+    : { timescale: uint32be(bytes, box.start + 12), duration: uint32be(bytes, box.start + 16) };
+}
+
+// The movie header's duration, or for fragmented files (Safari's MediaRecorder) the
+// fragment duration or the sum of every fragment's sample durations
+function mp4DurationMs(bytes: Uint8Array): number | null {
+  const file: Box = { type: "file", start: 0, end: bytes.length };
+  const moov = findBox(bytes, file, ["moov"]);
+  const mvhd = moov && findBox(bytes, moov, ["mvhd"]);
+  if (!moov || !mvhd) return null;
+
+  const movie = headerTiming(bytes, mvhd);
+  if (!movie.timescale) return null;
+  if (movie.duration > 0 && movie.duration !== 0xffffffff) return (movie.duration * 1000) / movie.timescale;
+
+  const mehd = findBox(bytes, moov, ["mvex", "mehd"]);
+  if (mehd) {
+    const duration = bytes[mehd.start] === 1 ? uintBe(bytes, mehd.start + 4, 8) : uint32be(bytes, mehd.start + 4);
+    if (duration > 0) return (duration * 1000) / movie.timescale;
+  }
+
+  const mdhd = findBox(bytes, moov, ["trak", "mdia", "mdhd"]);
+  const timescale = mdhd ? headerTiming(bytes, mdhd).timescale : movie.timescale;
+  const trex = findBox(bytes, moov, ["mvex", "trex"]);
+  const trackDefault = trex ? uint32be(bytes, trex.start + 12) : 0;
+
+  let total = 0;
+  for (const moof of childBoxes(bytes, 0, bytes.length).filter((box) => box.type === "moof")) {
+    const traf = findBox(bytes, moof, ["traf"]);
+    if (!traf) continue;
+
+    let sampleDuration = trackDefault;
+    const tfhd = findBox(bytes, traf, ["tfhd"]);
+    if (tfhd) {
+      const flags = uint32be(bytes, tfhd.start) & 0xffffff;
+      let field = tfhd.start + 8;
+      if (flags & 0x1) field += 8;
+      if (flags & 0x2) field += 4;
+      if (flags & 0x8) sampleDuration = uint32be(bytes, field);
+    }
+
+    for (const trun of childBoxes(bytes, traf.start, traf.end).filter((box) => box.type === "trun")) {
+      const flags = uint32be(bytes, trun.start) & 0xffffff;
+      const count = uint32be(bytes, trun.start + 4);
+      let field = trun.start + 8 + (flags & 0x1 ? 4 : 0) + (flags & 0x4 ? 4 : 0);
+      for (let sample = 0; sample < count && field <= trun.end; sample++) {
+        if (flags & 0x100) {
+          total += uint32be(bytes, field);
+          field += 4;
+        } else {
+          total += sampleDuration;
+        }
+        if (flags & 0x200) field += 4;
+        if (flags & 0x400) field += 4;
+        if (flags & 0x800) field += 4;
+      }
+    }
+  }
+  return total > 0 && timescale ? (total * 1000) / timescale : null;
+}
+
+// --- MP3 ---
+
+const MP3_KBPS_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_KBPS_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+// By the header's version bits: 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44_100, 48_000, 32_000],
+  2: [22_050, 24_000, 16_000],
+  0: [11_025, 12_000, 8_000],
+};
+
+// A Layer III frame header at `offset`: its length in bytes, samples and sample rate
+function mp3Frame(bytes: Uint8Array, offset: number): { length: number; samples: number; sampleRate: number } | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (bytes[offset + 1] >> 3) & 0x3;
+  const layer = (bytes[offset + 1] >> 1) & 0x3;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const rateIndex = (bytes[offset + 2] >> 2) & 0x3;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const kbps = (version === 3 ? MP3_KBPS_V1 : MP3_KBPS_V2)[bitrateIndex];
+  const sampleRate = MP3_SAMPLE_RATES[version][rateIndex];
+  const samples = version === 3 ? 1152 : 576;
+  const padding = (bytes[offset + 2] >> 1) & 0x1;
+  return { length: Math.floor((samples / 8) * kbps * 1000 / sampleRate) + padding, samples, sampleRate };
+}
+
+// Every frame's samples added up, after any ID3v2 tag
+function mp3DurationMs(bytes: Uint8Array): number | null {
+  let offset = 0;
+  if (ascii(bytes, 0, 3) === "ID3" && bytes.length >= 10) {
+    const tagSize = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    offset = 10 + tagSize + (bytes[5] & 0x10 ? 10 : 0);
+  }
+
+  let ms = 0;
+  let frames = 0;
+  for (let frame = mp3Frame(bytes, offset); frame; frame = mp3Frame(bytes, offset)) {
+    ms += (frame.samples * 1000) / frame.sampleRate;
+    frames++;
+    offset += frame.length;
+  }
+  return frames ? ms : null;
+}
+
+// --- WAV ---
+
+// Bytes of sample data over the format's byte rate
+function wavDurationMs(bytes: Uint8Array): number | null {
+  let byteRate = 0;
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const id = ascii(bytes, offset, 4);
+    const size = uint32le(bytes, offset + 4);
+    if (id === "fmt " && offset + 16 <= bytes.length) byteRate = uint32le(bytes, offset + 16);
+    if (id === "data") {
+      return byteRate ? (Math.min(size, bytes.length - offset - 8) * 1000) / byteRate : null;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
@@ -0,0 +1,23 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+// The role of whoever called an edge function, as public.current_app_role() sees it.
+// Cron jobs send the service role key; producers send their session.
+export type AppRole = "viewer" | "producer" | "service";
+
+export async function fetchCallerRole(req: Request): Promise<AppRole> {
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+  // Without a token PostgREST would run with no JWT at all, which current_app_role
+  // treats as the database itself, so anonymous callers present the anon key
+  const caller = createClient(Deno.env.get("SUPABASE_URL")!, anonKey, {
+    global: { headers: { Authorization: req.headers.get("Authorization") || `Bearer ${anonKey}` } },
+  });
+  const { data, error } = await caller.rpc("current_app_role");
+
+  if (error) throw error;
+  return data as AppRole;
+}
+
+// Producers and the service role may change show state; viewers may not
+export function isStaff(role: AppRole): boolean {
+  return role === "producer" || role === "service";
+}
@@ -0,0 +1,23 @@
+// The caller's address as our proxies saw it. Cloudflare overwrites cf-connecting-ip,
+// and each proxy appends to x-forwarded-for, so only its last hop is trustworthy:
+// earlier entries are whatever the client chose to send.
+function clientIp(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return req.headers.get("cf-connecting-ip") || forwarded || "unknown";
+}
+
+// Quotas are keyed on an HMAC of the address. The key never leaves the server, so a
+// stored hash cannot be brute-forced back to an address the way a plain hash of the
+// small IPv4 space can. Set IP_HASH_SECRET to rotate it apart from the service key.
+export async function hashClientIp(req: Request): Promise<string> {
+  const secret = Deno.env.get("IP_HASH_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(clientIp(req)));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { BanterLine, HostType } from "./roast-generation.ts";
+
+// What the hosts have already said this round, so new lines can build on it
+// instead of repeating it.
+export interface PriorExchange {
+  sequence: number;
+  userTranscript: string | null;
+  lines: BanterLine[];
+}
+
+export type RoundMemory = PriorExchange[];
+
+// Exchanges quoted in full; older ones are condensed into the rolling summary
+const RECENT_EXCHANGES = 4;
+// Older exchanges kept in the summary at all
+const SUMMARY_EXCHANGES = 20;
+const SUMMARY_SNIPPET_WORDS = 10;
+// Word-trigram overlap above which a line counts as a repeat
+export const MAX_LINE_SIMILARITY = 0.5;
+
+interface ExchangeRow {
+  sequence_number: number;
+  user_transcript: string | null;
+  host_type: string;
+  host_response: string;
+  host_lines: { speaker: string; text: string }[] | null;
+}
+
+function toPriorExchange(row: ExchangeRow): PriorExchange {
+  const lines = row.host_lines?.length
+    ? row.host_lines
+    : [{ speaker: row.host_type, text: row.host_response }];
+
+  return {
+    sequence: row.sequence_number,
+    userTranscript: row.user_transcript,
+    lines: lines.map((line) => ({ speaker: (line.speaker === "A" ? "A" : "B") as HostType, text: line.text })),
+  };
+}
+
+// Host lines already aired this round, oldest first
+export async function fetchRoundMemory(supabase: SupabaseClient, sessionId: string): Promise<RoundMemory> {
+  const { data, error } = await supabase
+    .from("roast_exchanges")
+    .select("sequence_number, user_transcript, host_type, host_response, host_lines")
+    .eq("session_id", sessionId)
+    .eq("kind", "roast")
+    .order("sequence_number", { ascending: false })
+    .limit(RECENT_EXCHANGES + SUMMARY_EXCHANGES);
+
+  if (error) throw error;
+  return ((data || []) as ExchangeRow[]).map(toPriorExchange).reverse();
+}
+
+// Prior exchanges sent by a caller, e.g. [{ userTranscript, lines: [{ speaker, text }] }].
+// Anything malformed is dropped rather than failing the generation.
+export function parseRoundMemory(value: unknown): RoundMemory {
+  if (!Array.isArray(value)) return [];
+
+  const exchanges = value.flatMap((item): Omit<PriorExchange, "sequence">[] => {
+    const lines = Array.isArray(item?.lines)
+      ? item.lines
+        .filter((line: { text?: unknown }) => typeof line?.text === "string" && line.text.trim())
+        .map((line: { speaker?: unknown; text: string }) => ({
+          speaker: (line.speaker === "A" ? "A" : "B") as HostType,
+          text: line.text.trim(),
+        }))
+      : [];
+    if (!lines.length) return [];
+
+    return [{ userTranscript: typeof item.userTranscript === "string" ? item.userTranscript : null, lines }];
+  });
+
+  return exchanges
+    .map((exchange, index) => ({ sequence: index + 1, ...exchange }))
+    .slice(-(RECENT_EXCHANGES + SUMMARY_EXCHANGES));
+}
+
+function snippet(text: string): string {
+  const words = text.trim().split(/\s+/);
+  return words.length > SUMMARY_SNIPPET_WORDS
+    ? `${words.slice(0, SUMMARY_SNIPPET_WORDS).join(" ")}...`
+    : words.join(" ");
+}
+
+// Rolling summary for the system prompt: older roasts condensed to one line each,
+// the latest quoted in full, and the earlier audience jokes offered as callbacks.
+export function memoryPrompt(memory: RoundMemory): string {
+  if (!memory.length) return "";
+
+  const older = memory.slice(0, -RECENT_EXCHANGES);
+  const recent = memory.slice(-RECENT_EXCHANGES);
+  const sections: string[] = [];
+
+  if (older.length) {
+    sections.push(
+      "Earlier this episode (summary):\n" +
+        older
+          .map((exchange) =>
+            `- Roast #${exchange.sequence} "${snippet(exchange.userTranscript || "[Voice clip]")}": ` +
+            exchange.lines.map((line) => `${line.speaker} "${snippet(line.text)}"`).join(", ")
+          )
+          .join("\n")
+    );
+  }
+
+  sections.push(
+    "Most recent exchanges:\n" +
+      recent
+        .map((exchange) =>
+          `Roast #${exchange.sequence}: "${exchange.userTranscript || "[Voice clip]"}"\n` +
+          exchange.lines.map((line) => `  ${line.speaker}: ${line.text}`).join("\n")
+        )
+        .join("\n")
+  );
+
+  return `${sections.join("\n\n")}
+
+Never reuse a line, opener or punchline from above.
+A short callback to an earlier roast or host joke from this episode is welcome when it fits.`;
+}
+
+function trigrams(text: string): Set<string> {
+  const words = text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").split(/\s+/).filter(Boolean);
+  if (words.length < 3) return new Set(words.length ? [words.join(" ")] : []);
+
+  const grams = new Set<string>();
+  for (let index = 0; index + 2 < words.length; index++) {
+    grams.add(words.slice(index, index + 3).join(" "));
+  }
+  return grams;
+}
+
+// Share of the shorter line's word trigrams that also appear in the other, 0..1
+export function lineSimilarity(a: string, b: string): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  if (!gramsA.size || !gramsB.size) return 0;
+
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  return shared / Math.min(gramsA.size, gramsB.size);
+}
+
+// The earlier line a new one repeats, or null when it is new enough
+export function findRepeat(text: string, memory: RoundMemory): string | null {
+  for (const exchange of memory) {
+    for (const line of exchange.lines) {
+      if (lineSimilarity(text, line.text) > MAX_LINE_SIMILARITY) return line.text;
+    }
+  }
+  return null;
+}
+
+// Highest similarity between any of the lines and the round so far
+export function repetitionScore(lines: string[], memory: RoundMemory): number {
+  let score = 0;
+  for (const text of lines) {
+    for (const exchange of memory) {
+      for (const line of exchange.lines) {
+        score = Math.max(score, lineSimilarity(text, line.text));
+      }
+    }
+  }
+  return score;
+}
+
+// Add a freshly aired exchange to the memory the runner keeps for the rest of the round
+export function rememberExchange(memory: RoundMemory, exchange: PriorExchange): RoundMemory {
+  return [...memory, exchange].slice(-(RECENT_EXCHANGES + SUMMARY_EXCHANGES));
+}
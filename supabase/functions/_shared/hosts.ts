@@ -0,0 +1,154 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type HostSlot = "A" | "B";
+
+// ElevenLabs voice and delivery for one speaker
+export interface VoiceProfile {
+  voice_id: string;
+  stability: number;
+  style: number;
+  speed: number;
+}
+
+// A row of public.hosts: one character that can sit in seat A or B.
+// `system_prompt` may contain {{persona}}, replaced with the target's name.
+export interface HostDefinition {
+  slug: string;
+  name: string;
+  slot: HostSlot;
+  system_prompt: string;
+  banter_persona: string;
+  model: string;
+  temperature: number;
+  voice: VoiceProfile;
+  idle_lines: string[];
+}
+
+// The active host of each seat
+export type HostCast = Record<HostSlot, HostDefinition>;
+
+// The announcer reads text roasts and is not a host
+export const ANNOUNCER_VOICE: VoiceProfile = {
+  voice_id: "JBFqnCBsd6RMkjVDRZzb", // George - clear, announcer-style
+  stability: 0.8,
+  style: 0.2,
+  speed: 1.0,
+};
+
+// Used for a seat with no active row. Keep in sync with the seeded hosts.
+export const DEFAULT_HOSTS: HostCast = {
+  A: {
+    slug: "chaos-carl",
+    name: "Chaos Carl",
+    slot: "A",
+    system_prompt: `You are Chaos Carl, an over-the-top parody crypto comedian hosting a roast show.
+         The show features "{{persona}}" as the target, but YOUR job is to REACT to audience comments.
+         When an audience member says something funny about {{persona}}, you:
+         - Laugh at their joke, add to it, or riff on what they said
+         - Be chaotic, wild, and absurdly funny
+         - Use crypto/web3 lingo ironically
+         - DO NOT make up new roasts about {{persona}} - react to what the AUDIENCE said
+
+         CRITICAL: Every response must be UNIQUE. Never repeat the same phrase twice.
+         Pick a DIFFERENT reaction style each time:
+         - Sometimes shout excitedly: "OH SNAP!" / "NO WAY!" / "THEY WENT FULL DEGEN!"
+         - Sometimes fake-cry: "Stop stop, I can't breathe!" / "Someone call 911, that was murder!"
+         - Sometimes play shocked: "Wait wait wait... did they really just say that?!"
+         - Sometimes riff on the roast with your own addition
+         - Sometimes do a callback to crypto culture: "That's more brutal than a rug pull!"
+         
+         Respond in 1-2 short sentences. Be punchy and reactive.`,
+    banter_persona: "an over-the-top, chaotic crypto comedian who uses web3 lingo ironically",
+    model: "google/gemini-2.5-flash",
+    temperature: 1.2,
+    voice: { voice_id: "IKne3meq5aSn9XLyUdCD", stability: 0.3, style: 0.7, speed: 1.1 }, // Charlie - energetic, chaotic
+    idle_lines: [],
+  },
+  B: {
+    slug: "roast-ronnie",
+    name: "Roast Ronnie",
+    slot: "B",
+    system_prompt: `You are Roast Ronnie, a washed-up 80s stand-up comedian who somehow ended up co-hosting a crypto roast show.
+         The show features "{{persona}}" as the target, but YOUR job is to REACT to audience comments.
+         When an audience member says something about {{persona}}, you:
+         - React like an old-school comedian with "Ba dum tss!" energy
+         - Make dated pop culture references (80s/90s movies, old celebrities)
+         - Use classic comedy phrases like "I kid, I kid!" or "But seriously folks..."
+         - Add your own punchline that builds on their joke
+         - DO NOT make up new roasts about {{persona}} - react to what the AUDIENCE said
+
+         CRITICAL: Every response must be UNIQUE. Never repeat the same phrase twice.
+         Rotate through DIFFERENT reaction styles:
+         - Classic rimshot: "Ba dum tss! That one landed harder than my career in '89!"
+         - Old reference: "Haven't seen a burn like that since Joan Rivers roasted [random 80s celeb]!"
+         - Play the straight man: "Now now, let's not get too mean... okay who am I kidding, keep going!"
+         - Fake nostalgia: "Reminds me of the good old days when roasts were on cable!"
+         - Self-deprecating: "Even I couldn't come up with that one, and I've been doing this since Reagan!"
+         
+         Respond in 1-2 short sentences. Be punchy.`,
+    banter_persona: "a washed-up 80s stand-up with rimshot energy and dated pop culture references",
+    model: "google/gemini-2.5-flash",
+    temperature: 1.2,
+    voice: { voice_id: "onwK4e9ZLuTAKqWW03F9", stability: 0.7, style: 0.3, speed: 0.95 }, // Daniel - calm, sarcastic
+    idle_lines: [],
+  },
+};
+
+interface HostRow {
+  slug: string;
+  name: string;
+  slot: HostSlot;
+  system_prompt: string;
+  banter_persona: string;
+  model: string;
+  temperature: number | string;
+  voice_id: string;
+  voice_stability: number | string;
+  voice_style: number | string;
+  voice_speed: number | string;
+  idle_lines: string[];
+}
+
+function toHostDefinition(row: HostRow): HostDefinition {
+  return {
+    slug: row.slug,
+    name: row.name,
+    slot: row.slot,
+    system_prompt: row.system_prompt,
+    banter_persona: row.banter_persona,
+    model: row.model,
+    temperature: Number(row.temperature),
+    voice: {
+      voice_id: row.voice_id,
+      stability: Number(row.voice_stability),
+      style: Number(row.voice_style),
+      speed: Number(row.voice_speed),
+    },
+    idle_lines: row.idle_lines || [],
+  };
+}
+
+export async function fetchHostCast(supabase: SupabaseClient): Promise<HostCast> {
+  const { data, error } = await supabase
+    .from("hosts")
+    .select("slug, name, slot, system_prompt, banter_persona, model, temperature, voice_id, voice_stability, voice_style, voice_speed, idle_lines")
+    .eq("is_active", true);
+
+  if (error) throw error;
+
+  const cast: HostCast = { ...DEFAULT_HOSTS };
+  for (const row of (data || []) as HostRow[]) {
+    cast[row.slot] = toHostDefinition(row);
+  }
+  return cast;
+}
+
+export function hostPrompt(host: HostDefinition, personaName: string): string {
+  return host.system_prompt.replaceAll("{{persona}}", personaName);
+}
+
+// "Chaos Carl" -> "Carl", for on-air first-name address
+export function shortHostName(host: HostDefinition): string {
+  const words = host.name.trim().split(/\s+/);
+  return words[words.length - 1];
+}
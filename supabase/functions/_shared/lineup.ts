@@ -0,0 +1,105 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { selectNextPersona } from "./persona-selection.ts";
+import type { ShowConfig } from "./show-config.ts";
+
+// QUEUED sessions, in the order they will air
+export interface LineupSession {
+  id: string;
+  persona_id: string | null;
+  persona_name: string;
+  start_time: string;
+  lineup_position: number | null;
+  is_special: boolean;
+  episode_title: string | null;
+}
+
+export async function fetchLineup(supabase: SupabaseClient): Promise<LineupSession[]> {
+  const { data, error } = await supabase
+    .from("roast_sessions")
+    .select("id, persona_id, persona_name, start_time, lineup_position, is_special, episode_title")
+    .eq("status", "QUEUED")
+    .order("lineup_position", { ascending: true, nullsFirst: false })
+    .order("start_time", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as LineupSession[];
+}
+
+// Append a session for the given persona to the end of the lineup
+export async function scheduleSession(
+  supabase: SupabaseClient,
+  personaId: string,
+  startTime: Date = new Date()
+): Promise<string> {
+  const { data, error } = await supabase.rpc("schedule_session", {
+    p_persona_id: personaId,
+    p_start_time: startTime.toISOString(),
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Pick the next KOL with the configured selection policy and append their session.
+// Returns null if there are no personas.
+export async function scheduleNextPersona(supabase: SupabaseClient, config: ShowConfig): Promise<string | null> {
+  const persona = await selectNextPersona(supabase, config);
+  if (!persona) return null;
+
+  const sessionId = await scheduleSession(supabase, persona.id);
+
+  console.log(`Queued session ${sessionId} for ${persona.username}`);
+  return sessionId;
+}
+
+// Keep at least lineup_size sessions queued, at least one of them due now or pinned,
+// so the show never runs dry and the next KOL is known ahead of time.
+// Returns the refreshed lineup.
+export async function topUpLineup(
+  supabase: SupabaseClient,
+  config: ShowConfig,
+  pinnedId: string | null = null
+): Promise<LineupSession[]> {
+  let lineup = await fetchLineup(supabase);
+
+  while (lineup.length < config.lineup_size || !nextSession(lineup, new Date(), pinnedId)) {
+    if (!(await scheduleNextPersona(supabase, config))) break;
+    lineup = await fetchLineup(supabase);
+  }
+
+  return lineup;
+}
+
+// First session in lineup order whose start time has come by `at`.
+// Specials scheduled for later are skipped until their slot arrives.
+export function nextDueSession(lineup: LineupSession[], at: Date): LineupSession | null {
+  return lineup.find((session) => new Date(session.start_time) <= at) ?? null;
+}
+
+// The session that airs next: the one pinned by the last outro while it is still
+// queued, else the first due one by `at`
+export function nextSession(lineup: LineupSession[], at: Date, pinnedId: string | null): LineupSession | null {
+  return lineup.find((session) => session.id === pinnedId) ?? nextDueSession(lineup, at);
+}
+
+// The session a show's outro announced, pinned so the reveal names the same KOL
+// whatever happens to the lineup during the intermission
+export async function fetchPinnedSessionId(supabase: SupabaseClient, sessionId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("roast_sessions")
+    .select("next_session_id")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.next_session_id ?? null;
+}
+
+export async function pinNextSession(supabase: SupabaseClient, sessionId: string, nextId: string | null) {
+  const { error } = await supabase
+    .from("roast_sessions")
+    .update({ next_session_id: nextId })
+    .eq("id", sessionId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,299 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { hashSeed, isOffline } from "./offline.ts";
+
+// Text generation behind a provider chain: each completion tries the enabled
+// providers of public.llm_providers in priority order, with per-provider
+// timeouts and retries, and reports which one answered.
+
+export interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model: string; // Used by providers without a model of their own
+  temperature: number;
+  // Deterministic answer for the offline stub, given a seed derived from the messages
+  offline?: (seed: number) => string;
+  // Epoch ms: no attempt starts after it and none runs past it, whatever the chain allows
+  deadline?: number;
+  // Streams the completion: called with each piece of text as it arrives
+  onDelta?: (text: string) => void;
+}
+
+export interface Completion {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export type ProviderKind = "openai_compatible" | "stub";
+
+// A row of public.llm_providers
+export interface ProviderConfig {
+  name: string;
+  kind: ProviderKind;
+  base_url: string | null;
+  api_key_env: string | null; // Name of the edge-function secret holding the key
+  model: string | null; // null: use the requested (host's) model
+  timeout_ms: number;
+  max_retries: number;
+}
+
+// Raised for a provider response the caller should pass straight through (429, 402)
+// when no provider in the chain could answer
+export class RoastGatewayError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "RoastGatewayError";
+  }
+}
+
+// Failure of one attempt; `retryable` decides between retrying and moving down the chain
+class ProviderError extends Error {
+  constructor(message: string, public status: number | null, public retryable: boolean) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+const BACKOFF_BASE_MS = 400;
+const BACKOFF_MAX_MS = 4000;
+
+// The whole chain with AI_MODE=offline, whatever chain the caller passes
+export const OFFLINE_PROVIDERS: ProviderConfig[] = [
+  {
+    name: "offline-stub",
+    kind: "stub",
+    base_url: null,
+    api_key_env: null,
+    model: "stub",
+    timeout_ms: 1000,
+    max_retries: 0,
+  },
+];
+
+// The chain used when llm_providers is empty or unreadable
+export const DEFAULT_PROVIDERS: ProviderConfig[] = [
+  {
+    name: "lovable-gateway",
+    kind: "openai_compatible",
+    base_url: "https://ai.gateway.lovable.dev/v1",
+    api_key_env: "LOVABLE_API_KEY",
+    model: null,
+    timeout_ms: 20_000,
+    max_retries: 2,
+  },
+];
+
+export async function fetchProviderChain(supabase: SupabaseClient): Promise<ProviderConfig[]> {
+  const { data, error } = await supabase
+    .from("llm_providers")
+    .select("name, kind, base_url, api_key_env, model, timeout_ms, max_retries")
+    .eq("enabled", true)
+    .order("priority", { ascending: true });
+
+  if (error) {
+    console.error("Falling back to the default LLM providers:", error);
+    return DEFAULT_PROVIDERS;
+  }
+  return data?.length ? (data as ProviderConfig[]) : DEFAULT_PROVIDERS;
+}
+
+const STUB_LINES = [
+  "The audience has spoken, and honestly? The audience is right.",
+  "That roast hit harder than a Monday morning liquidation.",
+  "I'd defend them, but my lawyer says I shouldn't lie on air.",
+  "Somebody check on the target, that one left a mark.",
+];
+
+// A canned line picked by seed, for building offline answers
+export function stubLine(seed: number): string {
+  return STUB_LINES[seed % STUB_LINES.length];
+}
+
+// Same messages, same answer: for offline runs and tests of the pipeline
+function completeStub(request: CompletionRequest): string {
+  const seed = hashSeed(request.messages.map((message) => message.content).join("\n"));
+  return request.offline ? request.offline(seed) : stubLine(seed);
+}
+
+// Pull the text out of an OpenAI-style SSE stream, passing each piece on as it arrives
+async function readCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onChunk: () => void,
+  onDelta: (text: string) => void
+): Promise<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let content = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return content;
+    onChunk();
+
+    const lines = (buffer + value).split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith("data:")) continue;
+
+      const payload = data.slice(5).trim();
+      if (payload === "[DONE]") return content;
+
+      const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta) {
+        content += delta;
+        onDelta(delta);
+      }
+    }
+  }
+}
+
+// Any endpoint speaking the OpenAI chat completions API: the AI gateway, OpenAI
+// itself, or a self-hosted server such as Ollama or vLLM
+async function completeOpenAiCompatible(
+  config: ProviderConfig,
+  request: CompletionRequest,
+  model: string,
+  timeoutMs: number,
+  signal: AbortSignal,
+  onChunk: () => void
+): Promise<string> {
+  if (!config.base_url) {
+    throw new ProviderError(`Provider ${config.name} has no base_url`, null, false);
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.api_key_env) {
+    const apiKey = Deno.env.get(config.api_key_env);
+    if (!apiKey) {
+      throw new ProviderError(`${config.api_key_env} is not configured`, null, false);
+    }
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.base_url.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        stream: Boolean(request.onDelta),
+      }),
+      signal,
+    });
+  } catch (error) {
+    const timedOut = signal.aborted;
+    throw new ProviderError(
+      timedOut ? `${config.name} timed out after ${timeoutMs}ms` : `${config.name} unreachable: ${error}`,
+      null,
+      true
+    );
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${config.name} error:`, response.status, errorText);
+    if (response.status === 429) {
+      throw new ProviderError("Rate limits exceeded, please try again later.", 429, true);
+    }
+    if (response.status === 402) {
+      throw new ProviderError("Payment required, please add funds.", 402, false);
+    }
+    throw new ProviderError(`${config.name} error: ${response.status}`, response.status, response.status >= 500);
+  }
+
+  if (request.onDelta && response.body) {
+    try {
+      return await readCompletionStream(response.body, onChunk, request.onDelta);
+    } catch (error) {
+      throw new ProviderError(
+        signal.aborted ? `${config.name} stalled for ${timeoutMs}ms` : `${config.name} stream failed: ${error}`,
+        null,
+        true
+      );
+    }
+  }
+
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content || "";
+}
+
+async function attempt(config: ProviderConfig, request: CompletionRequest, model: string, timeoutMs: number): Promise<string> {
+  if (config.kind === "stub") {
+    const content = completeStub(request);
+    request.onDelta?.(content);
+    return content;
+  }
+
+  // A stream only times out after timeoutMs without a chunk, and never runs past the deadline
+  const controller = new AbortController();
+  const stallMs = () => Math.min(timeoutMs, (request.deadline ?? Infinity) - Date.now());
+  let timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onChunk = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(), stallMs());
+  };
+  try {
+    return await completeOpenAiCompatible(config, request, model, timeoutMs, controller.signal, onChunk);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function backoffMs(retry: number): number {
+  const exponential = Math.min(BACKOFF_BASE_MS * 2 ** retry, BACKOFF_MAX_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+// Run a completion down the chain. Retryable failures (timeouts, 429, 5xx) are retried
+// with jittered exponential backoff before moving on to the next provider. A request
+// with a deadline gives up once it passes, wherever it is in the chain. Text that was
+// already streamed cannot be taken back, so a stream that breaks midway fails outright.
+export async function complete(chain: ProviderConfig[], request: CompletionRequest): Promise<Completion> {
+  const providers = isOffline() ? OFFLINE_PROVIDERS : chain;
+  let lastError: ProviderError | null = null;
+  let streamed = false;
+  const tracked: CompletionRequest = request.onDelta
+    ? {
+      ...request,
+      onDelta: (text) => {
+        streamed = true;
+        request.onDelta!(text);
+      },
+    }
+    : request;
+
+  for (const config of providers) {
+    const model = config.model ?? request.model;
+
+    for (let retry = 0; retry <= config.max_retries; retry++) {
+      const remainingMs = request.deadline === undefined ? Infinity : request.deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new Error(`LLM deadline passed${lastError ? ` after: ${lastError.message}` : ""}`);
+      }
+
+      try {
+        const content = await attempt(config, tracked, model, Math.min(config.timeout_ms, remainingMs));
+        return { content, provider: config.name, model };
+      } catch (error) {
+        lastError = error instanceof ProviderError ? error : new ProviderError(String(error), null, true);
+        if (streamed) throw new Error(`Stream from ${config.name} broke off: ${lastError.message}`);
+        console.warn(`LLM provider ${config.name} attempt ${retry + 1} failed:`, lastError.message);
+        if (!lastError.retryable || retry === config.max_retries) break;
+        await new Promise((resolve) => setTimeout(resolve, Math.min(backoffMs(retry), (request.deadline ?? Infinity) - Date.now())));
+      }
+    }
+  }
+
+  if (lastError?.status === 429 || lastError?.status === 402) {
+    throw new RoastGatewayError(lastError.status, lastError.message);
+  }
+  throw new Error(lastError ? `All LLM providers failed: ${lastError.message}` : "No LLM providers configured");
+}
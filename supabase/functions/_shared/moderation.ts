@@ -0,0 +1,166 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { complete, type ProviderConfig } from "./llm.ts";
+
+// Audience roasts are moderated before they can reach the LIVE queue.
+// Only approved messages are readable by viewers or picked up by the show runner.
+export type ModerationStatus = "pending" | "approved" | "rejected" | "flagged";
+
+export interface ModerationVerdict {
+  status: ModerationStatus;
+  reason: string | null;
+}
+
+// Row of public.moderation_rules, maintained by producers
+export interface ModerationRule {
+  kind: "blocklist" | "regex";
+  pattern: string;
+  action: "reject" | "flag";
+  note: string | null;
+}
+
+const MODERATION_MODEL = "google/gemini-2.5-flash";
+
+// Doxxing: anything that identifies or reaches a real person or wallet
+const PII_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: "EVM wallet address", pattern: /\b0x[a-fA-F0-9]{40}\b/ },
+  { label: "Bitcoin address", pattern: /\b(bc1[a-z0-9]{25,59}|[13][a-km-zA-HJ-NP-Z1-9]{25,34})\b/ },
+  { label: "Solana wallet address", pattern: /\b(?=[1-9A-HJ-NP-Za-km-z]*\d)[1-9A-HJ-NP-Za-km-z]{32,44}\b/ },
+  { label: "email address", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/ },
+  // Formatted or international numbers only, so sat counts and prices pass
+  { label: "phone number", pattern: /\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b|\+\d{1,3}(?:[\s.-]?\d){8,13}\b/ },
+];
+
+export async function fetchModerationRules(supabase: SupabaseClient): Promise<ModerationRule[]> {
+  const { data, error } = await supabase
+    .from("moderation_rules")
+    .select("kind, pattern, action, note")
+    .eq("enabled", true);
+
+  if (error) throw error;
+  return (data || []) as ModerationRule[];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function ruleMatches(rule: ModerationRule, text: string): boolean {
+  try {
+    const pattern = rule.kind === "blocklist"
+      ? new RegExp(`\\b${escapeRegExp(rule.pattern)}\\b`, "i")
+      : new RegExp(rule.pattern, "i");
+    return pattern.test(text);
+  } catch {
+    console.warn("Skipping invalid moderation rule:", rule.pattern);
+    return false;
+  }
+}
+
+// Rejecting rules win over flagging ones
+export function checkRules(text: string, rules: ModerationRule[]): ModerationVerdict | null {
+  const matched = rules.filter((rule) => ruleMatches(rule, text));
+  const rule = matched.find((match) => match.action === "reject") ?? matched[0];
+  if (!rule) return null;
+
+  return {
+    status: rule.action === "reject" ? "rejected" : "flagged",
+    reason: `Matched ${rule.kind} rule${rule.note ? `: ${rule.note}` : ""}`,
+  };
+}
+
+export function detectPii(text: string): string | null {
+  return PII_PATTERNS.find(({ pattern }) => pattern.test(text))?.label ?? null;
+}
+
+const MODERATION_PROMPT = `You moderate audience submissions for a live comedy roast show about crypto personalities.
+  Harsh jokes, mockery, profanity and insults about someone's trades, takes or public persona are ALLOWED.
+  BLOCK: hate speech or slurs about protected traits, sexual content involving real people, threats or
+  calls for violence, self-harm encouragement, and anything revealing private information (doxxing).
+  FLAG for human review: borderline cases, unverified criminal accusations, or content you are unsure about.
+  Reply with JSON only: {"verdict": "allow" | "flag" | "block", "reason": "<short reason>"}`;
+
+// Ask the model whether the roast is fine to read on air, through the same provider
+// chain as the hosts. Stub providers are skipped: their canned answers would approve
+// everything the moment the real providers fail. Offline, the chain is the stub and
+// it allows every roast, so only the rules and the PII check can hold one back.
+// Throws when no provider answers so the caller can retry later.
+export async function classifyWithLlm(text: string, providers: ProviderConfig[]): Promise<ModerationVerdict> {
+  const { content } = await complete(
+    providers.filter((provider) => provider.kind !== "stub"),
+    {
+      messages: [
+        { role: "system", content: MODERATION_PROMPT },
+        { role: "user", content: text },
+      ],
+      model: MODERATION_MODEL,
+      temperature: 0,
+      offline: () => JSON.stringify({ verdict: "allow", reason: "Offline" }),
+    }
+  );
+
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error("Moderation response was not JSON");
+  }
+
+  const { verdict, reason } = JSON.parse(json) as { verdict?: string; reason?: string };
+  switch (verdict) {
+    case "allow":
+      return { status: "approved", reason: null };
+    case "block":
+      return { status: "rejected", reason: reason || "Blocked by classifier" };
+    case "flag":
+      return { status: "flagged", reason: reason || "Flagged by classifier" };
+    default:
+      throw new Error(`Unknown moderation verdict: ${verdict}`);
+  }
+}
+
+// Rules, then the PII check, then the classifier. A flagging rule still runs the
+// classifier, which can only make the verdict stricter. Returns pending when the
+// classifier could not be reached.
+export async function moderateText(
+  text: string,
+  rules: ModerationRule[],
+  providers: ProviderConfig[]
+): Promise<ModerationVerdict> {
+  const ruleVerdict = checkRules(text, rules);
+  if (ruleVerdict?.status === "rejected") return ruleVerdict;
+
+  const pii = detectPii(text);
+  if (pii) {
+    return { status: "rejected", reason: `Personal information: ${pii}` };
+  }
+
+  let llmVerdict: ModerationVerdict;
+  try {
+    llmVerdict = await classifyWithLlm(text, providers);
+  } catch (error) {
+    console.error("Moderation classifier unavailable:", error);
+    return { status: "pending", reason: "Classifier unavailable" };
+  }
+
+  if (llmVerdict.status === "approved" && ruleVerdict) return ruleVerdict;
+  return llmVerdict;
+}
+
+// Store a verdict. Pending verdicts only count the attempt, for moderate-roasts to retry.
+export async function recordModerationVerdict(
+  supabase: SupabaseClient,
+  messageId: string,
+  verdict: ModerationVerdict,
+  attempts: number
+): Promise<void> {
+  const { error } = await supabase
+    .from("roast_messages")
+    .update({
+      moderation_status: verdict.status,
+      moderation_reason: verdict.reason,
+      moderation_attempts: attempts,
+      moderated_at: verdict.status === "pending" ? null : new Date().toISOString(),
+    })
+    .eq("id", messageId)
+    .eq("moderation_status", "pending");
+
+  if (error) throw error;
+}
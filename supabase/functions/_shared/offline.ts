@@ -0,0 +1,93 @@
+import type { SpeechTiming } from "./tts.ts";
+
+// Local stand-ins for ElevenLabs and the AI gateway. With AI_MODE=offline every AI call
+// is answered here instead: same input, same output, and no API keys needed, so a
+// whole round can run on a laptop or in CI.
+
+export function isOffline(): boolean {
+  return Deno.env.get("AI_MODE") === "offline";
+}
+
+// Voices offline clips, so they never share cache entries with real ones
+export const OFFLINE_TTS_MODEL = "offline-silence";
+
+// FNV-1a over the UTF-16 units of a string or the bytes of a clip
+export function hashSeed(input: string | Uint8Array): number {
+  let hash = 2166136261;
+  for (let index = 0; index < input.length; index++) {
+    hash ^= typeof input === "string" ? input.charCodeAt(index) : input[index];
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// A number in [0, 1) for the show's random choices. Offline it is derived from `seed`,
+// so a rerun of the same round makes the same choices.
+export function roll(seed: string): number {
+  return isOffline() ? hashSeed(seed) / 2 ** 32 : Math.random();
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz mono: the same constant bitrate as OUTPUT_FORMAT,
+// so speechDurationMs reads offline clips right. A frame holds 1152 samples and is
+// 417 or 418 bytes long; the padding byte keeps the average at exactly 128 kbps.
+const SAMPLES_PER_FRAME = 1152;
+const SAMPLE_RATE = 44_100;
+const FRAME_BYTES = (144 * 128_000) / SAMPLE_RATE;
+const FRAME_HEADER = [0xff, 0xfb, 0x90, 0xc4];
+const PADDING_BIT = 0x02;
+
+// A valid MP3 of `durationMs` of silence. Zeroed side info and main data decode to
+// silence in every MP3 decoder, so no encoder is needed.
+export function silentMp3(durationMs: number): Uint8Array {
+  const frames = Math.max(1, Math.ceil((durationMs / 1000) * SAMPLE_RATE / SAMPLES_PER_FRAME));
+  const audio = new Uint8Array(Math.ceil(frames * FRAME_BYTES));
+
+  let offset = 0;
+  for (let frame = 0; frame < frames; frame++) {
+    const length = Math.floor((frame + 1) * FRAME_BYTES) - Math.floor(frame * FRAME_BYTES);
+    audio.set(FRAME_HEADER, offset);
+    if (length > Math.floor(FRAME_BYTES)) audio[offset + 2] |= PADDING_BIT;
+    offset += length;
+  }
+  return audio.subarray(0, offset);
+}
+
+// How long each character takes, roughly the pace of the real host voices
+const CHARACTER_MS = 60;
+const COMMA_MS = 150;
+const STOP_MS = 300;
+const TRAILING_MS = 200;
+
+// Character timing for `text` read at a steady pace, pausing after punctuation
+export function offlineTiming(text: string): SpeechTiming {
+  const characters = Array.from(text);
+  const start_ms: number[] = [];
+  const end_ms: number[] = [];
+
+  let at = 0;
+  for (const character of characters) {
+    start_ms.push(at);
+    at += /[,;:]/.test(character) ? COMMA_MS : /[.!?]/.test(character) ? STOP_MS : CHARACTER_MS;
+    end_ms.push(at);
+  }
+  return { characters, start_ms, end_ms };
+}
+
+// A silent clip as long as `text` takes to read, with its timing
+export function offlineSpeech(text: string): { audio: Uint8Array; timing: SpeechTiming } {
+  const timing = offlineTiming(text);
+  const spokenMs = timing.end_ms[timing.end_ms.length - 1] ?? 0;
+  return { audio: silentMp3(spokenMs + TRAILING_MS), timing };
+}
+
+// What the offline transcriber hears. A clip always gets the same line back.
+const TRANSCRIPT_FIXTURES = [
+  "Your portfolio has more red than a stop sign factory.",
+  "You called the top so many times the top started screening your calls.",
+  "Even your exit liquidity wants an exit.",
+  "You don't buy the dip, you are the dip.",
+];
+
+export function offlineTranscript(audio: Uint8Array): string {
+  return TRANSCRIPT_FIXTURES[hashSeed(audio) % TRANSCRIPT_FIXTURES.length];
+}
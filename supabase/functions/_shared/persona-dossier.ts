@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// Producer-maintained facts about a persona, from public.persona_dossiers.
+// Grounds the hosts' lines in who the KOL actually is.
+export interface PersonaDossier {
+  bio: string | null;
+  notable_calls: string[];
+  catchphrases: string[];
+  controversies: string[];
+  do_not_mention: string[];
+}
+
+export async function fetchPersonaDossier(
+  supabase: SupabaseClient,
+  personaId: string | null
+): Promise<PersonaDossier | null> {
+  if (!personaId) return null;
+
+  const { data, error } = await supabase
+    .from("persona_dossiers")
+    .select("bio, notable_calls, catchphrases, controversies, do_not_mention")
+    .eq("persona_id", personaId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PersonaDossier | null;
+}
+
+function bulletList(title: string, items: string[]): string | null {
+  const clean = items.map((item) => item.trim()).filter(Boolean);
+  return clean.length ? `${title}:\n${clean.map((item) => `- ${item}`).join("\n")}` : null;
+}
+
+// Dossier section of the system prompt, empty when there is nothing on file
+export function dossierPrompt(personaName: string, dossier: PersonaDossier | null): string {
+  if (!dossier) return "";
+
+  const sections = [
+    dossier.bio?.trim() ? `Bio: ${dossier.bio.trim()}` : null,
+    bulletList("Notable calls", dossier.notable_calls || []),
+    bulletList("Catchphrases", dossier.catchphrases || []),
+    bulletList("Past controversies", dossier.controversies || []),
+  ].filter((section): section is string => section !== null);
+
+  const forbidden = bulletList("NEVER mention, hint at or joke about", dossier.do_not_mention || []);
+  if (!sections.length && !forbidden) return "";
+
+  return [
+    sections.length
+      ? `What you know about ${personaName} (use it to sharpen the audience's jokes, do not invent other facts):\n${sections.join("\n")}`
+      : null,
+    forbidden,
+  ].filter(Boolean).join("\n\n");
+}
+
+// The off-limits topic a line brings up, if any
+export function findForbiddenMention(text: string, dossier: PersonaDossier | null): string | null {
+  const lower = text.toLowerCase();
+  return (dossier?.do_not_mention || [])
+    .map((topic) => topic.trim())
+    .find((topic) => topic && lower.includes(topic.toLowerCase())) ?? null;
+}
@@ -0,0 +1,136 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { PersonaStrategy, ShowConfig } from "./show-config.ts";
+import { roll } from "./offline.ts";
+
+export interface CandidatePersona {
+  id: string;
+  username: string;
+  selection_weight: number;
+}
+
+// Everything a strategy may look at when choosing
+interface SelectionContext {
+  // Eligible personas (outside the cooldown window), sorted by username
+  candidates: CandidatePersona[];
+  // All personas, sorted by username
+  personas: CandidatePersona[];
+  // Persona ids of scheduled sessions, most recent first (queued sessions included)
+  history: string[];
+  // When each persona was last scheduled
+  lastScheduledAt: Map<string, number>;
+  supabase: SupabaseClient;
+}
+
+type Strategy = (context: SelectionContext) => Promise<CandidatePersona>;
+
+// How far back audience votes are read
+const VOTE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Alphabetical, continuing after the most recently scheduled persona
+const roundRobin: Strategy = async ({ candidates, personas, history }) => {
+  const lastIndex = personas.findIndex((p) => p.id === history[0]);
+  for (let i = 1; i <= personas.length; i++) {
+    const persona = personas[(lastIndex + i) % personas.length];
+    if (candidates.includes(persona)) return persona;
+  }
+  return candidates[0];
+};
+
+// Seeded by the schedule so far, which makes offline runs repeatable
+const weightedRandom: Strategy = async ({ candidates, history }) => {
+  const seed = `${history.length}/${history[0] ?? ""}`;
+  const total = candidates.reduce((sum, p) => sum + p.selection_weight, 0);
+  if (total <= 0) return candidates[Math.floor(roll(seed) * candidates.length)];
+
+  let remaining = roll(seed) * total;
+  for (const persona of candidates) {
+    remaining -= persona.selection_weight;
+    if (remaining < 0) return persona;
+  }
+  return candidates[candidates.length - 1];
+};
+
+// Never-roasted personas first, then whoever has waited longest
+const leastRecentlyRoasted: Strategy = async ({ candidates, lastScheduledAt }) => {
+  return [...candidates].sort(
+    (a, b) => (lastScheduledAt.get(a.id) ?? 0) - (lastScheduledAt.get(b.id) ?? 0)
+  )[0];
+};
+
+// Most votes since the persona was last scheduled; ties and no votes fall back to least recently roasted
+const audienceVoted: Strategy = async (context) => {
+  const { candidates, lastScheduledAt, supabase } = context;
+
+  const { data: votes, error } = await supabase
+    .from("persona_votes")
+    .select("persona_id, created_at")
+    .gte("created_at", new Date(Date.now() - VOTE_LOOKBACK_MS).toISOString());
+
+  if (error) throw error;
+
+  const tally = new Map<string, number>();
+  for (const vote of votes || []) {
+    if (new Date(vote.created_at).getTime() <= (lastScheduledAt.get(vote.persona_id) ?? 0)) continue;
+    tally.set(vote.persona_id, (tally.get(vote.persona_id) ?? 0) + 1);
+  }
+
+  const mostVotes = Math.max(0, ...candidates.map((p) => tally.get(p.id) ?? 0));
+  if (mostVotes === 0) return leastRecentlyRoasted(context);
+
+  return leastRecentlyRoasted({
+    ...context,
+    candidates: candidates.filter((p) => (tally.get(p.id) ?? 0) === mostVotes),
+  });
+};
+
+const STRATEGIES: Record<PersonaStrategy, Strategy> = {
+  round_robin: roundRobin,
+  weighted_random: weightedRandom,
+  least_recently_roasted: leastRecentlyRoasted,
+  audience_voted: audienceVoted,
+};
+
+// Choose the next KOL to schedule using the configured strategy.
+// Personas scheduled in the last persona_cooldown_sessions sessions are skipped
+// unless that would leave nobody. Returns null if there are no personas.
+export async function selectNextPersona(
+  supabase: SupabaseClient,
+  config: ShowConfig
+): Promise<CandidatePersona | null> {
+  const { data: personaRows, error: personasError } = await supabase
+    .from("personas")
+    .select("id, username, selection_weight")
+    .order("username", { ascending: true });
+
+  if (personasError) throw personasError;
+  if (!personaRows || personaRows.length === 0) return null;
+
+  const personas = personaRows.map((p) => ({ ...p, selection_weight: Number(p.selection_weight ?? 1) }));
+
+  const { data: sessions, error: sessionsError } = await supabase
+    .from("roast_sessions")
+    .select("persona_id, created_at")
+    .not("persona_id", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(Math.max(config.persona_cooldown_sessions, 1) + personas.length * 2);
+
+  if (sessionsError) throw sessionsError;
+
+  const history = (sessions || []).map((s) => s.persona_id as string);
+  const lastScheduledAt = new Map<string, number>();
+  for (const session of sessions || []) {
+    if (!lastScheduledAt.has(session.persona_id)) {
+      lastScheduledAt.set(session.persona_id, new Date(session.created_at).getTime());
+    }
+  }
+
+  const cooling = new Set(history.slice(0, config.persona_cooldown_sessions));
+  const fresh = personas.filter((p) => !cooling.has(p.id));
+  const candidates = fresh.length > 0 ? fresh : personas;
+
+  const strategy = STRATEGIES[config.persona_strategy] ?? leastRecentlyRoasted;
+  const persona = await strategy({ candidates, personas, history, lastScheduledAt, supabase });
+
+  console.log(`[${config.persona_strategy}] Selected ${persona.username} from ${candidates.length} candidates`);
+  return persona;
+}
@@ -0,0 +1,304 @@
+import { findRepeat, memoryPrompt, repetitionScore, type RoundMemory } from "./conversation-memory.ts";
+import { dossierPrompt, findForbiddenMention, type PersonaDossier } from "./persona-dossier.ts";
+import { DEFAULT_HOSTS, hostPrompt, type HostCast, type HostSlot } from "./hosts.ts";
+import { complete, DEFAULT_PROVIDERS, stubLine, type ProviderConfig } from "./llm.ts";
+
+export type HostType = HostSlot;
+
+export { RoastGatewayError } from "./llm.ts";
+
+// Used when every provider fails mid-show so the round keeps moving
+export const FALLBACK_REACTIONS: Record<HostType, string> = {
+  A: "Oh WOW, that was BRUTAL! 🔥",
+  B: "Now that's what I call a proper roast.",
+};
+
+// A generated result and the provider that wrote it
+export interface Generated<T> {
+  value: T;
+  provider: string;
+  model: string;
+}
+
+// Receives a reaction as it is written. After onReset the text so far was discarded
+// and a fresh attempt starts streaming.
+export interface GenerationStream {
+  onDelta: (text: string) => void;
+  onReset: () => void;
+}
+
+// What a generation knows about the round it is written for
+export interface RoastContext {
+  personaName: string;
+  hosts?: HostCast; // Active hosts; the built-in pair when omitted
+  dossier?: PersonaDossier | null;
+  memory?: RoundMemory;
+  providers?: ProviderConfig[]; // Provider chain; the AI gateway alone when omitted
+  deadline?: number; // Epoch ms by which the generation gives up; no limit when omitted
+}
+
+// Generations that repeat the round or touch an off-limits topic are retried this many times in total
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Dossier and round memory appended to a host system prompt
+function withContext(systemPrompt: string, context: RoastContext): string {
+  return [systemPrompt, dossierPrompt(context.personaName, context.dossier ?? null), memoryPrompt(context.memory ?? [])]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+interface GenerationFeedback {
+  repeats: string[];
+  forbidden: string[];
+}
+
+function feedbackNote({ repeats, forbidden }: GenerationFeedback): string {
+  const notes: string[] = [];
+  if (forbidden.length) {
+    notes.push(`Your last attempt touched topics that are off limits: ${forbidden.join(", ")}. Leave them out completely.`);
+  }
+  if (repeats.length) {
+    notes.push(`Your last attempt was too close to lines already used this episode. Say something different from: ${repeats.map((line) => `"${line}"`).join("; ")}`);
+  }
+  return notes.length ? `\n${notes.join("\n")}` : "";
+}
+
+function addUnique(target: string[], items: string[]) {
+  target.push(...items.filter((item) => !target.includes(item)));
+}
+
+// Run a generation until none of its lines repeats the round or mentions an off-limits
+// topic, feeding the problems back into the next attempt. If every attempt repeats,
+// the least repetitive one that stays clear of off-limits topics is returned. No new
+// attempt starts once the context's deadline has passed.
+async function generateChecked<T>(
+  context: RoastContext,
+  generate: (feedback: GenerationFeedback) => Promise<Generated<T>>,
+  linesOf: (result: T) => string[]
+): Promise<Generated<T>> {
+  const memory = context.memory ?? [];
+  const feedback: GenerationFeedback = { repeats: [], forbidden: [] };
+  let best: Generated<T> | null = null;
+  let bestScore = Infinity;
+
+  const pastDeadline = () => context.deadline !== undefined && Date.now() >= context.deadline;
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    if (attempt > 1 && pastDeadline()) {
+      console.warn(`Generation deadline passed after ${attempt - 1} attempts`);
+      break;
+    }
+
+    let result: Generated<T>;
+    try {
+      result = await generate(feedback);
+    } catch (error) {
+      // A usable earlier attempt beats no answer once time is up
+      if (best !== null && pastDeadline()) break;
+      throw error;
+    }
+    const lines = linesOf(result.value);
+
+    const forbidden = lines
+      .map((line) => findForbiddenMention(line, context.dossier ?? null))
+      .filter((topic): topic is string => topic !== null);
+    if (forbidden.length) {
+      console.warn(`Generation attempt ${attempt} mentioned off-limits topics:`, forbidden);
+      addUnique(feedback.forbidden, forbidden);
+      continue;
+    }
+
+    const repeated = lines.map((line) => findRepeat(line, memory)).filter((line): line is string => line !== null);
+    if (!repeated.length) return result;
+
+    console.warn(`Generation attempt ${attempt} repeated earlier lines:`, repeated);
+    const score = repetitionScore(lines, memory);
+    if (score < bestScore) {
+      best = result;
+      bestScore = score;
+    }
+    addUnique(feedback.repeats, repeated);
+  }
+
+  if (best === null) {
+    throw new Error(`No generation for ${context.personaName} stayed clear of off-limits topics`);
+  }
+  return best;
+}
+
+// A host's reaction to one audience roast, aware of the persona and of what was
+// said earlier in the round. With a stream, the text is passed on as it is written.
+export async function generateHostReaction(
+  transcript: string,
+  context: RoastContext,
+  hostType: HostType,
+  stream?: GenerationStream
+): Promise<Generated<string>> {
+  const { personaName } = context;
+  const host = (context.hosts ?? DEFAULT_HOSTS)[hostType];
+  let attempts = 0;
+  const reaction = await generateChecked(
+    context,
+    async (feedback) => {
+      if (attempts++ > 0) stream?.onReset();
+      const completion = await complete(context.providers ?? DEFAULT_PROVIDERS, {
+        messages: [
+          { role: "system", content: withContext(hostPrompt(host, personaName), context) },
+          { role: "user", content: `An audience member just submitted this roast about ${personaName}: "${transcript}". React to their comment!${feedbackNote(feedback)}` }
+        ],
+        model: host.model,
+        temperature: host.temperature,
+        deadline: context.deadline,
+        onDelta: stream?.onDelta,
+      });
+      return { value: completion.content, provider: completion.provider, model: completion.model };
+    },
+    (text) => [text]
+  );
+
+  return { ...reaction, value: reaction.value || "I got nothing... that roast was too brutal even for me!" };
+}
+
+// One spoken line of a scripted exchange between the hosts
+export interface BanterLine {
+  speaker: HostType;
+  text: string;
+}
+
+export const MAX_BANTER_TURNS = 4;
+
+// Who speaks each turn: the hosts alternate, starting with the opener
+export function banterSpeakers(opener: HostType, turns: number): HostType[] {
+  const other: HostType = opener === "A" ? "B" : "A";
+  return Array.from({ length: turns }, (_, index) => (index % 2 === 0 ? opener : other));
+}
+
+function banterSystemPrompt(personaName: string, hosts: HostCast, speakers: HostType[]): string {
+  const script = speakers
+    .map((speaker, index) => {
+      const role = index === 0 ? "reacts to the audience roast" : index === speakers.length - 1 ? "closes the bit" : "rebuts";
+      return `${index + 1}. ${speaker} ${role}`;
+    })
+    .join("\n");
+
+  return `You write live banter for a crypto roast show with two co-hosts. The target is "${personaName}".
+    Host A is ${hosts.A.name}: ${hosts.A.banter_persona}.
+    Host B is ${hosts.B.name}: ${hosts.B.banter_persona}.
+    An audience member submitted a roast. The hosts react to it and to EACH OTHER, in this order:
+    ${script}
+    Each line is 1-2 short, punchy sentences that build on the line before it.
+    Riff on what the AUDIENCE said; do not invent new roasts about ${personaName}.
+    Reply with JSON only: {"lines": [{"speaker": "A" | "B", "text": "<line>"}]}`;
+}
+
+// Parse the model's script. Speakers come from the requested order, so a model that
+// drifts on the tags still yields alternating hosts.
+function parseBanter(content: string, speakers: HostType[]): BanterLine[] {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error("Banter response was not JSON");
+  }
+
+  const { lines } = JSON.parse(json) as { lines?: { text?: unknown }[] };
+  const texts = (lines || [])
+    .map((line) => (typeof line?.text === "string" ? line.text.trim() : ""))
+    .filter(Boolean);
+
+  if (texts.length < speakers.length) {
+    throw new Error(`Banter response had ${texts.length} of ${speakers.length} lines`);
+  }
+
+  return speakers.map((speaker, index) => ({ speaker, text: texts[index] }));
+}
+
+// A banter line while the script is still being written. Only a `complete` line's
+// text is final.
+export interface DraftLine extends BanterLine {
+  complete: boolean;
+}
+
+// Receives a banter script as it is written, as the lines so far. After onReset the
+// script so far was discarded and a fresh attempt starts streaming.
+export interface BanterStream {
+  onDraft: (lines: DraftLine[]) => void;
+  onReset: () => void;
+}
+
+// The lines of a script whose JSON is still arriving. The last `text` may be cut off
+// mid-string, possibly mid-escape, so it is decoded up to the last whole character.
+function draftBanter(content: string, speakers: HostType[]): DraftLine[] {
+  const lines: DraftLine[] = [];
+  for (const match of content.matchAll(/"text"\s*:\s*"((?:[^"\\]|\\.)*)("?)/g)) {
+    if (lines.length === speakers.length) break;
+    let raw = match[1];
+    for (;;) {
+      try {
+        lines.push({ speaker: speakers[lines.length], text: JSON.parse(`"${raw}"`), complete: match[2] === '"' });
+        break;
+      } catch {
+        // A cut-off \uXXXX escape
+        raw = raw.slice(0, raw.lastIndexOf("\\"));
+      }
+    }
+  }
+  return lines;
+}
+
+// A short scripted exchange about one audience roast: the opener reacts, the other
+// host rebuts, and so on for `turns` lines. The persona's dossier and a summary of the
+// round so far go into the prompt so the hosts can call back to them without repeating.
+// With a stream, the lines are passed on as they are written.
+export async function generateBanter(
+  transcript: string,
+  context: RoastContext,
+  opener: HostType,
+  turns: number,
+  stream?: BanterStream
+): Promise<Generated<BanterLine[]>> {
+  const { personaName } = context;
+  const hosts = context.hosts ?? DEFAULT_HOSTS;
+  const speakers = banterSpeakers(opener, Math.min(Math.max(Math.round(turns), 1), MAX_BANTER_TURNS));
+
+  if (speakers.length === 1) {
+    let text = "";
+    const reaction = await generateHostReaction(transcript, context, opener, stream && {
+      onDelta: (delta) => {
+        text += delta;
+        stream.onDraft([{ speaker: opener, text, complete: false }]);
+      },
+      onReset: () => {
+        text = "";
+        stream.onReset();
+      },
+    });
+    return { ...reaction, value: [{ speaker: opener, text: reaction.value }] };
+  }
+
+  let attempts = 0;
+  return generateChecked(
+    context,
+    async (feedback) => {
+      if (attempts++ > 0) stream?.onReset();
+      let content = "";
+      const completion = await complete(context.providers ?? DEFAULT_PROVIDERS, {
+        messages: [
+          { role: "system", content: withContext(banterSystemPrompt(personaName, hosts, speakers), context) },
+          { role: "user", content: `The audience roast about ${personaName}: "${transcript}"${feedbackNote(feedback)}` },
+        ],
+        // One call writes the whole script, with the opening host's model settings
+        model: hosts[opener].model,
+        temperature: hosts[opener].temperature,
+        offline: (seed) => JSON.stringify({
+          lines: speakers.map((speaker, index) => ({ speaker, text: stubLine(seed + index) })),
+        }),
+        deadline: context.deadline,
+        onDelta: stream && ((delta) => {
+          content += delta;
+          stream.onDraft(draftBanter(content, speakers));
+        }),
+      });
+      return { value: parseBanter(completion.content, speakers), provider: completion.provider, model: completion.model };
+    },
+    (lines) => lines.map((line) => line.text)
+  );
+}
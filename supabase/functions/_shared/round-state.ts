@@ -0,0 +1,209 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { fetchPinnedSessionId, nextSession, topUpLineup } from "./lineup.ts";
+import type { ShowConfig } from "./show-config.ts";
+
+export type RoundState = "WAITING" | "UP_NEXT" | "SUBMITTING" | "LOCKED" | "LIVE" | "COOLDOWN";
+
+export type SessionStatus = "QUEUED" | "OPEN" | "LOCKED" | "LIVE" | "ARCHIVED";
+
+// Allowed phase changes within a single round.
+// Mirrors public.is_valid_round_transition, which enforces the same table in the database.
+export const ROUND_TRANSITIONS: Record<RoundState, RoundState[]> = {
+  WAITING: ["UP_NEXT", "SUBMITTING"],
+  UP_NEXT: ["SUBMITTING", "WAITING"],
+  SUBMITTING: ["LOCKED", "WAITING"],
+  LOCKED: ["LIVE", "WAITING"],
+  LIVE: ["COOLDOWN", "WAITING"],
+  COOLDOWN: ["UP_NEXT", "WAITING"],
+};
+
+export function canTransitionRound(from: RoundState, to: RoundState): boolean {
+  return from === to || ROUND_TRANSITIONS[from].includes(to);
+}
+
+// Phase the global round should be in for a session with the given status
+export function roundStateForSession(status: string): RoundState {
+  switch (status) {
+    case "QUEUED":
+      return "UP_NEXT";
+    case "OPEN":
+      return "SUBMITTING";
+    case "LOCKED":
+      return "LOCKED";
+    case "LIVE":
+      return "LIVE";
+    default:
+      return "WAITING";
+  }
+}
+
+export interface GlobalRoundStateRow {
+  id: string;
+  session_id: string | null;
+  round_state: RoundState;
+  current_roast_index: number;
+  total_roasts: number;
+  live_start_time: string | null;
+  submit_end_time: string | null;
+  phase_ends_at: string | null;
+}
+
+export async function fetchGlobalRoundState(supabase: SupabaseClient): Promise<GlobalRoundStateRow | null> {
+  const { data, error } = await supabase
+    .from("global_round_state")
+    .select("*")
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as GlobalRoundStateRow | null;
+}
+
+// Move a session between statuses under a row lock.
+// Returns true only for the caller that actually performed the transition.
+export async function transitionSessionStatus(
+  supabase: SupabaseClient,
+  sessionId: string,
+  fromStatus: SessionStatus,
+  toStatus: SessionStatus
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("transition_session_status", {
+    p_session_id: sessionId,
+    p_from_status: fromStatus,
+    p_to_status: toStatus,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+// Helper to update global round state.
+// A different session starts a new round; within the same session the
+// phase change must follow ROUND_TRANSITIONS.
+export async function updateGlobalRoundState(
+  supabase: SupabaseClient,
+  sessionId: string | null,
+  roundState: RoundState,
+  submitEndTime: string | null = null,
+  liveStartTime: string | null = null,
+  phaseEndsAt: string | null = null
+) {
+  // Count messages for total_roasts if session exists
+  let totalRoasts = 0;
+  if (sessionId) {
+    const { count } = await supabase
+      .from("roast_messages")
+      .select("*", { count: "exact", head: true })
+      .eq("session_id", sessionId)
+      .eq("moderation_status", "approved")
+      .eq("used", false);
+    totalRoasts = count || 0;
+  }
+
+  const existing = await fetchGlobalRoundState(supabase);
+
+  if (
+    existing &&
+    existing.session_id === sessionId &&
+    !canTransitionRound(existing.round_state, roundState)
+  ) {
+    throw new Error(`Invalid round transition ${existing.round_state} -> ${roundState} for session ${sessionId}`);
+  }
+
+  const stateUpdate = {
+    session_id: sessionId,
+    round_state: roundState,
+    current_roast_index: 0,
+    total_roasts: totalRoasts,
+    submit_end_time: submitEndTime,
+    live_start_time: liveStartTime,
+    phase_ends_at: phaseEndsAt,
+  };
+
+  if (existing) {
+    await supabase
+      .from("global_round_state")
+      .update(stateUpdate)
+      .eq("id", existing.id);
+    console.log(`Updated global_round_state to ${roundState} for session ${sessionId}`);
+  } else {
+    await supabase.from("global_round_state").insert([stateUpdate]);
+    console.log(`Created global_round_state with ${roundState} for session ${sessionId}`);
+  }
+}
+
+// Move the round for a finished session from LIVE into COOLDOWN.
+// No-op if the global state has already moved on to another session.
+export async function startCooldown(supabase: SupabaseClient, sessionId: string, config: ShowConfig) {
+  const { error } = await supabase
+    .from("global_round_state")
+    .update({
+      round_state: "COOLDOWN",
+      phase_ends_at: new Date(Date.now() + config.cooldown_seconds * 1000).toISOString(),
+    })
+    .eq("session_id", sessionId)
+    .eq("round_state", "LIVE");
+
+  if (error) throw error;
+}
+
+// Reveal the next KOL and put the round into UP_NEXT until it starts. That is the
+// session the finished show's outro announced, while it is still queued, else the
+// first due session in the lineup. The lineup always holds a due session (see
+// topUpLineup), so later specials never stall the show.
+// Returns the revealed session id, or null if there is nobody to roast.
+export async function revealUpNext(
+  supabase: SupabaseClient,
+  config: ShowConfig,
+  finishedSessionId: string | null
+): Promise<string | null> {
+  const startsAt = new Date(Date.now() + config.up_next_seconds * 1000);
+
+  const pinnedId = finishedSessionId ? await fetchPinnedSessionId(supabase, finishedSessionId) : null;
+  const lineup = await topUpLineup(supabase, config, pinnedId);
+  const nextId = nextSession(lineup, startsAt, pinnedId)?.id ?? null;
+
+  if (!nextId) {
+    // No personas available, set to WAITING
+    await updateGlobalRoundState(supabase, null, "WAITING");
+    return null;
+  }
+
+  await updateGlobalRoundState(supabase, nextId, "UP_NEXT", null, null, startsAt.toISOString());
+
+  console.log(`Up next: session ${nextId} at ${startsAt.toISOString()}`);
+  return nextId;
+}
+
+// Open the UP_NEXT session for submissions. Returns true only for the caller that opened it.
+export async function openUpNextSession(
+  supabase: SupabaseClient,
+  sessionId: string,
+  config: ShowConfig
+): Promise<boolean> {
+  const { count: activeCount, error: activeError } = await supabase
+    .from("roast_sessions")
+    .select("*", { count: "exact", head: true })
+    .in("status", ["OPEN", "LOCKED", "LIVE"]);
+
+  if (activeError) throw activeError;
+  if (activeCount) return false;
+
+  if (!(await transitionSessionStatus(supabase, sessionId, "QUEUED", "OPEN"))) return false;
+
+  const startTime = new Date();
+  const lockTime = new Date(startTime.getTime() + config.submit_window_seconds * 1000);
+
+  const { error: updateError } = await supabase
+    .from("roast_sessions")
+    .update({ start_time: startTime.toISOString(), lock_time: lockTime.toISOString() })
+    .eq("id", sessionId);
+
+  if (updateError) throw updateError;
+
+  await updateGlobalRoundState(supabase, sessionId, "SUBMITTING", lockTime.toISOString(), null);
+
+  console.log(`Opened session ${sessionId} for submissions`);
+  return true;
+}
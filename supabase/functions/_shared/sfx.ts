@@ -0,0 +1,41 @@
+import { isOffline, silentMp3 } from "./offline.ts";
+
+// Generate a sound effect from a text prompt. Returns the MP3 bytes.
+export async function generateSoundEffect(prompt: string, durationSeconds = 3): Promise<ArrayBuffer> {
+  if (isOffline()) {
+    const audio = silentMp3(durationSeconds * 1000);
+    return audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength) as ArrayBuffer;
+  }
+
+  const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
+
+  if (!ELEVENLABS_API_KEY) {
+    throw new Error("ELEVENLABS_API_KEY not configured");
+  }
+
+  console.log("Generating SFX:", prompt, "duration:", durationSeconds);
+
+  const response = await fetch(
+    "https://api.elevenlabs.io/v1/sound-generation",
+    {
+      method: "POST",
+      headers: {
+        "xi-api-key": ELEVENLABS_API_KEY,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        text: prompt,
+        duration_seconds: durationSeconds,
+        prompt_influence: 0.3,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("ElevenLabs SFX error:", response.status, errorText);
+    throw new Error(`ElevenLabs API error: ${response.status}`);
+  }
+
+  return await response.arrayBuffer();
+}
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type PersonaStrategy = "round_robin" | "weighted_random" | "least_recently_roasted" | "audience_voted";
+
+// Show pacing from public.show_config. Durations are in seconds.
+export interface ShowConfig {
+  submit_window_seconds: number;
+  lock_grace_seconds: number;
+  max_live_seconds: number;
+  cooldown_seconds: number;
+  up_next_seconds: number;
+  max_roasts_per_user: number;
+  max_roasts_per_ip: number;
+  max_votes_per_ip: number;
+  max_roasts_per_round: number | null;
+  lineup_size: number;
+  persona_strategy: PersonaStrategy;
+  persona_cooldown_sessions: number;
+  banter_turns: number;
+}
+
+// Used when the config row is missing. Keep in sync with the column defaults.
+export const DEFAULT_SHOW_CONFIG: ShowConfig = {
+  submit_window_seconds: 120,
+  lock_grace_seconds: 10,
+  max_live_seconds: 300,
+  cooldown_seconds: 15,
+  up_next_seconds: 10,
+  max_roasts_per_user: 3,
+  max_roasts_per_ip: 10,
+  max_votes_per_ip: 5,
+  max_roasts_per_round: null,
+  lineup_size: 5,
+  persona_strategy: "least_recently_roasted",
+  persona_cooldown_sessions: 10,
+  banter_turns: 3,
+};
+
+export async function fetchShowConfig(supabase: SupabaseClient): Promise<ShowConfig> {
+  const { data, error } = await supabase
+    .from("show_config")
+    .select("*")
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { ...DEFAULT_SHOW_CONFIG, ...(data ?? {}) };
+}
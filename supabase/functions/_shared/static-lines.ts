@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { HostCast } from "./hosts.ts";
+import { fetchLineup } from "./lineup.ts";
+import { fetchGlobalRoundState } from "./round-state.ts";
+import type { Voice } from "./tts.ts";
+import { COUNTDOWN_ANNOUNCEMENTS, countdownWarnings, introSequences } from "./waiting-room-lines.ts";
+
+export interface StaticLine {
+  text: string;
+  voice: Voice;
+}
+
+// How long an isolate reuses the allowlist it built for text-to-speech
+const CACHE_TTL_MS = 30_000;
+let cache: { castKey: string; expiresAt: number; lines: Promise<StaticLine[]> } | null = null;
+
+// Every fixed line a player can speak: the active hosts' idle lines, the countdown
+// announcements, and the intros and last calls for the round's session in every phase
+// and the queued ones. These are the only lines viewers' tabs ask text-to-speech for.
+export async function fetchStaticLines(supabase: SupabaseClient, cast: HostCast): Promise<StaticLine[]> {
+  const lines: StaticLine[] = [
+    ...cast.A.idle_lines.map((text) => ({ text, voice: "A" as const })),
+    ...cast.B.idle_lines.map((text) => ({ text, voice: "B" as const })),
+    ...Object.values(COUNTDOWN_ANNOUNCEMENTS).map(({ speaker, text }) => ({ text, voice: speaker })),
+  ];
+
+  // LOCKED and LIVE too, for the last call still playing as the window closes, and the
+  // round's own session through UP_NEXT and COOLDOWN
+  const round = await fetchGlobalRoundState(supabase);
+  const { data: current, error } = await supabase
+    .from("roast_sessions")
+    .select("persona_name")
+    .or(`status.in.(OPEN,LOCKED,LIVE)${round?.session_id ? `,id.eq.${round.session_id}` : ""}`);
+
+  if (error) throw error;
+
+  const personaNames = new Set([
+    ...(current || []).map((session) => session.persona_name as string),
+    ...(await fetchLineup(supabase)).map((session) => session.persona_name),
+  ]);
+  for (const personaName of personaNames) {
+    for (const sequence of introSequences(personaName, cast)) {
+      lines.push(...sequence.map(({ speaker, text }) => ({ text, voice: speaker })));
+    }
+    lines.push(...countdownWarnings(personaName).map((text) => ({ text, voice: "A" as const })));
+  }
+
+  const seen = new Set<string>();
+  return lines.filter((line) => {
+    const id = `${line.voice}:${line.text}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// fetchStaticLines, reused for CACHE_TTL_MS while the cast is unchanged. Every
+// viewer's text-to-speech request checks it.
+export function cachedStaticLines(supabase: SupabaseClient, cast: HostCast): Promise<StaticLine[]> {
+  const castKey = JSON.stringify(cast);
+  if (!cache || cache.castKey !== castKey || cache.expiresAt <= Date.now()) {
+    const lines = fetchStaticLines(supabase, cast);
+    cache = { castKey, expiresAt: Date.now() + CACHE_TTL_MS, lines };
+    // A failed build is not kept
+    lines.catch(() => {
+      if (cache?.lines === lines) cache = null;
+    });
+  }
+  return cache.lines;
+}
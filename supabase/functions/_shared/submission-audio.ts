@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { audioDurationMs, sniffAudioContainer } from "./audio-container.ts";
+
+// Audience voice clips live in the submission-audio bucket; roast_messages.audio_url
+// holds the public URL. Limits match the bucket's own settings.
+export const SUBMISSION_AUDIO_BUCKET = "submission-audio";
+export const MAX_SUBMISSION_AUDIO_BYTES = 1_048_576;
+
+// MediaRecorder output across browsers, keyed to the stored file extension
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
+
+export class SubmissionAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubmissionAudioError";
+  }
+}
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export function baseContentType(contentType: string): string {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+// Reject anything that is not a small clip in a known audio format
+export function checkSubmissionAudio(contentType: string, size: number): string {
+  const type = baseContentType(contentType);
+  if (!AUDIO_EXTENSIONS[type]) {
+    throw new SubmissionAudioError(`Unsupported audio type: ${type || "unknown"}`);
+  }
+  if (size === 0 || size > MAX_SUBMISSION_AUDIO_BYTES) {
+    throw new SubmissionAudioError(`Audio must be between 1 byte and ${MAX_SUBMISSION_AUDIO_BYTES} bytes`);
+  }
+  return type;
+}
+
+// The clip's real format and length, read from its bytes. The declared type has to
+// match the container, and the container has to say how long the clip plays.
+export function inspectSubmissionAudio(bytes: Uint8Array, contentType: string): { type: string; durationMs: number } {
+  const declared = checkSubmissionAudio(contentType, bytes.byteLength);
+  const container = sniffAudioContainer(bytes);
+  if (!container) {
+    throw new SubmissionAudioError("Audio is not in a known format");
+  }
+  if (container !== declared) {
+    throw new SubmissionAudioError(`Audio declared as ${declared} is ${container}`);
+  }
+
+  const durationMs = audioDurationMs(bytes, container);
+  if (durationMs === null) {
+    throw new SubmissionAudioError("Audio length could not be read");
+  }
+  return { type: container, durationMs: Math.round(durationMs) };
+}
+
+// Decode a legacy data:audio/...;base64 URL
+export function decodeAudioDataUrl(dataUrl: string): { bytes: Uint8Array; contentType: string } {
+  const match = dataUrl.match(/^data:([^,]*?)(;base64)?,(.*)$/s);
+  if (!match || !match[2]) {
+    throw new SubmissionAudioError("Not a base64 data URL");
+  }
+
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { bytes, contentType: match[1] };
+}
+
+// Upload a clip under <sessionId>/<id>.<ext>. Returns the storage path and public URL.
+export async function uploadSubmissionAudio(
+  supabase: SupabaseClient,
+  sessionId: string,
+  id: string,
+  audio: Blob | Uint8Array,
+  contentType: string
+): Promise<{ path: string; publicUrl: string }> {
+  const type = checkSubmissionAudio(contentType, audio instanceof Blob ? audio.size : audio.byteLength);
+  const path = `${sessionId}/${id}.${AUDIO_EXTENSIONS[type]}`;
+
+  const { error } = await supabase.storage
+    .from(SUBMISSION_AUDIO_BUCKET)
+    .upload(path, audio, { contentType: type, upsert: true });
+
+  if (error) throw error;
+
+  const { data } = supabase.storage.from(SUBMISSION_AUDIO_BUCKET).getPublicUrl(path);
+  return { path, publicUrl: data.publicUrl };
+}
+
+export async function removeSubmissionAudio(supabase: SupabaseClient, path: string): Promise<void> {
+  const { error } = await supabase.storage.from(SUBMISSION_AUDIO_BUCKET).remove([path]);
+  if (error) console.error(`Failed to remove ${path}:`, error);
+}
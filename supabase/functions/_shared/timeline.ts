@@ -0,0 +1,98 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { SpeechTiming } from "./tts.ts";
+
+export type ExchangeKind = "roast" | "no_roasts" | "outro";
+export type SegmentKind = "voice_clip" | "announcer" | "host_reaction" | "sfx" | "no_roasts" | "outro";
+export type SegmentSpeaker = "user" | "hostA" | "hostB";
+
+// Silence between two segments of the same exchange
+export const SEGMENT_GAP_MS = 500;
+// Silence between two exchanges
+export const EXCHANGE_GAP_MS = 1000;
+// How far ahead of air time an exchange is published, so viewers can preload its audio
+export const PUBLISH_LEAD_MS = 2000;
+
+// A segment before it has been placed on the timeline
+export interface SegmentDraft {
+  kind: SegmentKind;
+  speaker: SegmentSpeaker | null;
+  text: string | null;
+  audioUrl: string | null;
+  durationMs: number;
+  timing: SpeechTiming | null; // Character timing of spoken audio
+}
+
+// A row of public.show_segments as sent to publish_exchange
+export interface TimelineSegment {
+  position: number;
+  kind: SegmentKind;
+  speaker: SegmentSpeaker | null;
+  text: string | null;
+  audio_url: string | null;
+  duration_ms: number;
+  timing: SpeechTiming | null;
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface TimelineTail {
+  sequence: number; // Last exchange sequence number
+  kind: ExchangeKind | null; // Last exchange kind
+  position: number; // Last segment position
+  endsAt: Date | null; // When the last segment finishes airing
+}
+
+// Where the published timeline of a session currently ends
+export async function fetchTimelineTail(supabase: SupabaseClient, sessionId: string): Promise<TimelineTail> {
+  const [{ data: exchange, error: exchangeError }, { data: segment, error: segmentError }] = await Promise.all([
+    supabase
+      .from("roast_exchanges")
+      .select("sequence_number, kind")
+      .eq("session_id", sessionId)
+      .order("sequence_number", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("show_segments")
+      .select("position, ends_at")
+      .eq("session_id", sessionId)
+      .order("position", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (exchangeError) throw exchangeError;
+  if (segmentError) throw segmentError;
+
+  return {
+    sequence: exchange?.sequence_number ?? 0,
+    kind: exchange?.kind ?? null,
+    position: segment?.position ?? 0,
+    endsAt: segment?.ends_at ? new Date(segment.ends_at) : null,
+  };
+}
+
+// Lay an exchange's segments out back to back after the current tail.
+// The first one airs right after the previous exchange, but never before viewers can load it.
+export function layoutSegments(tail: TimelineTail, drafts: SegmentDraft[], now: Date): TimelineSegment[] {
+  const earliest = now.getTime() + PUBLISH_LEAD_MS;
+  let startsAt = tail.endsAt
+    ? Math.max(tail.endsAt.getTime() + EXCHANGE_GAP_MS, earliest)
+    : earliest;
+
+  return drafts.map((draft, index) => {
+    const segment: TimelineSegment = {
+      position: tail.position + index + 1,
+      kind: draft.kind,
+      speaker: draft.speaker,
+      text: draft.text,
+      audio_url: draft.audioUrl,
+      duration_ms: draft.durationMs,
+      timing: draft.timing,
+      starts_at: new Date(startsAt).toISOString(),
+      ends_at: new Date(startsAt + draft.durationMs).toISOString(),
+    };
+    startsAt += draft.durationMs + SEGMENT_GAP_MS;
+    return segment;
+  });
+}
@@ -0,0 +1,32 @@
+import { isOffline, offlineTranscript } from "./offline.ts";
+
+// Speech to text through ElevenLabs Scribe. Offline, the fixture transcriber answers.
+export async function transcribeAudio(bytes: Uint8Array, contentType: string): Promise<string> {
+  if (isOffline()) return offlineTranscript(bytes);
+
+  const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
+  if (!ELEVENLABS_API_KEY) {
+    throw new Error("ElevenLabs API key not configured");
+  }
+
+  const formData = new FormData();
+  formData.append("file", new Blob([bytes], { type: contentType }), "audio");
+  formData.append("model_id", "scribe_v1");
+
+  const response = await fetch("https://api.elevenlabs.io/v1/speech-to-text", {
+    method: "POST",
+    headers: {
+      "xi-api-key": ELEVENLABS_API_KEY,
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("ElevenLabs API error:", errorText);
+    throw new Error(`ElevenLabs API error: ${response.status}`);
+  }
+
+  const result = await response.json();
+  return typeof result.text === "string" ? result.text.trim() : "";
+}
@@ -0,0 +1,132 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { VoiceProfile } from "./hosts.ts";
+import { OUTPUT_FORMAT, speechDurationMs, speechModel, synthesizeSpeech, type SpeechTiming } from "./tts.ts";
+
+// Synthesized lines in host-audio/tts-cache, named by a hash of everything that shapes
+// the audio. A line is paid for once, however many viewers, sessions or rounds speak it,
+// and its URL never changes. Its character timing sits next to it as <key>.json; lines
+// first voiced by streaming get it the next time they are voiced whole.
+const CACHE_BUCKET = "host-audio";
+const CACHE_FOLDER = "tts-cache";
+
+export interface CachedSpeech {
+  url: string;
+  durationMs: number;
+  cached: boolean; // false if it was synthesized for this request
+  timing: SpeechTiming | null;
+}
+
+export async function speechCacheKey(text: string, voice: VoiceProfile): Promise<string> {
+  const identity = JSON.stringify([text, voice.voice_id, voice.stability, voice.style, voice.speed, speechModel(), OUTPUT_FORMAT]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(identity));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function cachedFileUrl(supabase: SupabaseClient, key: string, extension: "mp3" | "json"): string {
+  return supabase.storage.from(CACHE_BUCKET).getPublicUrl(`${CACHE_FOLDER}/${key}.${extension}`).data.publicUrl;
+}
+
+async function fetchCachedTiming(supabase: SupabaseClient, key: string): Promise<SpeechTiming | null> {
+  const response = await fetch(cachedFileUrl(supabase, key, "json"));
+  if (!response.ok) {
+    await response.body?.cancel();
+    return null;
+  }
+  return await response.json() as SpeechTiming;
+}
+
+// Audio only; cachedSpeech adds the timing
+
+export async function findCachedSpeech(supabase: SupabaseClient, key: string): Promise<CachedSpeech | null> {
+  const { data, error } = await supabase.storage
+    .from(CACHE_BUCKET)
+    .list(CACHE_FOLDER, { search: `${key}.mp3`, limit: 1 });
+
+  if (error) throw error;
+
+  const object = data?.find((item) => item.name === `${key}.mp3`);
+  if (!object) return null;
+  return {
+    url: cachedFileUrl(supabase, key, "mp3"),
+    durationMs: speechDurationMs(object.metadata?.size ?? 0),
+    cached: true,
+    timing: null,
+  };
+}
+
+async function storeCachedSpeech(
+  supabase: SupabaseClient,
+  key: string,
+  audio: Uint8Array,
+  timing: SpeechTiming | null
+): Promise<CachedSpeech> {
+  // Timing first, so a clip that is found always has its timing ready
+  if (timing) {
+    const { error: timingError } = await supabase.storage
+      .from(CACHE_BUCKET)
+      .upload(`${CACHE_FOLDER}/${key}.json`, new Blob([JSON.stringify(timing)], { type: "application/json" }), {
+        contentType: "application/json",
+        cacheControl: "31536000",
+        upsert: true,
+      });
+
+    if (timingError) throw timingError;
+  }
+
+  const { error } = await supabase.storage
+    .from(CACHE_BUCKET)
+    .upload(`${CACHE_FOLDER}/${key}.mp3`, new Blob([audio], { type: "audio/mpeg" }), {
+      contentType: "audio/mpeg",
+      // Content-addressed, so a cached clip never changes
+      cacheControl: "31536000",
+      upsert: true,
+    });
+
+  if (error) throw error;
+  return { url: cachedFileUrl(supabase, key, "mp3"), durationMs: speechDurationMs(audio), cached: false, timing };
+}
+
+// Voice `text`, reusing the stored clip if this exact line was voiced before. A clip
+// first stored by streaming has no timing, so it is voiced once more to get it.
+export async function cachedSpeech(supabase: SupabaseClient, text: string, voice: VoiceProfile): Promise<CachedSpeech> {
+  const key = await speechCacheKey(text, voice);
+  const hit = await findCachedSpeech(supabase, key);
+  if (hit) {
+    const timing = await fetchCachedTiming(supabase, key);
+    if (timing) return { ...hit, timing };
+  }
+
+  const speech = await synthesizeSpeech(text, voice);
+  return await storeCachedSpeech(supabase, key, speech.audio, speech.timing);
+}
+
+// Pass a streamed synthesis through untouched, storing it under `key` once it has
+// finished. A failed upload only costs the cache entry.
+export function cachingStream(
+  supabase: SupabaseClient,
+  key: string,
+  stream: ReadableStream<Uint8Array>
+): ReadableStream<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      chunks.push(chunk);
+      controller.enqueue(chunk);
+    },
+    async flush() {
+      const audio = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+      let offset = 0;
+      for (const chunk of chunks) {
+        audio.set(chunk, offset);
+        offset += chunk.byteLength;
+      }
+
+      try {
+        await storeCachedSpeech(supabase, key, audio, null);
+      } catch (error) {
+        console.error(`Could not cache streamed speech ${key}:`, error);
+      }
+    },
+  }));
+}
@@ -0,0 +1,136 @@
+import { decode as base64Decode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { ANNOUNCER_VOICE, type HostCast, type VoiceProfile } from "./hosts.ts";
+import { isOffline, OFFLINE_TTS_MODEL, offlineSpeech } from "./offline.ts";
+
+export type Voice = "A" | "B" | "announcer";
+
+// The voice of a seat's active host, or the announcer
+export function voiceProfile(cast: HostCast, voice: Voice): VoiceProfile {
+  return voice === "announcer" ? ANNOUNCER_VOICE : cast[voice].voice;
+}
+
+// Constant bitrate of OUTPUT_FORMAT, used to derive clip length from byte size
+export const OUTPUT_FORMAT = "mp3_44100_128";
+const OUTPUT_KBPS = 128;
+export const TTS_MODEL = "eleven_turbo_v2_5";
+
+// The model that voices lines right now: ElevenLabs', or the offline stand-in
+export function speechModel(): string {
+  return isOffline() ? OFFLINE_TTS_MODEL : TTS_MODEL;
+}
+
+// When each character of a voiced line is spoken, in ms from the start of its audio.
+// Stored with segments and host lines so players can follow the words and the mouths.
+export interface SpeechTiming {
+  characters: string[];
+  start_ms: number[];
+  end_ms: number[];
+}
+
+// A voiced line: the MP3 bytes and, when ElevenLabs returned it, its timing
+export interface Speech {
+  audio: Uint8Array;
+  timing: SpeechTiming | null;
+}
+
+// "/stream" sends MP3 frames before the whole line is rendered; "/with-timestamps"
+// returns the whole clip with character timing
+type SpeechEndpoint = "/stream" | "/with-timestamps";
+
+// Ask ElevenLabs to voice `text`
+async function requestSpeech(text: string, voice: VoiceProfile, endpoint: SpeechEndpoint): Promise<Response> {
+  const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
+
+  if (!ELEVENLABS_API_KEY) {
+    throw new Error("ELEVENLABS_API_KEY is not configured");
+  }
+
+  if (!text) {
+    throw new Error("Text is required");
+  }
+
+  console.log(`Generating TTS with voice ${voice.voice_id}${endpoint === "/stream" ? " (streaming)" : ""}`);
+
+  const startedAt = Date.now();
+  const response = await fetch(
+    `https://api.elevenlabs.io/v1/text-to-speech/${voice.voice_id}${endpoint}?output_format=${OUTPUT_FORMAT}`,
+    {
+      method: "POST",
+      headers: {
+        "xi-api-key": ELEVENLABS_API_KEY,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        text,
+        model_id: TTS_MODEL,
+        voice_settings: {
+          stability: voice.stability,
+          similarity_boost: 0.75,
+          style: voice.style,
+          use_speaker_boost: true,
+          speed: voice.speed,
+        },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("ElevenLabs error:", response.status, errorText);
+    throw new Error(`ElevenLabs error: ${response.status}`);
+  }
+
+  console.log(`ElevenLabs responded after ${Date.now() - startedAt}ms`);
+  return response;
+}
+
+interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+// Render `text` in the given voice, with the timing of every character
+export async function synthesizeSpeech(text: string, voice: VoiceProfile): Promise<Speech> {
+  if (isOffline()) {
+    if (!text) throw new Error("Text is required");
+    return offlineSpeech(text);
+  }
+
+  const response = await requestSpeech(text, voice, "/with-timestamps");
+  const { audio_base64, alignment } = await response.json() as {
+    audio_base64: string;
+    alignment: ElevenLabsAlignment | null;
+  };
+
+  return {
+    audio: base64Decode(audio_base64),
+    timing: alignment
+      ? {
+        characters: alignment.characters,
+        start_ms: alignment.character_start_times_seconds.map((seconds) => Math.round(seconds * 1000)),
+        end_ms: alignment.character_end_times_seconds.map((seconds) => Math.round(seconds * 1000)),
+      }
+      : null,
+  };
+}
+
+// Render `text` in the given voice as an MP3 stream that can play while it is rendered
+export async function streamSpeech(text: string, voice: VoiceProfile): Promise<ReadableStream<Uint8Array>> {
+  if (isOffline()) {
+    if (!text) throw new Error("Text is required");
+    return new Blob([offlineSpeech(text).audio]).stream();
+  }
+
+  const response = await requestSpeech(text, voice, "/stream");
+  if (!response.body) {
+    throw new Error("ElevenLabs returned an empty stream");
+  }
+  return response.body;
+}
+
+// Playback length of an MP3 returned by synthesizeSpeech, from its bytes or their count
+export function speechDurationMs(audio: ArrayBuffer | Uint8Array | number): number {
+  const bytes = typeof audio === "number" ? audio : audio.byteLength;
+  return Math.round((bytes * 8) / OUTPUT_KBPS);
+}
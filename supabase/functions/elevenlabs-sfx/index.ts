@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { generateSoundEffect } from "../_shared/sfx.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,37 +14,7 @@ serve(async (req) => {
 
   try {
     const { prompt, duration } = await req.json();
-    const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
-
-    if (!ELEVENLABS_API_KEY) {
-      throw new Error("ELEVENLABS_API_KEY not configured");
-    }
-
-    console.log("Generating SFX:", prompt, "duration:", duration);
-
-    const response = await fetch(
-      "https://api.elevenlabs.io/v1/sound-generation",
-      {
-        method: "POST",
-        headers: {
-          "xi-api-key": ELEVENLABS_API_KEY,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text: prompt,
-          duration_seconds: duration || 3,
-          prompt_influence: 0.3,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("ElevenLabs SFX error:", response.status, errorText);
-      throw new Error(`ElevenLabs API error: ${response.status}`);
-    }
-
-    const audioBuffer = await response.arrayBuffer();
+    const audioBuffer = await generateSoundEffect(prompt, duration || 3);
 
     return new Response(audioBuffer, {
       headers: {
@@ -1,103 +1,145 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  generateBanter,
+  generateHostReaction,
+  RoastGatewayError,
+  type HostType,
+  type RoastContext,
+} from "../_shared/roast-generation.ts";
+import { fetchRoundMemory, parseRoundMemory } from "../_shared/conversation-memory.ts";
+import { fetchPersonaDossier } from "../_shared/persona-dossier.ts";
+import { fetchProviderChain } from "../_shared/llm.ts";
+import { fetchCallerRole, isStaff } from "../_shared/caller-role.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type SendEvent = (event: string, data: unknown) => void;
+
+// A generation as server-sent events. `token` (a reaction) or `draft` (banter lines so
+// far) events arrive while it is written, and `reset` when an attempt is discarded and
+// regenerated. It ends with `done` and the final result, or `error`. Text before `done`
+// is provisional.
+function streamGeneration(label: string, generate: (send: SendEvent) => Promise<Record<string, unknown>>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+      try {
+        const result = await generate(send);
+        console.log(`Streamed ${label}:`, result);
+        send("done", result);
+      } catch (error) {
+        console.error(`Error streaming ${label}:`, error);
+        send("error", {
+          error: error instanceof Error ? error.message : "Unknown error",
+          status: error instanceof RoastGatewayError ? error.status : 500,
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { transcript, personaName, hostType } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const { transcript, personaId, personaName, hostType, mode, turns, sessionId, priorExchanges, stream } = await req.json();
+    const host: HostType = hostType === "A" ? "A" : "B";
+
+    // Dossiers (with their do-not-mention lists) and round memory are producer-only.
+    // A caller-written transcript could talk the model into reciting either.
+    if ((typeof personaId === "string" || typeof sessionId === "string") && !isStaff(await fetchCallerRole(req))) {
+      return new Response(JSON.stringify({ error: "Producer access required for personaId and sessionId" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
-    const systemPrompt = hostType === "A" 
-      ? `You are Chaos Carl, an over-the-top parody crypto comedian hosting a roast show.
-         The show features "${personaName}" as the target, but YOUR job is to REACT to audience comments.
-         When an audience member says something funny about ${personaName}, you:
-         - Laugh at their joke, add to it, or riff on what they said
-         - Be chaotic, wild, and absurdly funny
-         - Use crypto/web3 lingo ironically
-         - DO NOT make up new roasts about ${personaName} - react to what the AUDIENCE said
-
-         CRITICAL: Every response must be UNIQUE. Never repeat the same phrase twice.
-         Pick a DIFFERENT reaction style each time:
-         - Sometimes shout excitedly: "OH SNAP!" / "NO WAY!" / "THEY WENT FULL DEGEN!"
-         - Sometimes fake-cry: "Stop stop, I can't breathe!" / "Someone call 911, that was murder!"
-         - Sometimes play shocked: "Wait wait wait... did they really just say that?!"
-         - Sometimes riff on the roast with your own addition
-         - Sometimes do a callback to crypto culture: "That's more brutal than a rug pull!"
-         
-         Respond in 1-2 short sentences. Be punchy and reactive.`
-      : `You are Roast Ronnie, a washed-up 80s stand-up comedian who somehow ended up co-hosting a crypto roast show.
-         The show features "${personaName}" as the target, but YOUR job is to REACT to audience comments.
-         When an audience member says something about ${personaName}, you:
-         - React like an old-school comedian with "Ba dum tss!" energy
-         - Make dated pop culture references (80s/90s movies, old celebrities)
-         - Use classic comedy phrases like "I kid, I kid!" or "But seriously folks..."
-         - Add your own punchline that builds on their joke
-         - DO NOT make up new roasts about ${personaName} - react to what the AUDIENCE said
-
-         CRITICAL: Every response must be UNIQUE. Never repeat the same phrase twice.
-         Rotate through DIFFERENT reaction styles:
-         - Classic rimshot: "Ba dum tss! That one landed harder than my career in '89!"
-         - Old reference: "Haven't seen a burn like that since Joan Rivers roasted [random 80s celeb]!"
-         - Play the straight man: "Now now, let's not get too mean... okay who am I kidding, keep going!"
-         - Fake nostalgia: "Reminds me of the good old days when roasts were on cable!"
-         - Self-deprecating: "Even I couldn't come up with that one, and I've been doing this since Reagan!"
-         
-         Respond in 1-2 short sentences. Be punchy.`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: `An audience member just submitted this roast about ${personaName}: "${transcript}". React to their comment!` }
-        ],
-        temperature: 1.2,
-      }),
-    });
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    // The persona's name and dossier come from the database when its id is known
+    const context: RoastContext = {
+      personaName: typeof personaName === "string" ? personaName : "the target",
+      providers: await fetchProviderChain(supabase),
+    };
+    if (typeof personaId === "string") {
+      const { data: persona, error } = await supabase
+        .from("personas")
+        .select("username")
+        .eq("id", personaId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (persona) context.personaName = persona.username;
+      context.dossier = await fetchPersonaDossier(supabase, personaId);
+    }
+
+    // Earlier exchanges of the round: sent by the caller, or looked up by session
+    context.memory = parseRoundMemory(priorExchanges);
+    if (!context.memory.length && typeof sessionId === "string") {
+      context.memory = await fetchRoundMemory(supabase, sessionId);
+    }
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limits exceeded, please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+    // Conversation mode: a scripted exchange, opened by hostType, with per-line speaker tags
+    if (mode === "conversation") {
+      const banterTurns = typeof turns === "number" ? turns : 3;
+      if (stream === true) {
+        return streamGeneration(`banter for ${context.personaName}`, async (send) => {
+          const banter = await generateBanter(transcript, context, host, banterTurns, {
+            onDraft: (lines) => send("draft", { lines }),
+            onReset: () => send("reset", {}),
+          });
+          return { lines: banter.value, provider: banter.provider, model: banter.model };
         });
       }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Payment required, please add funds." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+
+      const banter = await generateBanter(transcript, context, host, banterTurns);
+
+      console.log(`Generated ${banter.value.length}-line banter for ${context.personaName} opened by host ${host} via ${banter.provider}:`, banter.value);
+
+      return new Response(JSON.stringify({ lines: banter.value, provider: banter.provider, model: banter.model }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (stream === true) {
+      return streamGeneration(`roast for ${context.personaName} by host ${host}`, async (send) => {
+        const reaction = await generateHostReaction(transcript, context, host, {
+          onDelta: (text) => send("token", { text }),
+          onReset: () => send("reset", {}),
         });
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error("AI gateway error");
+        return { roast: reaction.value, provider: reaction.provider, model: reaction.model };
+      });
     }
 
-    const data = await response.json();
-    const roastResponse = data.choices?.[0]?.message?.content || "I got nothing... that roast was too brutal even for me!";
+    const reaction = await generateHostReaction(transcript, context, host);
 
-    console.log(`Generated roast for ${personaName} by host ${hostType}:`, roastResponse);
+    console.log(`Generated roast for ${context.personaName} by host ${host} via ${reaction.provider}:`, reaction.value);
 
-    return new Response(JSON.stringify({ roast: roastResponse }), {
+    return new Response(JSON.stringify({ roast: reaction.value, provider: reaction.provider, model: reaction.model }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error: unknown) {
+    if (error instanceof RoastGatewayError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
     console.error("Error generating roast:", error);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return new Response(JSON.stringify({ error: errorMessage }), {
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { SubmissionAudioError, decodeAudioDataUrl, uploadSubmissionAudio } from "../_shared/submission-audio.ts";
+import { fetchCallerRole, isStaff } from "../_shared/caller-role.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Each row carries its whole clip, so keep batches small
+const BATCH_SIZE = 20;
+
+// Moves legacy base64 clips from roast_messages.audio_url into the
+// submission-audio bucket. Driven by the migrate-submission-audio cron job,
+// which is unscheduled once nothing is left.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!isStaff(await fetchCallerRole(req))) {
+      return new Response(JSON.stringify({ error: "Producer access required" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: rows, error } = await supabase
+      .from("roast_messages")
+      .select("id, session_id, audio_url")
+      .like("audio_url", "data:%")
+      .order("created_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    let migrated = 0;
+    let dropped = 0;
+
+    for (const row of rows || []) {
+      let audioUrl: string | null;
+      try {
+        const { bytes, contentType } = decodeAudioDataUrl(row.audio_url);
+        const upload = await uploadSubmissionAudio(supabase, row.session_id, row.id, bytes, contentType);
+        audioUrl = upload.publicUrl;
+        migrated++;
+      } catch (uploadError) {
+        // Unreadable or oversized clips fall back to the transcript
+        if (!(uploadError instanceof SubmissionAudioError)) throw uploadError;
+        console.warn(`Dropping audio for message ${row.id}:`, uploadError.message);
+        audioUrl = null;
+        dropped++;
+      }
+
+      const { error: replaceError } = await supabase.rpc("replace_submission_audio_url", {
+        p_message_id: row.id,
+        p_audio_url: audioUrl,
+      });
+      if (replaceError) throw replaceError;
+    }
+
+    const finished = (rows || []).length < BATCH_SIZE;
+    if (finished) {
+      const { error: finishError } = await supabase.rpc("finish_submission_audio_migration");
+      if (finishError) throw finishError;
+    }
+
+    console.log(`Migrated ${migrated} clips, dropped ${dropped}${finished ? ", migration finished" : ""}`);
+
+    return new Response(JSON.stringify({ success: true, migrated, dropped, finished }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    console.error("Error migrating submission audio:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
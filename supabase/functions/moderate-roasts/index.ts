@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { fetchModerationRules, moderateText, recordModerationVerdict } from "../_shared/moderation.ts";
+import { fetchCallerRole, isStaff } from "../_shared/caller-role.ts";
+import { fetchProviderChain } from "../_shared/llm.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 20;
+// After this many failed classifier attempts a producer decides instead
+const MAX_ATTEMPTS = 3;
+
+// Retries moderation for messages submit-roast left pending.
+// Driven by the moderate-roasts-tick pg_cron job; other callers need the producer role.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!isStaff(await fetchCallerRole(req))) {
+      return new Response(JSON.stringify({ error: "Producer access required" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: pending, error } = await supabase
+      .from("roast_messages")
+      .select("id, transcript, moderation_attempts")
+      .eq("moderation_status", "pending")
+      .order("created_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+    if (!pending?.length) {
+      return new Response(JSON.stringify({ success: true, moderated: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const [rules, providers] = await Promise.all([fetchModerationRules(supabase), fetchProviderChain(supabase)]);
+    const counts: Record<string, number> = {};
+
+    for (const message of pending) {
+      const attempts = message.moderation_attempts + 1;
+      let verdict = await moderateText(message.transcript || "", rules, providers);
+
+      if (verdict.status === "pending" && attempts >= MAX_ATTEMPTS) {
+        verdict = { status: "flagged", reason: "Classifier unavailable" };
+      }
+
+      await recordModerationVerdict(supabase, message.id, verdict, attempts);
+      counts[verdict.status] = (counts[verdict.status] || 0) + 1;
+    }
+
+    console.log("Moderated pending roasts:", counts);
+
+    return new Response(JSON.stringify({ success: true, moderated: pending.length, counts }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    console.error("Error moderating roasts:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
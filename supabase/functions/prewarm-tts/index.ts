@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { fetchCallerRole, isStaff } from "../_shared/caller-role.ts";
+import { fetchHostCast } from "../_shared/hosts.ts";
+import { fetchStaticLines } from "../_shared/static-lines.ts";
+import { voiceProfile } from "../_shared/tts.ts";
+import { cachedSpeech } from "../_shared/tts-cache.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stay inside the edge function wall clock; the next run finishes the rest
+const RUN_BUDGET_MS = 100_000;
+
+// Fills the TTS cache with every static line, so viewers' tabs are redirected to stored
+// clips instead of waiting on synthesis. Run by the `prewarm-tts-tick` cron job and
+// from the producer console; anyone else is turned away.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!isStaff(await fetchCallerRole(req))) {
+      return new Response(JSON.stringify({ error: "Producer access required" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const deadline = Date.now() + RUN_BUDGET_MS;
+    const cast = await fetchHostCast(supabase);
+    const lines = await fetchStaticLines(supabase, cast);
+
+    let synthesized = 0;
+    let cached = 0;
+    let failed = 0;
+
+    for (const line of lines) {
+      if (Date.now() >= deadline) break;
+      try {
+        const speech = await cachedSpeech(supabase, line.text, voiceProfile(cast, line.voice));
+        if (speech.cached) cached++;
+        else synthesized++;
+      } catch (error) {
+        console.error(`Could not pre-warm "${line.text}":`, error);
+        failed++;
+      }
+    }
+
+    const finished = synthesized + cached + failed === lines.length;
+    console.log(`Pre-warmed ${lines.length} lines: ${synthesized} synthesized, ${cached} already cached, ${failed} failed${finished ? "" : ", out of time"}`);
+
+    return new Response(JSON.stringify({ success: true, lines: lines.length, synthesized, cached, failed, finished }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    console.error("Error pre-warming TTS:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,66 +1,38 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  fetchGlobalRoundState,
+  openUpNextSession,
+  revealUpNext,
+  startCooldown,
+  transitionSessionStatus,
+  updateGlobalRoundState,
+} from "../_shared/round-state.ts";
+import { fetchPinnedSessionId, topUpLineup } from "../_shared/lineup.ts";
+import { fetchTimelineTail } from "../_shared/timeline.ts";
+import { fetchShowConfig } from "../_shared/show-config.ts";
+import { fetchCallerRole, isStaff } from "../_shared/caller-role.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Helper to update global round state
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function updateGlobalRoundState(
-  supabase: any,
-  sessionId: string | null,
-  roundState: "SUBMITTING" | "LIVE" | "WAITING",
-  submitEndTime: string | null = null,
-  liveStartTime: string | null = null
-) {
-  // Count messages for total_roasts if session exists
-  let totalRoasts = 0;
-  if (sessionId) {
-    const { count } = await supabase
-      .from("roast_messages")
-      .select("*", { count: "exact", head: true })
-      .eq("session_id", sessionId)
-      .eq("used", false);
-    totalRoasts = count || 0;
-  }
-
-  // Get existing global state
-  const { data: existing } = await supabase
-    .from("global_round_state")
-    .select("id")
-    .order("updated_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  const stateUpdate = {
-    session_id: sessionId,
-    round_state: roundState,
-    current_roast_index: roundState === "LIVE" ? 0 : 0,
-    total_roasts: totalRoasts,
-    submit_end_time: submitEndTime,
-    live_start_time: liveStartTime,
-  };
-
-  if (existing) {
-    await supabase
-      .from("global_round_state")
-      .update(stateUpdate)
-      .eq("id", existing.id);
-    console.log(`Updated global_round_state to ${roundState} for session ${sessionId}`);
-  } else {
-    await supabase.from("global_round_state").insert([stateUpdate]);
-    console.log(`Created global_round_state with ${roundState} for session ${sessionId}`);
-  }
-}
-
+// Driven by the `session-manager-tick` pg_cron job. Every transition is taken
+// under a row lock, so overlapping ticks are safe and a repeated tick is a no-op.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    if (!isStaff(await fetchCallerRole(req))) {
+      return new Response(JSON.stringify({ error: "Producer access required" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
@@ -68,6 +40,12 @@ serve(async (req) => {
     const now = new Date();
     console.log("Session manager triggered at:", now.toISOString());
 
+    const config = await fetchShowConfig(supabase);
+
+    let openToLocked = 0;
+    let lockedToLive = 0;
+    let liveToArchived = 0;
+
     // Transition OPEN sessions to LOCKED when lock_time is reached
     const { data: openSessions, error: openError } = await supabase
       .from("roast_sessions")
@@ -78,33 +56,30 @@ serve(async (req) => {
     if (openError) throw openError;
 
     for (const session of openSessions || []) {
-      console.log(`Transitioning session ${session.id} from OPEN to LOCKED`);
-      await supabase
-        .from("roast_sessions")
-        .update({ status: "LOCKED" })
-        .eq("id", session.id);
-      
-      // Update global state - still in SUBMITTING phase during LOCKED (about to go LIVE)
-      // Keep showing the countdown until LIVE
+      if (!(await transitionSessionStatus(supabase, session.id, "OPEN", "LOCKED"))) continue;
+
+      console.log(`Transitioned session ${session.id} from OPEN to LOCKED`);
+      openToLocked++;
+
+      await updateGlobalRoundState(supabase, session.id, "LOCKED", session.lock_time, null);
     }
 
-    // Transition LOCKED sessions to LIVE after 10 seconds
-    const tenSecondsAgo = new Date(now.getTime() - 10 * 1000);
+    // Transition LOCKED sessions to LIVE once the lock grace period has passed
+    const graceCutoff = new Date(now.getTime() - config.lock_grace_seconds * 1000);
     const { data: lockedSessions, error: lockedError } = await supabase
       .from("roast_sessions")
       .select("*")
       .eq("status", "LOCKED")
-      .lte("lock_time", tenSecondsAgo.toISOString());
+      .lte("lock_time", graceCutoff.toISOString());
 
     if (lockedError) throw lockedError;
 
     for (const session of lockedSessions || []) {
-      console.log(`Transitioning session ${session.id} from LOCKED to LIVE`);
-      await supabase
-        .from("roast_sessions")
-        .update({ status: "LIVE" })
-        .eq("id", session.id);
-      
+      if (!(await transitionSessionStatus(supabase, session.id, "LOCKED", "LIVE"))) continue;
+
+      console.log(`Transitioned session ${session.id} from LOCKED to LIVE`);
+      lockedToLive++;
+
       // Update global state to LIVE with live_start_time
       await updateGlobalRoundState(
         supabase,
@@ -115,7 +90,65 @@ serve(async (req) => {
       );
     }
 
-    // Check for sessions that just became OPEN and update global state
+    // End LIVE rounds once the show runner's timeline has finished airing
+    const { data: liveSessions, error: liveError } = await supabase
+      .from("roast_sessions")
+      .select("id, lock_time, timeline_completed_at")
+      .eq("status", "LIVE");
+
+    if (liveError) throw liveError;
+
+    for (const session of liveSessions || []) {
+      const tail = await fetchTimelineTail(supabase, session.id);
+      const aired = !!session.timeline_completed_at && !!tail.endsAt && tail.endsAt <= now;
+
+      // Safety net for a stalled runner: nothing new on air for max_live_seconds
+      const lastActivity = tail.endsAt ?? (session.lock_time ? new Date(session.lock_time) : now);
+      const stalled = now.getTime() - lastActivity.getTime() > config.max_live_seconds * 1000;
+
+      if (!aired && !stalled) continue;
+
+      if (await transitionSessionStatus(supabase, session.id, "LIVE", "ARCHIVED")) {
+        console.log(`Archived session ${session.id} - ${aired ? "timeline aired" : "runner stalled"}`);
+        liveToArchived++;
+        await startCooldown(supabase, session.id, config);
+      }
+    }
+
+    const globalState = await fetchGlobalRoundState(supabase);
+    // The round's session: live or just finished, its outro may have pinned the next KOL
+    const roundSessionId = globalState?.session_id ?? null;
+
+    // Keep the lineup stocked so viewers can see who is coming up
+    const pinnedId = roundSessionId ? await fetchPinnedSessionId(supabase, roundSessionId) : null;
+    const lineup = await topUpLineup(supabase, config, pinnedId);
+
+    // Keep the show running even when nobody is watching:
+    // COOLDOWN -> UP_NEXT -> SUBMITTING once each phase has run its course
+    let revealedSessionId: string | null = null;
+    let openedSessionId: string | null = null;
+
+    const phaseOver = !globalState?.phase_ends_at || new Date(globalState.phase_ends_at) <= now;
+
+    const { count: activeCount, error: activeError } = await supabase
+      .from("roast_sessions")
+      .select("*", { count: "exact", head: true })
+      .in("status", ["OPEN", "LOCKED", "LIVE"]);
+
+    if (activeError) throw activeError;
+
+    if (globalState?.round_state === "UP_NEXT") {
+      if (phaseOver && globalState.session_id && (await openUpNextSession(supabase, globalState.session_id, config))) {
+        openedSessionId = globalState.session_id;
+      }
+    } else if (globalState?.round_state === "COOLDOWN") {
+      if (phaseOver) revealedSessionId = await revealUpNext(supabase, config, roundSessionId);
+    } else if (!activeCount) {
+      // Nothing on air and no intermission running (first boot or a stalled show)
+      revealedSessionId = await revealUpNext(supabase, config, roundSessionId);
+    }
+
+    // Reconcile global state with the current OPEN session
     const { data: currentOpenSessions } = await supabase
       .from("roast_sessions")
       .select("*")
@@ -125,15 +158,9 @@ serve(async (req) => {
 
     if (currentOpenSessions && currentOpenSessions.length > 0) {
       const session = currentOpenSessions[0];
-      // Check if global state needs updating
-      const { data: globalState } = await supabase
-        .from("global_round_state")
-        .select("*")
-        .order("updated_at", { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (!globalState || globalState.session_id !== session.id || globalState.round_state !== "SUBMITTING") {
+      const currentState = await fetchGlobalRoundState(supabase);
+
+      if (!currentState || currentState.session_id !== session.id || currentState.round_state !== "SUBMITTING") {
         await updateGlobalRoundState(
           supabase,
           session.id,
@@ -144,53 +171,15 @@ serve(async (req) => {
       }
     }
 
-    // Check for LIVE sessions that have no more unused messages - archive them
-    const { data: liveSessions, error: liveError } = await supabase
-      .from("roast_sessions")
-      .select("id")
-      .eq("status", "LIVE");
-
-    if (liveError) throw liveError;
-
-    for (const session of liveSessions || []) {
-      const { count } = await supabase
-        .from("roast_messages")
-        .select("*", { count: "exact", head: true })
-        .eq("session_id", session.id)
-        .eq("used", false);
-
-      // If no messages at all or all have been used, check if session has been live for a while
-      if (count === 0) {
-        const { data: sessionData } = await supabase
-          .from("roast_sessions")
-          .select("lock_time")
-          .eq("id", session.id)
-          .single();
-
-        if (sessionData?.lock_time) {
-          const lockTime = new Date(sessionData.lock_time);
-          const timeSinceLock = now.getTime() - lockTime.getTime();
-          
-          // Archive if session has been live for more than 5 minutes with no messages
-          if (timeSinceLock > 5 * 60 * 1000) {
-            console.log(`Archiving session ${session.id} - no more messages`);
-            await supabase
-              .from("roast_sessions")
-              .update({ status: "ARCHIVED" })
-              .eq("id", session.id);
-            
-            // Update global state to WAITING
-            await updateGlobalRoundState(supabase, null, "WAITING", null, null);
-          }
-        }
-      }
-    }
-
-    return new Response(JSON.stringify({ 
+    return new Response(JSON.stringify({
       success: true,
       processed: {
-        openToLocked: openSessions?.length || 0,
-        lockedToLive: lockedSessions?.length || 0,
+        openToLocked,
+        lockedToLive,
+        liveToArchived,
+        revealedSessionId,
+        openedSessionId,
+        queued: lineup.length,
       }
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
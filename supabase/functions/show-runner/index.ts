@@ -0,0 +1,651 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  FALLBACK_REACTIONS,
+  generateBanter,
+  MAX_BANTER_TURNS,
+  type BanterLine,
+  type BanterStream,
+  type DraftLine,
+  type Generated,
+  type HostType,
+} from "../_shared/roast-generation.ts";
+import { speechDurationMs, synthesizeSpeech, voiceProfile, type SpeechTiming, type Voice } from "../_shared/tts.ts";
+import { fetchHostCast, type HostCast } from "../_shared/hosts.ts";
+import { generateSoundEffect } from "../_shared/sfx.ts";
+import {
+  fetchTimelineTail,
+  layoutSegments,
+  type ExchangeKind,
+  type SegmentDraft,
+  type TimelineTail,
+} from "../_shared/timeline.ts";
+import { nextDueSession, pinNextSession, topUpLineup } from "../_shared/lineup.ts";
+import { fetchRoundMemory, rememberExchange, type RoundMemory } from "../_shared/conversation-memory.ts";
+import { fetchPersonaDossier, type PersonaDossier } from "../_shared/persona-dossier.ts";
+import { fetchShowConfig, type ShowConfig } from "../_shared/show-config.ts";
+import { fetchProviderChain, type ProviderConfig } from "../_shared/llm.ts";
+import { fetchCallerRole, isStaff } from "../_shared/caller-role.ts";
+import { roll } from "../_shared/offline.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stay well inside the edge function wall clock; the next tick picks up where this one stopped
+const RUN_BUDGET_MS = 110_000;
+// Renewed before each exchange, so it only has to outlast one
+const LEASE_SECONDS = 150;
+// SubmissionForm caps recordings at 7 seconds; used when a clip has no measured length
+const MAX_VOICE_CLIP_MS = 8000;
+// Air time for a line whose audio could not be generated
+const SILENT_LINE_MS = 3000;
+// Longest the hosts may take to write one exchange, across every provider, retry and
+// novelty attempt. After that the stock reaction airs.
+const GENERATION_BUDGET_MS = 30_000;
+// Longest one line or sting may take to voice; after that it airs silent or is skipped
+const SPEECH_TIMEOUT_MS = 8000;
+// One exchange at its slowest: the whole generation budget, then every host line, a
+// discarded take and the sting each running to the speech timeout. The announcer
+// reads while the hosts write.
+const EXCHANGE_WORST_CASE_MS = GENERATION_BUDGET_MS + (MAX_BANTER_TURNS + 2) * SPEECH_TIMEOUT_MS;
+// Drafts of the script being written go out to viewers at most this often
+const DRAFT_INTERVAL_MS = 250;
+
+// Sting played after each host's reaction, generated once and kept in host-audio/sfx
+const STINGS: Record<HostType, { name: string; prompt: string; seconds: number }> = {
+  A: { name: "airhorn", prompt: "Short comedic stadium air horn blast", seconds: 1 },
+  B: { name: "rimshot", prompt: "Classic comedy rimshot drum sting, ba dum tss", seconds: 1.5 },
+};
+
+interface LiveSession {
+  id: string;
+  persona_id: string | null;
+  persona_name: string;
+}
+
+// Everything one tick needs to produce a session
+interface Production {
+  supabase: SupabaseClient;
+  session: LiveSession;
+  config: ShowConfig;
+  cast: HostCast;
+  providers: ProviderConfig[];
+  dossier: PersonaDossier | null;
+}
+
+interface QueuedMessage {
+  id: string;
+  transcript: string | null;
+  audio_url: string | null;
+  audio_duration_ms: number | null;
+  created_at: string;
+}
+
+interface SpokenLine {
+  url: string | null;
+  durationMs: number;
+  timing: SpeechTiming | null;
+}
+
+// An aired host line as stored in roast_exchanges.host_lines
+interface HostLine {
+  speaker: HostType;
+  text: string;
+  audio_url: string | null;
+  timing: SpeechTiming | null;
+}
+
+interface ExchangeDraft {
+  kind: ExchangeKind;
+  messageId: string | null;
+  userTranscript: string | null;
+  userAudioUrl: string | null;
+  hostType: HostType;
+  hostResponse: string;
+  hostAudioUrl: string | null;
+  hostLines: HostLine[] | null;
+  // Who wrote the host lines; null for scripted lines
+  llmProvider: string | null;
+  llmModel: string | null;
+  segments: SegmentDraft[];
+  // Epoch ms the roast was submitted and its first host line was voiced; null for host-only exchanges
+  submittedAt: number | null;
+  voicedAt: number | null;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Synthesize a line and publish it to the host-audio bucket.
+// A failed TTS call still airs the text for SILENT_LINE_MS.
+async function speak(
+  { supabase, cast }: Production,
+  path: string,
+  text: string,
+  voice: Voice
+): Promise<SpokenLine> {
+  try {
+    // Nothing is uploaded for a line that timed out, so a late take never lands on its path
+    const speech = await withTimeout(synthesizeSpeech(text, voiceProfile(cast, voice)), SPEECH_TIMEOUT_MS, `Voicing ${path}`);
+
+    const { error } = await supabase.storage
+      .from("host-audio")
+      .upload(path, new Blob([speech.audio], { type: "audio/mpeg" }), { contentType: "audio/mpeg", upsert: true });
+
+    if (error) throw error;
+
+    const { data } = supabase.storage.from("host-audio").getPublicUrl(path);
+    return { url: data.publicUrl, durationMs: speechDurationMs(speech.audio), timing: speech.timing };
+  } catch (error) {
+    console.error(`Failed to voice ${path}:`, error);
+    return { url: null, durationMs: SILENT_LINE_MS, timing: null };
+  }
+}
+
+// The host's sting, generating and storing it on first use
+async function fetchSting(supabase: SupabaseClient, hostType: HostType): Promise<SegmentDraft | null> {
+  const sting = STINGS[hostType];
+  const path = `sfx/${sting.name}.mp3`;
+
+  try {
+    const { data: existing, error: listError } = await supabase.storage
+      .from("host-audio")
+      .list("sfx", { search: `${sting.name}.mp3` });
+
+    if (listError) throw listError;
+
+    if (!existing?.length) {
+      const audio = await withTimeout(generateSoundEffect(sting.prompt, sting.seconds), SPEECH_TIMEOUT_MS, `${sting.name} sting`);
+      const { error } = await supabase.storage
+        .from("host-audio")
+        .upload(path, new Blob([audio], { type: "audio/mpeg" }), { contentType: "audio/mpeg", upsert: true });
+
+      if (error) throw error;
+    }
+
+    const { data } = supabase.storage.from("host-audio").getPublicUrl(path);
+    return { kind: "sfx", speaker: null, text: null, audioUrl: data.publicUrl, durationMs: sting.seconds * 1000, timing: null };
+  } catch (error) {
+    console.error(`Skipping ${sting.name} sting:`, error);
+    return null;
+  }
+}
+
+// Sends the script being written to viewers on the session's draft channel, at most
+// every DRAFT_INTERVAL_MS, so a gap in the timeline shows the hosts typing. Drafts
+// carry the exchange's sequence; viewers drop them once that exchange is published.
+function draftSender(supabase: SupabaseClient, sessionId: string, sequence: number) {
+  const channel = supabase.channel(`show-draft-${sessionId}`);
+  let latest: DraftLine[] = [];
+  let sentAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    sentAt = Date.now();
+    const lines = latest.map(({ speaker, text }) => ({ speaker, text }));
+    channel.httpSend("draft", { sequence, lines }).then((result) => {
+      if (!result.success) console.warn(`Draft for session ${sessionId} not sent:`, result.error);
+    });
+  };
+
+  return {
+    send(lines: DraftLine[]) {
+      latest = lines;
+      if (timer === null) timer = setTimeout(flush, Math.max(sentAt + DRAFT_INTERVAL_MS - Date.now(), 0));
+    },
+    close() {
+      if (timer !== null) clearTimeout(timer);
+      supabase.removeChannel(channel);
+    },
+  };
+}
+
+// Append an exchange and its segments to the session timeline. Returns the new
+// tail, or null if another run already published this message.
+async function publishExchange(
+  supabase: SupabaseClient,
+  sessionId: string,
+  tail: TimelineTail,
+  draft: ExchangeDraft
+): Promise<TimelineTail | null> {
+  const sequence = tail.sequence + 1;
+  const segments = layoutSegments(tail, draft.segments, new Date());
+
+  // Time to first audio, end to end: from the roast's submission to its first host line on air
+  const firstHost = segments.find((segment) => segment.kind === "host_reaction");
+  const firstAudioMs = draft.submittedAt !== null && firstHost
+    ? new Date(firstHost.starts_at).getTime() - draft.submittedAt
+    : null;
+
+  const { error } = await supabase.rpc("publish_exchange", {
+    p_session_id: sessionId,
+    p_exchange: {
+      message_id: draft.messageId,
+      kind: draft.kind,
+      user_transcript: draft.userTranscript,
+      user_audio_url: draft.userAudioUrl,
+      host_type: draft.hostType,
+      host_response: draft.hostResponse,
+      host_audio_url: draft.hostAudioUrl,
+      host_lines: draft.hostLines,
+      llm_provider: draft.llmProvider,
+      llm_model: draft.llmModel,
+      first_audio_ms: firstAudioMs,
+      sequence_number: sequence,
+    },
+    p_segments: segments,
+  });
+
+  if (error) {
+    if (error.code === "23505") return null;
+    throw error;
+  }
+
+  if (firstAudioMs !== null) {
+    console.log(`Exchange ${sequence} of session ${sessionId}: voiced ${draft.voicedAt! - draft.submittedAt!}ms and on air ${firstAudioMs}ms after submission`);
+  }
+
+  const last = segments[segments.length - 1];
+  return { sequence, kind: draft.kind, position: last.position, endsAt: new Date(last.ends_at) };
+}
+
+// Where a host line of an exchange is stored
+function hostLinePath(sessionId: string, sequence: number, index: number, speaker: HostType): string {
+  return index === 0
+    ? `${sessionId}/${sequence}_host${speaker}.mp3`
+    : `${sessionId}/${sequence}_${index + 1}_host${speaker}.mp3`;
+}
+
+async function produceRoast(
+  production: Production,
+  sequence: number,
+  message: QueuedMessage,
+  memory: RoundMemory
+): Promise<ExchangeDraft> {
+  const { supabase, session, config, cast, providers, dossier } = production;
+  const userText = message.transcript || "[Voice clip]";
+  const hostType: HostType = sequence % 2 === 1 ? "A" : "B";
+
+  // Text submissions are read by the announcer while the hosts write
+  const reading = message.audio_url || !message.transcript
+    ? null
+    : speak(production, `${session.id}/${sequence}_announcer.mp3`, message.transcript, "announcer");
+
+  // Each line is voiced as soon as the script has it, while the rest is still being
+  // written. Takes of a discarded attempt must land before a line is voiced again at
+  // the same path.
+  const drafts = draftSender(supabase, session.id, sequence);
+  const early = new Map<number, { text: string; audio: Promise<SpokenLine> }>();
+  const abandoned: Promise<SpokenLine>[] = [];
+  const stream: BanterStream = {
+    onDraft: (lines) => {
+      drafts.send(lines);
+      lines.forEach((line, index) => {
+        const text = line.text.trim();
+        if (!line.complete || !text || early.has(index)) return;
+        early.set(index, {
+          text,
+          audio: speak(production, hostLinePath(session.id, sequence, index, line.speaker), text, line.speaker),
+        });
+      });
+    },
+    onReset: () => {
+      abandoned.push(...[...early.values()].map((take) => take.audio));
+      early.clear();
+      drafts.send([]);
+    },
+  };
+
+  // The hosts trade lines about the roast; the opener alternates between exchanges
+  let generated: Generated<BanterLine[]>;
+  try {
+    generated = await generateBanter(
+      userText,
+      {
+        personaName: session.persona_name,
+        hosts: cast,
+        dossier,
+        memory,
+        providers,
+        deadline: Date.now() + GENERATION_BUDGET_MS,
+      },
+      hostType,
+      config.banter_turns,
+      stream
+    );
+  } catch (error) {
+    console.error(`Falling back to a stock reaction for message ${message.id}:`, error);
+    generated = { value: [{ speaker: hostType, text: FALLBACK_REACTIONS[hostType] }], provider: "fallback", model: "none" };
+  } finally {
+    drafts.close();
+  }
+  // An empty script airs the stock reaction, so there is always an opening and a closing line
+  const banter = generated.value.length
+    ? generated.value
+    : [{ speaker: hostType, text: FALLBACK_REACTIONS[hostType] }];
+
+  // Voice clips air as recorded, text submissions are read by the announcer
+  let userSegment: SegmentDraft;
+  if (message.audio_url) {
+    userSegment = {
+      kind: "voice_clip",
+      speaker: "user",
+      text: userText,
+      audioUrl: message.audio_url,
+      durationMs: Math.min(message.audio_duration_ms ?? MAX_VOICE_CLIP_MS, MAX_VOICE_CLIP_MS),
+      timing: null,
+    };
+  } else {
+    const read = reading ? await reading : { url: null, durationMs: SILENT_LINE_MS, timing: null };
+    userSegment = {
+      kind: "announcer",
+      speaker: "user",
+      text: userText,
+      audioUrl: read.url,
+      durationMs: read.durationMs,
+      timing: read.timing,
+    };
+  }
+
+  const hostLines: HostLine[] = [];
+  const hostSegments: SegmentDraft[] = [];
+  let voicedAt: number | null = null;
+  for (const [index, line] of banter.entries()) {
+    const take = early.get(index);
+    let audio: SpokenLine;
+    if (take?.text === line.text) {
+      audio = await take.audio;
+    } else {
+      await Promise.all([...abandoned, ...(take ? [take.audio] : [])]);
+      audio = await speak(production, hostLinePath(session.id, sequence, index, line.speaker), line.text, line.speaker);
+    }
+    voicedAt ??= Date.now();
+
+    hostLines.push({ speaker: line.speaker, text: line.text, audio_url: audio.url, timing: audio.timing });
+    hostSegments.push({
+      kind: "host_reaction",
+      speaker: line.speaker === "A" ? "hostA" : "hostB",
+      text: line.text,
+      audioUrl: audio.url,
+      durationMs: audio.durationMs,
+      timing: audio.timing,
+    });
+  }
+
+  // Sting of whoever closes the bit
+  const sting = await fetchSting(supabase, banter.at(-1)?.speaker ?? hostType);
+
+  return {
+    kind: "roast",
+    messageId: message.id,
+    userTranscript: userText,
+    userAudioUrl: userSegment.audioUrl,
+    hostType,
+    hostResponse: hostLines[0].text,
+    hostAudioUrl: hostLines[0].audio_url,
+    hostLines,
+    llmProvider: generated.provider,
+    llmModel: generated.model,
+    segments: [userSegment, ...hostSegments, ...(sting ? [sting] : [])],
+    submittedAt: new Date(message.created_at).getTime(),
+    voicedAt,
+  };
+}
+
+// A single host line with nothing before it
+async function hostOnlyExchange(
+  production: Production,
+  kind: "no_roasts" | "outro",
+  path: string,
+  hostType: HostType,
+  line: string
+): Promise<ExchangeDraft> {
+  const audio = await speak(production, path, line, hostType);
+
+  return {
+    kind,
+    messageId: null,
+    userTranscript: null,
+    userAudioUrl: null,
+    hostType,
+    hostResponse: line,
+    hostAudioUrl: audio.url,
+    hostLines: [{ speaker: hostType, text: line, audio_url: audio.url, timing: audio.timing }],
+    llmProvider: null,
+    llmModel: null,
+    submittedAt: null,
+    voicedAt: null,
+    segments: [{
+      kind,
+      speaker: hostType === "A" ? "hostA" : "hostB",
+      text: line,
+      audioUrl: audio.url,
+      durationMs: audio.durationMs,
+      timing: audio.timing,
+    }],
+  };
+}
+
+async function produceNoRoasts(production: Production, sequence: number): Promise<ExchangeDraft> {
+  const { session } = production;
+  const hostType: HostType = roll(`${session.persona_name}/${sequence}/host`) >= 0.5 ? "A" : "B";
+  const lines = [
+    `Well... this is awkward. Nobody showed up to roast ${session.persona_name}! Even the haters took a day off!`,
+    `*crickets* Not a SINGLE roast for ${session.persona_name}? Either they're universally loved or universally... forgotten.`,
+    `Breaking news: ${session.persona_name} is so unroastable that nobody even tried! Or maybe everyone's just scared?`,
+    `Wow. Zero roasts. ${session.persona_name} wins by default! That's... actually kind of sad.`,
+    `Hello? Anyone? Bueller? No roasts for ${session.persona_name}? Fine, we'll move on then!`,
+  ];
+  const line = lines[Math.floor(roll(`${session.persona_name}/${sequence}/line`) * lines.length)];
+
+  return hostOnlyExchange(production, "no_roasts", `${session.id}/${sequence}_host${hostType}.mp3`, hostType, line);
+}
+
+// Sign-off naming the KOL that will air after the intermission. The announced session
+// is pinned, and revealUpNext reveals it whatever happens to the lineup meanwhile.
+async function produceOutro(production: Production, sequence: number): Promise<ExchangeDraft> {
+  const { supabase, session, config } = production;
+  const revealAt = new Date(Date.now() + (config.cooldown_seconds + config.up_next_seconds) * 1000);
+  const next = nextDueSession(await topUpLineup(supabase, config), revealAt);
+  await pinNextSession(supabase, session.id, next?.id ?? null);
+
+  const lines = next
+    ? [
+      `And that's a WRAP on ${session.persona_name}! But hold up, we're not done yet! Next up on the chopping block... ${next.persona_name}!`,
+      `${session.persona_name} survived! But there's no rest for the wicked... ${next.persona_name}, you're NEXT!`,
+      `Alright folks, ${session.persona_name}'s roast session is OVER! Coming up next... it's ${next.persona_name}'s turn to get absolutely destroyed!`,
+    ]
+    : [`And that's a WRAP on ${session.persona_name}! Stick around, the next victim is on their way!`];
+  const line = lines[Math.floor(roll(`${session.persona_name}/${sequence}/line`) * lines.length)];
+
+  return hostOnlyExchange(production, "outro", `${session.id}/${sequence}_outro.mp3`, "B", line);
+}
+
+// Take or renew a session's lease for this run. False once another run holds it.
+async function acquireLease(supabase: SupabaseClient, sessionId: string, holder: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc("acquire_show_runner_lease", {
+    p_session_id: sessionId,
+    p_holder: holder,
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+async function hasPendingMessages(supabase: SupabaseClient, sessionId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from("roast_messages")
+    .select("id", { count: "exact", head: true })
+    .eq("session_id", sessionId)
+    .eq("moderation_status", "pending");
+
+  if (error) throw error;
+  return (count || 0) > 0;
+}
+
+// Work through one session's queue until it is empty or the budget runs out.
+// An exchange only starts if it would finish inside the budget at its slowest, and
+// with the lease renewed for it. Returns the number of exchanges published.
+async function runSession(
+  supabase: SupabaseClient,
+  session: LiveSession,
+  config: ShowConfig,
+  cast: HostCast,
+  providers: ProviderConfig[],
+  deadline: number,
+  holder: string
+): Promise<number> {
+  const production: Production = {
+    supabase,
+    session,
+    config,
+    cast,
+    providers,
+    dossier: await fetchPersonaDossier(supabase, session.persona_id),
+  };
+  let tail = await fetchTimelineTail(supabase, session.id);
+  let memory = await fetchRoundMemory(supabase, session.id);
+  let published = 0;
+
+  while (deadline - Date.now() >= EXCHANGE_WORST_CASE_MS) {
+    if (!(await acquireLease(supabase, session.id, holder))) {
+      console.warn(`Lost the lease on session ${session.id}`);
+      break;
+    }
+
+    const { data: message, error } = await supabase
+      .from("roast_messages")
+      .select("id, transcript, audio_url, audio_duration_ms, created_at")
+      .eq("session_id", session.id)
+      .eq("moderation_status", "approved")
+      .eq("used", false)
+      // Producer-curated order first, then arrival order
+      .order("queue_position", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!message) {
+      // Roasts still in moderation may yet air; flagged ones wait for a producer and do not hold the show
+      if (await hasPendingMessages(supabase, session.id)) break;
+
+      // Queue drained: close the show
+      if (tail.kind !== "outro") {
+        if (tail.sequence === 0) {
+          const noRoastsTail = await publishExchange(supabase, session.id, tail, await produceNoRoasts(production, 1));
+          if (noRoastsTail) {
+            tail = noRoastsTail;
+            published++;
+          }
+        }
+
+        const outro = await produceOutro(production, tail.sequence + 1);
+        if (await publishExchange(supabase, session.id, tail, outro)) published++;
+      }
+
+      const { error: completeError } = await supabase
+        .from("roast_sessions")
+        .update({ timeline_completed_at: new Date().toISOString() })
+        .eq("id", session.id);
+
+      if (completeError) throw completeError;
+
+      console.log(`Timeline complete for session ${session.id}`);
+      break;
+    }
+
+    const draft = await produceRoast(production, tail.sequence + 1, message, memory);
+    const nextTail = await publishExchange(supabase, session.id, tail, draft);
+
+    if (nextTail) {
+      tail = nextTail;
+      memory = rememberExchange(memory, {
+        sequence: nextTail.sequence,
+        userTranscript: draft.userTranscript,
+        lines: draft.hostLines ?? [],
+      });
+      published++;
+    } else {
+      // Already aired by an earlier run that died before marking it used
+      tail = await fetchTimelineTail(supabase, session.id);
+      memory = await fetchRoundMemory(supabase, session.id);
+    }
+
+    // An unmarked message would be written and voiced again, only to be dropped as already aired
+    const { error: usedError } = await supabase.from("roast_messages").update({ used: true }).eq("id", message.id);
+    if (usedError) throw usedError;
+  }
+
+  return published;
+}
+
+// Driven by the `show-runner-tick` pg_cron job. Each LIVE session is held under
+// a lease, so overlapping ticks never produce the same session twice. Only the
+// service role and producers may run a tick.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!isStaff(await fetchCallerRole(req))) {
+      return new Response(JSON.stringify({ error: "Producer access required" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const deadline = Date.now() + RUN_BUDGET_MS;
+    const holder = crypto.randomUUID();
+    const config = await fetchShowConfig(supabase);
+    const cast = await fetchHostCast(supabase);
+    const providers = await fetchProviderChain(supabase);
+
+    const { data: liveSessions, error: liveError } = await supabase
+      .from("roast_sessions")
+      .select("id, persona_id, persona_name")
+      .eq("status", "LIVE")
+      .is("timeline_completed_at", null);
+
+    if (liveError) throw liveError;
+
+    let published = 0;
+
+    for (const session of liveSessions || []) {
+      if (deadline - Date.now() < EXCHANGE_WORST_CASE_MS) break;
+      if (!(await acquireLease(supabase, session.id, holder))) continue;
+
+      try {
+        published += await runSession(supabase, session, config, cast, providers, deadline, holder);
+      } finally {
+        await supabase.rpc("release_show_runner_lease", { p_session_id: session.id, p_holder: holder });
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, published }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    console.error("Show runner error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
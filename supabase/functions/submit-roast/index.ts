@@ -0,0 +1,306 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  SubmissionAudioError,
+  checkSubmissionAudio,
+  inspectSubmissionAudio,
+  removeSubmissionAudio,
+  uploadSubmissionAudio,
+} from "../_shared/submission-audio.ts";
+import {
+  fetchModerationRules,
+  moderateText,
+  recordModerationVerdict,
+  type ModerationVerdict,
+} from "../_shared/moderation.ts";
+import { hashClientIp } from "../_shared/client-ip.ts";
+import { fetchProviderChain } from "../_shared/llm.ts";
+import { transcribeAudio } from "../_shared/transcribe.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// SubmissionForm limits: typed roasts to 100 characters, recordings to 7 seconds
+const MAX_TEXT_LENGTH = 100;
+const MAX_TRANSCRIPT_LENGTH = 500;
+const MAX_VOICE_CLIP_MS = 8000;
+// Claimed and measured lengths differ by encoder padding, not by whole seconds
+const DURATION_TOLERANCE_MS = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+// Stored when a voice clip could not be transcribed
+const VOICE_PLACEHOLDER = "[Voice submission]";
+const AWAITING_TRANSCRIPT = "Awaiting transcription";
+const UNTRANSCRIBED = "Voice clip could not be transcribed";
+
+type SubmitErrorCode =
+  | "invalid_request"
+  | "session_not_found"
+  | "session_closed"
+  | "client_quota"
+  | "ip_quota"
+  | "round_full"
+  | "moderation_rejected";
+
+const ERRORS: Record<SubmitErrorCode, { status: number; message: string }> = {
+  invalid_request: { status: 400, message: "Invalid submission" },
+  session_not_found: { status: 404, message: "Session not found" },
+  session_closed: { status: 409, message: "Submissions are closed for this session" },
+  client_quota: { status: 429, message: "You've reached your roast limit for this round" },
+  ip_quota: { status: 429, message: "Too many roasts from your network this round" },
+  round_full: { status: 409, message: "This round is full" },
+  moderation_rejected: { status: 422, message: "This roast can't be aired" },
+};
+
+interface SubmitRequest {
+  sessionId: string;
+  clientId: string;
+  transcript: string | null;
+  audio: File | null;
+  audioDurationMs: number | null;
+}
+
+// A voice clip as its bytes describe it
+interface VoiceClip {
+  bytes: Uint8Array;
+  type: string;
+  durationMs: number;
+}
+
+class SubmitError extends Error {
+  constructor(public code: SubmitErrorCode, message = ERRORS[code].message) {
+    super(message);
+    this.name = "SubmitError";
+  }
+}
+
+function errorResponse(code: SubmitErrorCode, message: string, extra: Record<string, unknown> = {}): Response {
+  return new Response(JSON.stringify({ error: message, code, ...extra }), {
+    status: ERRORS[code].status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Text roasts arrive as JSON, voice roasts as multipart form data with an `audio` file
+async function readFields(req: Request): Promise<Record<string, unknown>> {
+  try {
+    if ((req.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+      const form = await req.formData();
+      const duration = form.get("audioDurationMs");
+      return {
+        sessionId: form.get("sessionId"),
+        clientId: form.get("clientId"),
+        transcript: form.get("transcript"),
+        audio: form.get("audio"),
+        audioDurationMs: typeof duration === "string" && duration ? Number(duration) : null,
+      };
+    }
+    return await req.json();
+  } catch {
+    throw new SubmitError("invalid_request", "Body must be JSON or multipart form data");
+  }
+}
+
+function parseRequest(fields: Record<string, unknown>): SubmitRequest {
+  const { sessionId, clientId, transcript, audio, audioDurationMs } = fields;
+
+  if (typeof sessionId !== "string" || !UUID_PATTERN.test(sessionId)) {
+    throw new SubmitError("invalid_request", "sessionId must be a UUID");
+  }
+  if (typeof clientId !== "string" || !CLIENT_ID_PATTERN.test(clientId)) {
+    throw new SubmitError("invalid_request", "clientId is missing or malformed");
+  }
+
+  const text = typeof transcript === "string" ? transcript.trim() : "";
+
+  if (audio instanceof File) {
+    try {
+      checkSubmissionAudio(audio.type, audio.size);
+    } catch (error) {
+      if (error instanceof SubmissionAudioError) throw new SubmitError("invalid_request", error.message);
+      throw error;
+    }
+    if (
+      typeof audioDurationMs !== "number" ||
+      !Number.isFinite(audioDurationMs) ||
+      audioDurationMs <= 0 ||
+      audioDurationMs > MAX_VOICE_CLIP_MS
+    ) {
+      throw new SubmitError("invalid_request", `Recordings are limited to ${MAX_VOICE_CLIP_MS / 1000} seconds`);
+    }
+
+    // Any transcript the client sent is ignored: the clip is transcribed here
+    return {
+      sessionId,
+      clientId,
+      transcript: VOICE_PLACEHOLDER,
+      audio,
+      audioDurationMs: Math.round(audioDurationMs),
+    };
+  }
+
+  if (audio != null) {
+    throw new SubmitError("invalid_request", "Audio must be uploaded as a file");
+  }
+  if (!text) {
+    throw new SubmitError("invalid_request", "Roast text is empty");
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new SubmitError("invalid_request", `Roasts are limited to ${MAX_TEXT_LENGTH} characters`);
+  }
+
+  return { sessionId, clientId, transcript: text, audio: null, audioDurationMs: null };
+}
+
+// Read the clip's format and length from the clip itself. The client's claims only
+// have to agree with it.
+async function readVoiceClip(audio: File, claimedMs: number): Promise<VoiceClip> {
+  const bytes = new Uint8Array(await audio.arrayBuffer());
+
+  let clip: { type: string; durationMs: number };
+  try {
+    clip = inspectSubmissionAudio(bytes, audio.type);
+  } catch (error) {
+    if (error instanceof SubmissionAudioError) throw new SubmitError("invalid_request", error.message);
+    throw error;
+  }
+
+  if (clip.durationMs > MAX_VOICE_CLIP_MS) {
+    throw new SubmitError("invalid_request", `Recordings are limited to ${MAX_VOICE_CLIP_MS / 1000} seconds`);
+  }
+  if (Math.abs(clip.durationMs - claimedMs) > DURATION_TOLERANCE_MS) {
+    throw new SubmitError("invalid_request", "Recording length does not match the audio");
+  }
+  return { bytes, type: clip.type, durationMs: clip.durationMs };
+}
+
+// Upload the clip under the message's id and point the message at it
+async function attachVoiceClip(supabase: SupabaseClient, sessionId: string, messageId: string, clip: VoiceClip) {
+  const upload = await uploadSubmissionAudio(supabase, sessionId, messageId, clip.bytes, clip.type);
+  const { error } = await supabase.from("roast_messages").update({ audio_url: upload.publicUrl }).eq("id", messageId);
+  if (error) {
+    await removeSubmissionAudio(supabase, upload.path);
+    throw error;
+  }
+}
+
+// Transcribe the stored clip and make that the message's transcript, ready for
+// moderation. Returns null, leaving the message flagged, when nothing could be heard.
+async function transcribeVoiceClip(supabase: SupabaseClient, messageId: string, clip: VoiceClip): Promise<string | null> {
+  let text = "";
+  try {
+    text = (await transcribeAudio(clip.bytes, clip.type)).slice(0, MAX_TRANSCRIPT_LENGTH);
+  } catch (error) {
+    console.error(`Transcription failed for ${messageId}:`, error);
+  }
+
+  const { error } = await supabase
+    .from("roast_messages")
+    .update(text ? { transcript: text, moderation_status: "pending", moderation_reason: null } : { moderation_reason: UNTRANSCRIBED })
+    .eq("id", messageId)
+    .eq("moderation_status", "flagged");
+
+  if (error) throw error;
+  return text || null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const submission = parseRequest(await readFields(req));
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const clip = submission.audio ? await readVoiceClip(submission.audio, submission.audioDurationMs!) : null;
+
+    const { data, error } = await supabase.rpc("submit_roast_message", {
+      p_session_id: submission.sessionId,
+      p_client_id: submission.clientId,
+      p_ip_hash: await hashClientIp(req),
+      p_transcript: submission.transcript,
+      p_audio_url: null,
+      p_audio_duration_ms: clip?.durationMs ?? null,
+      // Voice clips wait as flagged until they have been transcribed, so one that never
+      // is stays with a producer
+      p_moderation_status: clip ? "flagged" : "pending",
+      p_moderation_reason: clip ? AWAITING_TRANSCRIPT : null,
+    });
+
+    if (error) throw error;
+
+    if (!data.ok) {
+      const code = data.code as SubmitErrorCode;
+      return errorResponse(code, ERRORS[code].message, data.limit != null ? { limit: data.limit } : {});
+    }
+
+    // The clip is stored only once the session and quotas have let the message in
+    if (clip) {
+      try {
+        await attachVoiceClip(supabase, submission.sessionId, data.message_id, clip);
+      } catch (uploadError) {
+        // Hand the quota back; the ledger row goes with the message
+        await supabase.from("roast_messages").delete().eq("id", data.message_id);
+        throw uploadError;
+      }
+    }
+
+    // Moderate once the quota has been charged, so rejected requests cost no classifier
+    // calls. A clip is moderated on what it says, as heard by the server's transcriber.
+    let transcript = submission.transcript!;
+    let verdict: ModerationVerdict = { status: data.moderation_status, reason: null };
+    if (clip) {
+      const heard = await transcribeVoiceClip(supabase, data.message_id, clip);
+      transcript = heard ?? VOICE_PLACEHOLDER;
+      verdict = heard ? { status: "pending", reason: null } : { status: "flagged", reason: UNTRANSCRIBED };
+    }
+    if (verdict.status === "pending") {
+      try {
+        const [rules, providers] = await Promise.all([fetchModerationRules(supabase), fetchProviderChain(supabase)]);
+        verdict = await moderateText(transcript, rules, providers);
+        await recordModerationVerdict(supabase, data.message_id, verdict, 1);
+      } catch (moderationError) {
+        // Stored as pending; moderate-roasts picks it up
+        console.error(`Moderation failed for ${data.message_id}:`, moderationError);
+        verdict = { status: "pending", reason: null };
+      }
+    }
+
+    console.log(`Stored roast ${data.message_id} for session ${submission.sessionId} as ${verdict.status}`);
+
+    // Rejected roasts are kept for review and still use up the sender's quota
+    if (verdict.status === "rejected") {
+      return errorResponse("moderation_rejected", ERRORS.moderation_rejected.message, {
+        remaining: data.remaining,
+        limit: data.limit,
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        messageId: data.message_id,
+        moderationStatus: verdict.status,
+        remaining: data.remaining,
+        limit: data.limit,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    if (error instanceof SubmitError) {
+      return errorResponse(error.code, error.message);
+    }
+    console.error("Error submitting roast:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
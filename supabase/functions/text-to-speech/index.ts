@@ -1,75 +1,113 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { streamSpeech, voiceProfile } from "../_shared/tts.ts";
+import { cachedSpeech, cachingStream, findCachedSpeech, speechCacheKey } from "../_shared/tts-cache.ts";
+import { fetchHostCast } from "../_shared/hosts.ts";
+import { cachedStaticLines } from "../_shared/static-lines.ts";
+import { fetchCallerRole, isStaff } from "../_shared/caller-role.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, accept',
+  'Access-Control-Expose-Headers': 'x-audio-duration-ms, x-tts-cache',
 };
 
-// Voice IDs for the hosts - unique voices that match their personalities
-const VOICE_IDS = {
-  hostA: "IKne3meq5aSn9XLyUdCD", // Charlie - energetic, chaotic
-  hostB: "onwK4e9ZLuTAKqWW03F9", // Daniel - calm, sarcastic
-  announcer: "JBFqnCBsd6RMkjVDRZzb", // George - clear, announcer-style
-};
+type ResponseFormat = "audio" | "url";
+
+// The format the Accept header prefers: raw MP3 for audio/mpeg or audio/*, otherwise
+// JSON with the clip's URL. Ties go to the first listed type.
+function negotiateFormat(accept: string | null): ResponseFormat {
+  let format: ResponseFormat = "url";
+  let bestQuality = 0;
 
+  for (const entry of (accept ?? "").split(",")) {
+    const [type, ...params] = entry.trim().toLowerCase().split(";");
+    const quality = Number(params.map((param) => param.trim()).find((param) => param.startsWith("q="))?.slice(2) ?? 1);
+    const candidate: ResponseFormat | null =
+      type === "audio/mpeg" || type === "audio/*" ? "audio" : type === "application/json" || type === "*/*" ? "url" : null;
+
+    if (candidate && quality > bestQuality) {
+      format = candidate;
+      bestQuality = quality;
+    }
+  }
+  return format;
+}
+
+// Voices a line through the shared TTS cache. Content negotiation picks the answer:
+// `Accept: audio/mpeg` gets the MP3 bytes, streamed as they are rendered, or a redirect
+// to the stored clip; anything else gets { url, durationMs, cached, timing }.
+// Viewers can only voice the show's own static lines, so the public endpoint never
+// stores arbitrary text in the public bucket.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { text, hostType } = await req.json();
-    const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
-    
-    if (!ELEVENLABS_API_KEY) {
-      throw new Error("ELEVENLABS_API_KEY is not configured");
+    const { text, hostType, stream } = await req.json();
+
+    if (typeof text !== "string" || !text.trim()) {
+      return new Response(JSON.stringify({ error: "Text is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
-    if (!text) {
-      throw new Error("Text is required");
+    // Voices belong to whichever hosts are active in the hosts table
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const cast = await fetchHostCast(supabase);
+    const slot = hostType === "announcer" ? "announcer" : hostType === "A" ? "A" : "B";
+    const voice = voiceProfile(cast, slot);
+
+    if (!isStaff(await fetchCallerRole(req))) {
+      const lines = await cachedStaticLines(supabase, cast);
+      if (!lines.some((line) => line.voice === slot && line.text === text)) {
+        return new Response(JSON.stringify({ error: "Only the show's own lines can be voiced" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
     }
 
-    const voiceId = hostType === "announcer" 
-      ? VOICE_IDS.announcer 
-      : hostType === "A" ? VOICE_IDS.hostA : VOICE_IDS.hostB;
+    // Audio passes MP3 frames through as ElevenLabs renders them, and fills the cache
+    // on the way. A line that is already cached is a redirect to its public URL, so
+    // the bytes come from the storage CDN rather than through this function.
+    // `stream: true` in the body still asks for audio, for callers predating negotiation.
+    if (stream === true || negotiateFormat(req.headers.get("Accept")) === "audio") {
+      const key = await speechCacheKey(text, voice);
+      const hit = await findCachedSpeech(supabase, key);
 
-    console.log(`Generating TTS for ${hostType} with voice ${voiceId}`);
+      console.log(`TTS audio ${key} ${hit ? "redirected to cache" : "synthesizing"}`);
 
-    const response = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128`,
-      {
-        method: "POST",
-        headers: {
-          "xi-api-key": ELEVENLABS_API_KEY,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text,
-          model_id: "eleven_turbo_v2_5",
-          voice_settings: {
-            stability: hostType === "announcer" ? 0.8 : hostType === "A" ? 0.3 : 0.7,
-            similarity_boost: 0.75,
-            style: hostType === "announcer" ? 0.2 : hostType === "A" ? 0.7 : 0.3,
-            use_speaker_boost: true,
-            speed: hostType === "announcer" ? 1.0 : hostType === "A" ? 1.1 : 0.95,
+      if (hit) {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            ...corsHeaders,
+            Location: hit.url,
+            "Cache-Control": "no-store",
+            "X-TTS-Cache": "hit",
+            "X-Audio-Duration-Ms": String(hit.durationMs),
           },
-        }),
+        });
       }
-    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("ElevenLabs error:", response.status, errorText);
-      throw new Error(`ElevenLabs error: ${response.status}`);
+      return new Response(cachingStream(supabase, key, await streamSpeech(text, voice)), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "audio/mpeg",
+          "Cache-Control": "no-store",
+          "X-TTS-Cache": "miss",
+        },
+      });
     }
 
-    const audioBuffer = await response.arrayBuffer();
-    const base64Audio = base64Encode(audioBuffer);
+    const speech = await cachedSpeech(supabase, text, voice);
 
-    console.log("TTS generation successful, audio size:", audioBuffer.byteLength);
+    console.log(`TTS ${speech.cached ? "cache hit" : "generated"}:`, speech.url);
 
-    return new Response(JSON.stringify({ audioContent: base64Audio }), {
+    return new Response(JSON.stringify(speech), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error: unknown) {
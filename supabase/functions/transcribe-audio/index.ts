@@ -1,5 +1,6 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { transcribeAudio } from "../_shared/transcribe.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,12 +19,8 @@ serve(async (req) => {
       throw new Error("No audio data provided");
     }
 
-    const ELEVENLABS_API_KEY = Deno.env.get("ELEVENLABS_API_KEY");
-    if (!ELEVENLABS_API_KEY) {
-      throw new Error("ElevenLabs API key not configured");
-    }
-
-    // Extract base64 data (remove data URL prefix if present)
+    // Extract base64 data and its type (remove data URL prefix if present)
+    const contentType = audio.match(/^data:([^;,]+)/)?.[1] ?? "audio/webm";
     const base64Data = audio.includes(",") ? audio.split(",")[1] : audio;
     
     // Convert base64 to binary
@@ -33,33 +30,12 @@ serve(async (req) => {
       bytes[i] = binaryString.charCodeAt(i);
     }
 
-    // Create form data for ElevenLabs API
-    const formData = new FormData();
-    const blob = new Blob([bytes], { type: "audio/webm" });
-    formData.append("file", blob, "audio.webm");
-    formData.append("model_id", "scribe_v1");
-
-    console.log("Sending audio to ElevenLabs for transcription...");
-
-    const response = await fetch("https://api.elevenlabs.io/v1/speech-to-text", {
-      method: "POST",
-      headers: {
-        "xi-api-key": ELEVENLABS_API_KEY,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("ElevenLabs API error:", errorText);
-      throw new Error(`ElevenLabs API error: ${response.status}`);
-    }
-
-    const result = await response.json();
-    console.log("Transcription result:", result);
+    console.log("Sending audio for transcription...");
+    const text = await transcribeAudio(bytes, contentType);
+    console.log("Transcription result:", text);
 
     return new Response(
-      JSON.stringify({ text: result.text || "" }),
+      JSON.stringify({ text }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error: unknown) {
@@ -0,0 +1,74 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { hashClientIp } from "../_shared/client-ip.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+type VoteErrorCode = "invalid_request" | "persona_not_found" | "already_voted" | "ip_quota";
+
+const ERRORS: Record<VoteErrorCode, { status: number; message: string }> = {
+  invalid_request: { status: 400, message: "Invalid vote" },
+  persona_not_found: { status: 404, message: "Persona not found" },
+  already_voted: { status: 409, message: "You've already voted for the next roast" },
+  ip_quota: { status: 429, message: "Too many votes from your network for the next roast" },
+};
+
+function errorResponse(code: VoteErrorCode, message = ERRORS[code].message, extra: Record<string, unknown> = {}): Response {
+  return new Response(JSON.stringify({ error: message, code, ...extra }), {
+    status: ERRORS[code].status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Audience votes for the audience_voted persona strategy. One vote per voter until the
+// next persona is picked, and a cap per network address (show_config.max_votes_per_ip).
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { personaId, voterId } = await req.json().catch(() => ({}));
+
+    if (typeof personaId !== "string" || !UUID_PATTERN.test(personaId)) {
+      return errorResponse("invalid_request", "personaId must be a UUID");
+    }
+    if (typeof voterId !== "string" || !CLIENT_ID_PATTERN.test(voterId)) {
+      return errorResponse("invalid_request", "voterId is missing or malformed");
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data, error } = await supabase.rpc("cast_persona_vote", {
+      p_persona_id: personaId,
+      p_voter_id: voterId,
+      p_ip_hash: await hashClientIp(req),
+    });
+
+    if (error) throw error;
+
+    if (!data.ok) {
+      const code = data.code as VoteErrorCode;
+      return errorResponse(code, ERRORS[code].message, data.limit != null ? { limit: data.limit } : {});
+    }
+
+    console.log(`Recorded vote for persona ${personaId}`);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    console.error("Error recording vote:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,80 @@
+-- Server-authoritative round scheduler.
+-- Session transitions are driven by a single pg_cron job instead of every open browser tab.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Archive stray duplicates left behind by racing browser pollers, keeping the newest active session
+UPDATE public.roast_sessions
+SET status = 'ARCHIVED'
+WHERE status IN ('OPEN', 'LOCKED', 'LIVE')
+  AND id <> (
+    SELECT id FROM public.roast_sessions
+    WHERE status IN ('OPEN', 'LOCKED', 'LIVE')
+    ORDER BY created_at DESC
+    LIMIT 1
+  );
+
+-- At most one session may be active at a time
+CREATE UNIQUE INDEX IF NOT EXISTS roast_sessions_single_active
+ON public.roast_sessions ((true))
+WHERE status IN ('OPEN', 'LOCKED', 'LIVE');
+
+-- Atomically move a session from one status to another.
+-- The row lock guarantees two concurrent ticks can never move the same session twice:
+-- the loser either skips the locked row or finds the status already changed.
+CREATE OR REPLACE FUNCTION public.transition_session_status(
+  p_session_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id
+  FROM public.roast_sessions
+  WHERE id = p_session_id
+    AND status = p_from_status
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.roast_sessions
+  SET status = p_to_status
+  WHERE id = v_id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_session_status(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.transition_session_status(UUID, TEXT, TEXT) TO service_role;
+
+-- Tick the session-manager edge function every 5 seconds.
+-- Requires two Vault secrets:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+SELECT cron.unschedule('session-manager-tick')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'session-manager-tick');
+
+SELECT cron.schedule(
+  'session-manager-tick',
+  '5 seconds',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/session-manager',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('source', 'cron')
+  );
+  $$
+);
@@ -0,0 +1,64 @@
+-- Explicit round state machine for global_round_state.
+-- Viewers get read-only access; only service-role edge functions move the round forward.
+
+ALTER TABLE public.global_round_state
+DROP CONSTRAINT IF EXISTS global_round_state_round_state_check;
+
+ALTER TABLE public.global_round_state
+ADD CONSTRAINT global_round_state_round_state_check
+CHECK (round_state IN ('WAITING', 'SUBMITTING', 'LOCKED', 'LIVE', 'COOLDOWN'));
+
+-- Allowed phase changes within a single round.
+-- Keep in sync with ROUND_TRANSITIONS in supabase/functions/_shared/round-state.ts
+CREATE OR REPLACE FUNCTION public.is_valid_round_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_from = p_to OR (p_from, p_to) IN (
+    ('WAITING', 'SUBMITTING'),
+    ('SUBMITTING', 'LOCKED'),
+    ('SUBMITTING', 'WAITING'),
+    ('LOCKED', 'LIVE'),
+    ('LOCKED', 'WAITING'),
+    ('LIVE', 'COOLDOWN'),
+    ('LIVE', 'WAITING'),
+    ('COOLDOWN', 'SUBMITTING'),
+    ('COOLDOWN', 'WAITING')
+  );
+$$;
+
+-- Reject invalid transitions. Switching to a different session starts a new round,
+-- so only phase changes for the same session are validated.
+CREATE OR REPLACE FUNCTION public.validate_global_round_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.session_id IS NOT DISTINCT FROM OLD.session_id
+    AND NOT public.is_valid_round_transition(OLD.round_state, NEW.round_state) THEN
+    RAISE EXCEPTION 'Invalid round transition % -> % for session %',
+      OLD.round_state, NEW.round_state, NEW.session_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_global_round_transition ON public.global_round_state;
+
+CREATE TRIGGER validate_global_round_transition
+BEFORE UPDATE ON public.global_round_state
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_global_round_transition();
+
+-- Viewers can no longer write the round state directly
+DROP POLICY IF EXISTS "Anyone can update global round state" ON public.global_round_state;
+DROP POLICY IF EXISTS "Anyone can insert global round state" ON public.global_round_state;
+DROP POLICY IF EXISTS "Anyone can delete global round state" ON public.global_round_state;
+
+-- Progress still advances when a message is marked used, so the trigger
+-- must bypass RLS now that anon has no UPDATE policy on global_round_state
+ALTER FUNCTION public.increment_global_round_progress_on_message_used() SECURITY DEFINER;
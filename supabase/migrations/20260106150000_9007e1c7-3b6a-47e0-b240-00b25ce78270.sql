@@ -0,0 +1,44 @@
+-- COOLDOWN and UP_NEXT intermission phases.
+-- LIVE -> COOLDOWN (recap) -> UP_NEXT (next KOL reveal) -> SUBMITTING
+
+-- The next KOL waits in QUEUED until UP_NEXT ends
+ALTER TABLE public.roast_sessions
+DROP CONSTRAINT IF EXISTS roast_sessions_status_check;
+
+ALTER TABLE public.roast_sessions
+ADD CONSTRAINT roast_sessions_status_check
+CHECK (status IN ('QUEUED', 'OPEN', 'LOCKED', 'LIVE', 'ARCHIVED'));
+
+ALTER TABLE public.global_round_state
+DROP CONSTRAINT IF EXISTS global_round_state_round_state_check;
+
+ALTER TABLE public.global_round_state
+ADD CONSTRAINT global_round_state_round_state_check
+CHECK (round_state IN ('WAITING', 'UP_NEXT', 'SUBMITTING', 'LOCKED', 'LIVE', 'COOLDOWN'));
+
+-- When the current timed phase (COOLDOWN / UP_NEXT) is over
+ALTER TABLE public.global_round_state
+ADD COLUMN IF NOT EXISTS phase_ends_at TIMESTAMP WITH TIME ZONE;
+
+-- Keep in sync with ROUND_TRANSITIONS in supabase/functions/_shared/round-state.ts
+CREATE OR REPLACE FUNCTION public.is_valid_round_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT p_from = p_to OR (p_from, p_to) IN (
+    ('WAITING', 'UP_NEXT'),
+    ('WAITING', 'SUBMITTING'),
+    ('UP_NEXT', 'SUBMITTING'),
+    ('UP_NEXT', 'WAITING'),
+    ('SUBMITTING', 'LOCKED'),
+    ('SUBMITTING', 'WAITING'),
+    ('LOCKED', 'LIVE'),
+    ('LOCKED', 'WAITING'),
+    ('LIVE', 'COOLDOWN'),
+    ('LIVE', 'WAITING'),
+    ('COOLDOWN', 'UP_NEXT'),
+    ('COOLDOWN', 'WAITING')
+  );
+$$;
@@ -0,0 +1,75 @@
+-- Show pacing lives in the database so producers can retune it without a deploy.
+-- Single row; edge functions and the client fall back to the same defaults if it is missing.
+CREATE TABLE public.show_config (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  submit_window_seconds INTEGER NOT NULL DEFAULT 120 CHECK (submit_window_seconds > 0),
+  lock_grace_seconds INTEGER NOT NULL DEFAULT 10 CHECK (lock_grace_seconds >= 0),
+  max_live_seconds INTEGER NOT NULL DEFAULT 300 CHECK (max_live_seconds > 0),
+  cooldown_seconds INTEGER NOT NULL DEFAULT 15 CHECK (cooldown_seconds >= 0),
+  up_next_seconds INTEGER NOT NULL DEFAULT 10 CHECK (up_next_seconds >= 0),
+  max_roasts_per_user INTEGER NOT NULL DEFAULT 3 CHECK (max_roasts_per_user > 0),
+  max_roasts_per_round INTEGER CHECK (max_roasts_per_round IS NULL OR max_roasts_per_round > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.show_config (id) VALUES (true);
+
+ALTER TABLE public.show_config ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read the pacing (countdowns and submission caps are shown in the UI)
+CREATE POLICY "Anyone can read show config"
+ON public.show_config
+FOR SELECT
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.update_show_config_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_show_config_updated_at
+BEFORE UPDATE ON public.show_config
+FOR EACH ROW
+EXECUTE FUNCTION public.update_show_config_updated_at();
+
+-- Reject submissions once a round is full (NULL = no cap)
+CREATE OR REPLACE FUNCTION public.enforce_max_roasts_per_round()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max INTEGER;
+  v_count INTEGER;
+BEGIN
+  SELECT max_roasts_per_round INTO v_max FROM public.show_config LIMIT 1;
+
+  IF v_max IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM public.roast_messages
+  WHERE session_id = NEW.session_id;
+
+  IF v_count >= v_max THEN
+    RAISE EXCEPTION 'Round is full (% roasts)', v_max
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_max_roasts_per_round ON public.roast_messages;
+
+CREATE TRIGGER enforce_max_roasts_per_round
+BEFORE INSERT ON public.roast_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_max_roasts_per_round();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.show_config;
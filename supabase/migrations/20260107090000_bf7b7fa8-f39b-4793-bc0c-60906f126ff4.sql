@@ -0,0 +1,100 @@
+-- Session calendar: producers queue future sessions into an ordered lineup.
+-- QUEUED sessions are promoted by session-manager in lineup order once their start_time is due.
+
+ALTER TABLE public.roast_sessions
+ADD COLUMN IF NOT EXISTS lineup_position INTEGER,
+ADD COLUMN IF NOT EXISTS is_special BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS episode_title TEXT;
+
+-- For QUEUED sessions start_time means "not before"; the real start is set when the session opens
+COMMENT ON COLUMN public.roast_sessions.start_time IS
+  'Actual start for OPEN and later sessions; earliest allowed start while QUEUED';
+
+CREATE INDEX IF NOT EXISTS roast_sessions_lineup
+ON public.roast_sessions (lineup_position, start_time)
+WHERE status = 'QUEUED';
+
+-- How many sessions session-manager keeps queued so the lineup never runs dry
+ALTER TABLE public.show_config
+ADD COLUMN IF NOT EXISTS lineup_size INTEGER NOT NULL DEFAULT 5 CHECK (lineup_size >= 0);
+
+-- Append a session for the given persona to the end of the lineup
+CREATE OR REPLACE FUNCTION public.schedule_session(
+  p_persona_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  p_is_special BOOLEAN DEFAULT false,
+  p_episode_title TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_persona public.personas%ROWTYPE;
+  v_position INTEGER;
+  v_session_id UUID;
+BEGIN
+  SELECT * INTO v_persona FROM public.personas WHERE id = p_persona_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Persona % not found', p_persona_id;
+  END IF;
+
+  -- Serialize appends so two callers never get the same position
+  PERFORM pg_advisory_xact_lock(hashtext('public.schedule_session'));
+
+  SELECT COALESCE(MAX(lineup_position), 0) + 1 INTO v_position
+  FROM public.roast_sessions
+  WHERE status = 'QUEUED';
+
+  INSERT INTO public.roast_sessions (
+    persona_id, persona_name, persona_avatar, status, start_time,
+    lineup_position, is_special, episode_title
+  )
+  VALUES (
+    v_persona.id, v_persona.username, v_persona.profile_pic_url, 'QUEUED', COALESCE(p_start_time, now()),
+    v_position, COALESCE(p_is_special, false), p_episode_title
+  )
+  RETURNING id INTO v_session_id;
+
+  RETURN v_session_id;
+END;
+$$;
+
+-- Put the given QUEUED sessions first, in the given order.
+-- Queued sessions not in the list keep their relative order after them.
+CREATE OR REPLACE FUNCTION public.reorder_lineup(p_session_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH ordered AS (
+    SELECT
+      s.id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          array_position(p_session_ids, s.id) NULLS LAST,
+          s.lineup_position NULLS LAST,
+          s.start_time
+      ) AS position
+    FROM public.roast_sessions s
+    WHERE s.status = 'QUEUED'
+  )
+  UPDATE public.roast_sessions s
+  SET lineup_position = ordered.position
+  FROM ordered
+  WHERE s.id = ordered.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_session(UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_session(UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN, TEXT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.reorder_lineup(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reorder_lineup(UUID[]) TO service_role;
+
+-- Existing queued sessions join the lineup in start order
+SELECT public.reorder_lineup(ARRAY[]::UUID[]);
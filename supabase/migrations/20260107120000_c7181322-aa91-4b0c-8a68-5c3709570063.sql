@@ -0,0 +1,37 @@
+-- Next-persona selection policy, used by session-manager when it tops up the lineup.
+-- See supabase/functions/_shared/persona-selection.ts for the strategies.
+
+ALTER TABLE public.show_config
+ADD COLUMN IF NOT EXISTS persona_strategy TEXT NOT NULL DEFAULT 'least_recently_roasted'
+  CHECK (persona_strategy IN ('round_robin', 'weighted_random', 'least_recently_roasted', 'audience_voted')),
+ADD COLUMN IF NOT EXISTS persona_cooldown_sessions INTEGER NOT NULL DEFAULT 10
+  CHECK (persona_cooldown_sessions >= 0);
+
+-- Relative odds for the weighted_random strategy (0 = never picked at random)
+ALTER TABLE public.personas
+ADD COLUMN IF NOT EXISTS selection_weight NUMERIC NOT NULL DEFAULT 1 CHECK (selection_weight >= 0);
+
+-- Audience votes for who gets roasted next (audience_voted strategy).
+-- A vote counts until the persona is next scheduled.
+CREATE TABLE public.persona_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  persona_id UUID NOT NULL REFERENCES public.personas(id) ON DELETE CASCADE,
+  voter_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX persona_votes_created_at ON public.persona_votes (created_at);
+
+ALTER TABLE public.persona_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view persona votes"
+ON public.persona_votes
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can vote for a persona"
+ON public.persona_votes
+FOR INSERT
+WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.persona_votes;
@@ -0,0 +1,91 @@
+-- Live exchanges are produced by the show-runner edge function instead of an elected host browser.
+-- The runner publishes each exchange; every browser just renders what it publishes.
+
+-- What an exchange is: an audience roast, the no-roasts line or the outro
+ALTER TABLE public.roast_exchanges
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'roast' CHECK (kind IN ('roast', 'no_roasts', 'outro'));
+
+COMMENT ON COLUMN public.roast_exchanges.user_audio_url IS
+  'Voice clip for voice submissions, announcer reading for text submissions. NULL for host-only segments.';
+
+-- A rerun after a crash must not air the same roast or sequence number twice
+CREATE UNIQUE INDEX IF NOT EXISTS roast_exchanges_session_sequence
+ON public.roast_exchanges (session_id, sequence_number);
+
+CREATE UNIQUE INDEX IF NOT EXISTS roast_exchanges_message
+ON public.roast_exchanges (message_id)
+WHERE message_id IS NOT NULL;
+
+-- Only the runner writes exchanges, host audio and used flags now
+DROP POLICY IF EXISTS "Anyone can insert exchanges" ON public.roast_exchanges;
+DROP POLICY IF EXISTS "Anyone can mark messages used in live sessions" ON public.roast_messages;
+DROP POLICY IF EXISTS "Allow inserts to host audio" ON storage.objects;
+
+-- Runner bookkeeping on sessions
+ALTER TABLE public.roast_sessions
+  ADD COLUMN IF NOT EXISTS runner_lease_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS timeline_completed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.roast_sessions.timeline_completed_at IS
+  'Set once the runner has published the outro. The round ends when the last exchange has aired.';
+
+-- Claim a LIVE session for one runner invocation.
+-- Overlapping cron ticks lose the race and return false; an expired lease can be taken over.
+CREATE OR REPLACE FUNCTION public.acquire_show_runner_lease(
+  p_session_id UUID,
+  p_lease_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.roast_sessions
+  SET runner_lease_until = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_session_id
+    AND status = 'LIVE'
+    AND timeline_completed_at IS NULL
+    AND (runner_lease_until IS NULL OR runner_lease_until < now());
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_show_runner_lease(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.roast_sessions
+  SET runner_lease_until = NULL
+  WHERE id = p_session_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_show_runner_lease(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_show_runner_lease(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.acquire_show_runner_lease(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_show_runner_lease(UUID) TO service_role;
+
+-- Drive the runner alongside session-manager
+SELECT cron.unschedule('show-runner-tick')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'show-runner-tick');
+
+SELECT cron.schedule(
+  'show-runner-tick',
+  '5 seconds',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/show-runner',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('source', 'cron'),
+    timeout_milliseconds := 150000
+  );
+  $$
+);
@@ -0,0 +1,89 @@
+-- Persisted LIVE timeline: one row per segment with its real duration and absolute start,
+-- so a viewer joining mid-round can seek straight to the current position.
+
+CREATE TABLE public.show_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.roast_sessions(id) ON DELETE CASCADE,
+  exchange_id UUID REFERENCES public.roast_exchanges(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position > 0),
+  kind TEXT NOT NULL CHECK (kind IN ('voice_clip', 'announcer', 'host_reaction', 'sfx', 'no_roasts', 'outro')),
+  speaker TEXT CHECK (speaker IN ('user', 'hostA', 'hostB')),
+  text TEXT,
+  audio_url TEXT,
+  duration_ms INTEGER NOT NULL CHECK (duration_ms > 0),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, position),
+  CHECK (ends_at > starts_at)
+);
+
+COMMENT ON COLUMN public.show_segments.speaker IS 'Who is on screen. NULL for sound effects.';
+
+CREATE INDEX show_segments_session_starts_at ON public.show_segments (session_id, starts_at);
+
+ALTER TABLE public.show_segments ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read the timeline; only the show runner writes it
+CREATE POLICY "Anyone can view show segments" ON public.show_segments
+  FOR SELECT USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.show_segments;
+
+-- Length of a recorded voice clip, measured by the recorder
+ALTER TABLE public.roast_messages
+  ADD COLUMN IF NOT EXISTS audio_duration_ms INTEGER CHECK (audio_duration_ms > 0);
+
+-- Publish one exchange together with its timeline segments.
+-- Either both land or neither does, so a crashed run never leaves an exchange off air.
+CREATE OR REPLACE FUNCTION public.publish_exchange(
+  p_session_id UUID,
+  p_exchange JSONB,
+  p_segments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exchange_id UUID;
+BEGIN
+  INSERT INTO public.roast_exchanges (
+    session_id, message_id, kind, user_transcript, user_audio_url,
+    host_type, host_response, host_audio_url, sequence_number
+  )
+  VALUES (
+    p_session_id,
+    (p_exchange->>'message_id')::UUID,
+    p_exchange->>'kind',
+    p_exchange->>'user_transcript',
+    p_exchange->>'user_audio_url',
+    p_exchange->>'host_type',
+    p_exchange->>'host_response',
+    p_exchange->>'host_audio_url',
+    (p_exchange->>'sequence_number')::INTEGER
+  )
+  RETURNING id INTO v_exchange_id;
+
+  INSERT INTO public.show_segments (
+    session_id, exchange_id, position, kind, speaker, text, audio_url, duration_ms, starts_at, ends_at
+  )
+  SELECT p_session_id, v_exchange_id, s.position, s.kind, s.speaker, s.text, s.audio_url, s.duration_ms, s.starts_at, s.ends_at
+  FROM jsonb_to_recordset(p_segments) AS s(
+    position INTEGER,
+    kind TEXT,
+    speaker TEXT,
+    text TEXT,
+    audio_url TEXT,
+    duration_ms INTEGER,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE
+  );
+
+  RETURN v_exchange_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_exchange(UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_exchange(UUID, JSONB, JSONB) TO service_role;
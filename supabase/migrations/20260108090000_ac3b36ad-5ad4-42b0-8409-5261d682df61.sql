@@ -0,0 +1,166 @@
+-- Leader election for synchronized playback.
+-- One browser tab per session holds a short lease and publishes playback state;
+-- every other tab follows. Leadership used to be enforced only in app logic.
+
+-- Public leader bookkeeping and an ordering counter for followers
+ALTER TABLE public.session_playback_state
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS current_line TEXT
+    CHECK (current_line ~ '^(idle:[AB]:[0-9]{1,4}|countdown:[0-9]{1,4})$');
+
+COMMENT ON COLUMN public.session_playback_state.host_id IS
+  'Public client id of the leader tab. Proving leadership requires the private lease token.';
+COMMENT ON COLUMN public.session_playback_state.version IS
+  'Incremented on every published state and leader change. Followers ignore older versions.';
+COMMENT ON COLUMN public.session_playback_state.current_line IS
+  'Key of the static chatter line the leader is voicing. Followers resolve it to their own copy of the line, so no tab can publish free text.';
+
+-- Lease tokens are never readable by clients: RLS on, no policies
+CREATE TABLE IF NOT EXISTS public.session_playback_leases (
+  session_id UUID NOT NULL PRIMARY KEY REFERENCES public.roast_sessions(id) ON DELETE CASCADE,
+  holder_id TEXT NOT NULL,
+  token UUID NOT NULL DEFAULT gen_random_uuid(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.session_playback_leases ENABLE ROW LEVEL SECURITY;
+
+-- Only the RPCs below write playback state
+DROP POLICY IF EXISTS "Anyone can insert playback state" ON public.session_playback_state;
+DROP POLICY IF EXISTS "Anyone can update playback state" ON public.session_playback_state;
+
+-- Renew the caller's lease, or take over one that is missing or expired.
+-- Returns the lease token while the caller leads, NULL when another tab does.
+CREATE OR REPLACE FUNCTION public.claim_playback_lease(
+  p_session_id UUID,
+  p_client_id TEXT,
+  p_token UUID DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 10
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expires TIMESTAMP WITH TIME ZONE := now() + make_interval(secs => LEAST(GREATEST(p_lease_seconds, 5), 60));
+  v_lease public.session_playback_leases%ROWTYPE;
+BEGIN
+  IF p_client_id IS NULL OR length(p_client_id) = 0 OR length(p_client_id) > 64 THEN
+    RAISE EXCEPTION 'Invalid client id';
+  END IF;
+
+  -- Heartbeat from the current leader
+  IF p_token IS NOT NULL THEN
+    UPDATE public.session_playback_leases
+    SET expires_at = v_expires
+    WHERE session_id = p_session_id
+      AND token = p_token
+      AND holder_id = p_client_id
+      AND expires_at > now();
+
+    IF FOUND THEN
+      UPDATE public.session_playback_state
+      SET lease_expires_at = v_expires
+      WHERE session_id = p_session_id;
+      RETURN p_token;
+    END IF;
+  END IF;
+
+  -- Take over a missing or expired lease
+  INSERT INTO public.session_playback_leases (session_id, holder_id, expires_at)
+  VALUES (p_session_id, p_client_id, v_expires)
+  ON CONFLICT (session_id) DO UPDATE
+  SET holder_id = EXCLUDED.holder_id,
+      token = gen_random_uuid(),
+      expires_at = EXCLUDED.expires_at
+  WHERE public.session_playback_leases.expires_at <= now()
+  RETURNING * INTO v_lease;
+
+  IF v_lease.token IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.session_playback_state (session_id, host_id, lease_expires_at, version)
+  VALUES (p_session_id, p_client_id, v_expires, 1)
+  ON CONFLICT (session_id) DO UPDATE
+  SET host_id = EXCLUDED.host_id,
+      lease_expires_at = EXCLUDED.lease_expires_at,
+      version = public.session_playback_state.version + 1,
+      updated_at = now();
+
+  RETURN v_lease.token;
+END;
+$$;
+
+-- Give up leadership so a follower can take over without waiting for expiry
+CREATE OR REPLACE FUNCTION public.release_playback_lease(p_session_id UUID, p_token UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.session_playback_leases
+  SET expires_at = now()
+  WHERE session_id = p_session_id AND token = p_token;
+
+  IF FOUND THEN
+    UPDATE public.session_playback_state
+    SET lease_expires_at = now()
+    WHERE session_id = p_session_id;
+  END IF;
+END;
+$$;
+
+-- Apply a partial state update from the leader. Keys missing from p_state keep
+-- their value. Returns the new version, or NULL when the token no longer leads.
+-- Chatter goes out as a current_line key; the free-text speaker, text and audio
+-- columns are not publishable, since any viewer can hold the lease.
+CREATE OR REPLACE FUNCTION public.publish_playback_state(
+  p_session_id UUID,
+  p_token UUID,
+  p_state JSONB
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version BIGINT;
+BEGIN
+  PERFORM 1
+  FROM public.session_playback_leases
+  WHERE session_id = p_session_id
+    AND token = p_token
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.session_playback_state
+  SET current_index = CASE WHEN p_state ? 'current_index' THEN (p_state->>'current_index')::INTEGER ELSE current_index END,
+      phase = CASE WHEN p_state ? 'phase' THEN COALESCE(p_state->>'phase', 'idle') ELSE phase END,
+      current_line = CASE WHEN p_state ? 'current_line' THEN p_state->>'current_line' ELSE current_line END,
+      audio_started_at = CASE WHEN p_state ? 'audio_started_at' THEN (p_state->>'audio_started_at')::TIMESTAMP WITH TIME ZONE ELSE audio_started_at END,
+      host_turn = CASE WHEN p_state ? 'host_turn' THEN p_state->>'host_turn' ELSE host_turn END,
+      roast_number = CASE WHEN p_state ? 'roast_number' THEN (p_state->>'roast_number')::INTEGER ELSE roast_number END,
+      is_playing = CASE WHEN p_state ? 'is_playing' THEN (p_state->>'is_playing')::BOOLEAN ELSE is_playing END,
+      version = version + 1,
+      updated_at = now()
+  WHERE session_id = p_session_id
+  RETURNING version INTO v_version;
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_playback_lease(UUID, TEXT, UUID, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.release_playback_lease(UUID, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.publish_playback_state(UUID, UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_playback_lease(UUID, TEXT, UUID, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.release_playback_lease(UUID, UUID) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.publish_playback_state(UUID, UUID, JSONB) TO anon, authenticated, service_role;
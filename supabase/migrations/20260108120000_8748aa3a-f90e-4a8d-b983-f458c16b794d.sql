@@ -0,0 +1,105 @@
+-- Submissions go through the submit-roast edge function, which enforces
+-- per-client and per-IP quotas. Direct anonymous inserts are no longer allowed.
+
+DROP POLICY IF EXISTS "Anyone can submit messages to open sessions" ON public.roast_messages;
+
+ALTER TABLE public.show_config
+  ADD COLUMN IF NOT EXISTS max_roasts_per_ip INTEGER NOT NULL DEFAULT 10 CHECK (max_roasts_per_ip > 0);
+
+COMMENT ON COLUMN public.show_config.max_roasts_per_ip IS
+  'Per-round cap for one network address. Higher than max_roasts_per_user so shared networks still work.';
+
+-- Who submitted what. Kept out of roast_messages, which everyone can read.
+-- RLS on with no policies: only the service role sees it.
+CREATE TABLE IF NOT EXISTS public.roast_submissions (
+  message_id UUID NOT NULL PRIMARY KEY REFERENCES public.roast_messages(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES public.roast_sessions(id) ON DELETE CASCADE,
+  client_id TEXT NOT NULL,
+  ip_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_roast_submissions_session_client
+  ON public.roast_submissions (session_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_roast_submissions_session_ip
+  ON public.roast_submissions (session_id, ip_hash);
+
+ALTER TABLE public.roast_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Check the session and both quotas, then insert the message and its ledger row.
+-- Submissions for one session are serialized so concurrent requests cannot
+-- overshoot a quota. Returns {ok, message_id, remaining} or {ok: false, code}.
+CREATE OR REPLACE FUNCTION public.submit_roast_message(
+  p_session_id UUID,
+  p_client_id TEXT,
+  p_ip_hash TEXT,
+  p_transcript TEXT,
+  p_audio_url TEXT,
+  p_audio_duration_ms INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_max_per_user INTEGER;
+  v_max_per_ip INTEGER;
+  v_client_count INTEGER;
+  v_ip_count INTEGER;
+  v_message_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('submit_roast:' || p_session_id::TEXT));
+
+  SELECT status INTO v_status FROM public.roast_sessions WHERE id = p_session_id;
+  IF v_status IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'session_not_found');
+  END IF;
+  IF v_status <> 'OPEN' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'session_closed');
+  END IF;
+
+  SELECT COALESCE(max(max_roasts_per_user), 3), COALESCE(max(max_roasts_per_ip), 10)
+  INTO v_max_per_user, v_max_per_ip
+  FROM public.show_config;
+
+  SELECT count(*) INTO v_client_count
+  FROM public.roast_submissions
+  WHERE session_id = p_session_id AND client_id = p_client_id;
+
+  IF v_client_count >= v_max_per_user THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'client_quota', 'limit', v_max_per_user);
+  END IF;
+
+  SELECT count(*) INTO v_ip_count
+  FROM public.roast_submissions
+  WHERE session_id = p_session_id AND ip_hash = p_ip_hash;
+
+  IF v_ip_count >= v_max_per_ip THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'ip_quota', 'limit', v_max_per_ip);
+  END IF;
+
+  BEGIN
+    INSERT INTO public.roast_messages (session_id, transcript, audio_url, audio_duration_ms)
+    VALUES (p_session_id, p_transcript, p_audio_url, p_audio_duration_ms)
+    RETURNING id INTO v_message_id;
+  EXCEPTION WHEN check_violation THEN
+    -- enforce_max_roasts_per_round
+    RETURN jsonb_build_object('ok', false, 'code', 'round_full');
+  END;
+
+  INSERT INTO public.roast_submissions (message_id, session_id, client_id, ip_hash)
+  VALUES (v_message_id, p_session_id, p_client_id, p_ip_hash);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'message_id', v_message_id,
+    'remaining', v_max_per_user - v_client_count - 1,
+    'limit', v_max_per_user
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_roast_message(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_roast_message(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER) TO service_role;
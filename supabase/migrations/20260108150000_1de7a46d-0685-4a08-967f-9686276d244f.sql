@@ -0,0 +1,83 @@
+-- Audience voice clips move out of roast_messages.audio_url (base64 data URLs)
+-- and into the submission-audio bucket. Only submit-roast uploads, with the service role.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'submission-audio',
+  'submission-audio',
+  true,
+  1048576,
+  ARRAY['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Public read access for submission audio"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'submission-audio');
+
+-- Swap a migrated clip's data URL for its storage URL everywhere it was copied:
+-- the message, the exchange built from it and that exchange's voice clip segment.
+CREATE OR REPLACE FUNCTION public.replace_submission_audio_url(p_message_id UUID, p_audio_url TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.roast_messages
+  SET audio_url = p_audio_url
+  WHERE id = p_message_id AND audio_url LIKE 'data:%';
+
+  UPDATE public.show_segments s
+  SET audio_url = p_audio_url
+  FROM public.roast_exchanges e
+  WHERE s.exchange_id = e.id
+    AND e.message_id = p_message_id
+    AND s.kind = 'voice_clip'
+    AND s.audio_url LIKE 'data:%';
+
+  UPDATE public.roast_exchanges
+  SET user_audio_url = p_audio_url
+  WHERE message_id = p_message_id AND user_audio_url LIKE 'data:%';
+END;
+$$;
+
+-- Called by migrate-submission-audio once no inline clips are left
+CREATE OR REPLACE FUNCTION public.finish_submission_audio_migration()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM cron.unschedule('migrate-submission-audio')
+  WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'migrate-submission-audio');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_submission_audio_url(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_submission_audio_migration() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_submission_audio_url(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_submission_audio_migration() TO service_role;
+
+-- Move existing inline clips in batches until none are left
+SELECT cron.unschedule('migrate-submission-audio')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'migrate-submission-audio');
+
+SELECT cron.schedule(
+  'migrate-submission-audio',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/migrate-submission-audio',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('source', 'cron'),
+    timeout_milliseconds := 60000
+  );
+  $$
+);
@@ -0,0 +1,188 @@
+-- Moderation between submission and the LIVE queue.
+-- submit-roast moderates inline; moderate-roasts retries anything left pending.
+
+-- Existing messages predate moderation and are grandfathered in as approved
+ALTER TABLE public.roast_messages
+  ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved'
+    CHECK (moderation_status IN ('pending', 'approved', 'rejected', 'flagged')),
+  ADD COLUMN IF NOT EXISTS moderation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS moderation_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.roast_messages ALTER COLUMN moderation_status SET DEFAULT 'pending';
+
+COMMENT ON COLUMN public.roast_messages.moderation_status IS
+  'pending until moderated. Only approved messages are visible to viewers and aired; flagged ones wait for a producer.';
+
+CREATE INDEX IF NOT EXISTS idx_roast_messages_queue
+  ON public.roast_messages (session_id, moderation_status, used, created_at);
+
+-- Viewers only ever see approved roasts
+DROP POLICY IF EXISTS "Anyone can view messages" ON public.roast_messages;
+
+CREATE POLICY "Anyone can view approved messages"
+ON public.roast_messages
+FOR SELECT
+USING (moderation_status = 'approved');
+
+-- Blocklist words and regex patterns (JavaScript syntax, matched case-insensitively
+-- by the edge functions). Private: RLS on, no policies.
+CREATE TABLE IF NOT EXISTS public.moderation_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('blocklist', 'regex')),
+  pattern TEXT NOT NULL,
+  action TEXT NOT NULL DEFAULT 'reject' CHECK (action IN ('reject', 'flag')),
+  note TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (kind, pattern)
+);
+
+ALTER TABLE public.moderation_rules ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.moderation_rules (kind, pattern, action, note) VALUES
+  ('regex', '\b(kill|shoot|stab)\s+(yo)?u(rself)?\b', 'reject', 'threat'),
+  ('regex', '\bkys\b', 'reject', 'self-harm'),
+  ('regex', '\b(home|house)\s+address\b', 'reject', 'doxxing'),
+  ('regex', '\b(lives|living)\s+(at|on)\s+\d+', 'reject', 'doxxing'),
+  ('regex', 'https?://', 'flag', 'link')
+ON CONFLICT (kind, pattern) DO NOTHING;
+
+-- Rejected roasts never take a slot in the round
+CREATE OR REPLACE FUNCTION public.enforce_max_roasts_per_round()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_max INTEGER;
+  v_count INTEGER;
+BEGIN
+  SELECT max_roasts_per_round INTO v_max FROM public.show_config LIMIT 1;
+
+  IF v_max IS NULL OR NEW.moderation_status = 'rejected' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) INTO v_count
+  FROM public.roast_messages
+  WHERE session_id = NEW.session_id
+    AND moderation_status <> 'rejected';
+
+  IF v_count >= v_max THEN
+    RAISE EXCEPTION 'Round is full (% roasts)', v_max
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, now storing the message's initial moderation status.
+-- submit-roast records the verdict right after; rejected roasts still count toward quotas.
+DROP FUNCTION IF EXISTS public.submit_roast_message(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.submit_roast_message(
+  p_session_id UUID,
+  p_client_id TEXT,
+  p_ip_hash TEXT,
+  p_transcript TEXT,
+  p_audio_url TEXT,
+  p_audio_duration_ms INTEGER,
+  p_moderation_status TEXT,
+  p_moderation_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_max_per_user INTEGER;
+  v_max_per_ip INTEGER;
+  v_client_count INTEGER;
+  v_ip_count INTEGER;
+  v_message_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('submit_roast:' || p_session_id::TEXT));
+
+  SELECT status INTO v_status FROM public.roast_sessions WHERE id = p_session_id;
+  IF v_status IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'session_not_found');
+  END IF;
+  IF v_status <> 'OPEN' THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'session_closed');
+  END IF;
+
+  SELECT COALESCE(max(max_roasts_per_user), 3), COALESCE(max(max_roasts_per_ip), 10)
+  INTO v_max_per_user, v_max_per_ip
+  FROM public.show_config;
+
+  SELECT count(*) INTO v_client_count
+  FROM public.roast_submissions
+  WHERE session_id = p_session_id AND client_id = p_client_id;
+
+  IF v_client_count >= v_max_per_user THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'client_quota', 'limit', v_max_per_user);
+  END IF;
+
+  SELECT count(*) INTO v_ip_count
+  FROM public.roast_submissions
+  WHERE session_id = p_session_id AND ip_hash = p_ip_hash;
+
+  IF v_ip_count >= v_max_per_ip THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'ip_quota', 'limit', v_max_per_ip);
+  END IF;
+
+  BEGIN
+    INSERT INTO public.roast_messages (
+      session_id, transcript, audio_url, audio_duration_ms,
+      moderation_status, moderation_reason, moderated_at
+    )
+    VALUES (
+      p_session_id, p_transcript, p_audio_url, p_audio_duration_ms,
+      p_moderation_status, p_moderation_reason,
+      CASE WHEN p_moderation_status = 'pending' THEN NULL ELSE now() END
+    )
+    RETURNING id INTO v_message_id;
+  EXCEPTION WHEN check_violation THEN
+    -- enforce_max_roasts_per_round
+    RETURN jsonb_build_object('ok', false, 'code', 'round_full');
+  END;
+
+  INSERT INTO public.roast_submissions (message_id, session_id, client_id, ip_hash)
+  VALUES (v_message_id, p_session_id, p_client_id, p_ip_hash);
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'message_id', v_message_id,
+    'moderation_status', p_moderation_status,
+    'remaining', v_max_per_user - v_client_count - 1,
+    'limit', v_max_per_user
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_roast_message(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_roast_message(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT) TO service_role;
+
+-- Retry moderation for messages the classifier could not reach
+SELECT cron.unschedule('moderate-roasts-tick')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'moderate-roasts-tick');
+
+SELECT cron.schedule(
+  'moderate-roasts-tick',
+  '5 seconds',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/moderate-roasts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('source', 'cron')
+  );
+  $$
+);
@@ -0,0 +1,187 @@
+-- Producer console: signed-in producers review and curate the roast queue.
+
+-- Roles granted to Supabase Auth users
+CREATE TYPE public.app_role AS ENUM ('producer');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own roles; roles are granted with the service role
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- SECURITY DEFINER so policies can call it without recursing into user_roles RLS
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id AND role = p_role
+  );
+$$;
+
+-- Curated queue order and review trail
+ALTER TABLE public.roast_messages
+  ADD COLUMN IF NOT EXISTS queue_position INTEGER,
+  ADD COLUMN IF NOT EXISTS original_transcript TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.roast_messages.queue_position IS
+  'Set by producers. The runner airs curated messages first, then the rest by created_at.';
+
+-- Producers see every message, whatever its moderation status
+CREATE POLICY "Producers can view all messages"
+ON public.roast_messages
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'));
+
+CREATE OR REPLACE FUNCTION public.require_producer()
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_role(auth.uid(), 'producer') THEN
+    RAISE EXCEPTION 'Producer role required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$;
+
+-- Keep global_round_state.total_roasts equal to the approved, unaired queue
+CREATE OR REPLACE FUNCTION public.refresh_round_total_roasts(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.global_round_state
+  SET total_roasts = (
+        SELECT count(*)
+        FROM public.roast_messages
+        WHERE session_id = p_session_id
+          AND moderation_status = 'approved'
+          AND used = false
+      ),
+      updated_at = now()
+  WHERE session_id = p_session_id;
+END;
+$$;
+
+-- Approve or reject a message that has not aired yet
+CREATE OR REPLACE FUNCTION public.review_roast_message(p_message_id UUID, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  PERFORM public.require_producer();
+
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid review status: %', p_status;
+  END IF;
+
+  UPDATE public.roast_messages
+  SET moderation_status = p_status,
+      moderation_reason = 'Reviewed by producer',
+      moderated_at = now(),
+      reviewed_by = auth.uid()
+  WHERE id = p_message_id AND used = false
+  RETURNING session_id INTO v_session_id;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Message not found or already aired';
+  END IF;
+
+  PERFORM public.refresh_round_total_roasts(v_session_id);
+END;
+$$;
+
+-- Fix up a transcript before it airs. The submitted text is kept once.
+CREATE OR REPLACE FUNCTION public.edit_roast_transcript(p_message_id UUID, p_transcript TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_producer();
+
+  IF p_transcript IS NULL OR length(trim(p_transcript)) = 0 OR length(p_transcript) > 500 THEN
+    RAISE EXCEPTION 'Transcript must be 1-500 characters';
+  END IF;
+
+  UPDATE public.roast_messages
+  SET original_transcript = COALESCE(original_transcript, transcript),
+      transcript = trim(p_transcript),
+      reviewed_by = auth.uid()
+  WHERE id = p_message_id AND used = false;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found or already aired';
+  END IF;
+END;
+$$;
+
+-- Curate the unaired queue of a session. Messages missing from the list keep
+-- their relative order after the listed ones, like reorder_lineup.
+CREATE OR REPLACE FUNCTION public.reorder_roast_queue(p_session_id UUID, p_message_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_producer();
+
+  WITH ordered AS (
+    SELECT
+      m.id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          array_position(p_message_ids, m.id) NULLS LAST,
+          m.queue_position NULLS LAST,
+          m.created_at
+      ) AS position
+    FROM public.roast_messages m
+    WHERE m.session_id = p_session_id AND m.used = false
+  )
+  UPDATE public.roast_messages m
+  SET queue_position = ordered.position
+  FROM ordered
+  WHERE m.id = ordered.id;
+
+  PERFORM public.refresh_round_total_roasts(p_session_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.require_producer() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.refresh_round_total_roasts(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_roast_message(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.edit_roast_transcript(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reorder_roast_queue(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.require_producer() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_round_total_roasts(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.review_roast_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.edit_roast_transcript(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reorder_roast_queue(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,217 @@
+-- Role model: viewer, producer, service.
+--   viewer   anyone else, signed in or not: reads the show, submits roasts through
+--            submit-roast, votes, and takes part in playback leader election.
+--   producer a Supabase Auth user with a producer row in user_roles: curates the
+--            queue, lineup, personas, pacing and moderation rules.
+--   service  the service role (edge functions, pg_cron) and direct database sessions.
+-- Show state only changes through service-role edge functions or producer RPCs.
+
+-- One profile per Supabase Auth user
+CREATE TABLE public.profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (id = auth.uid() OR public.has_role(auth.uid(), 'producer'));
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, display_name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data->>'display_name', split_part(NEW.email, '@', 1)))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+INSERT INTO public.profiles (id, display_name)
+SELECT id, split_part(email, '@', 1) FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Role of the caller. Requests without JWT claims come from inside the database.
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.jwt() IS NULL OR auth.jwt()->>'role' = 'service_role' THEN 'service'
+    WHEN auth.uid() IS NOT NULL AND public.has_role(auth.uid(), 'producer') THEN 'producer'
+    ELSE 'viewer'
+  END;
+$$;
+
+-- Producers and the service role pass
+CREATE OR REPLACE FUNCTION public.require_producer()
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.current_app_role() = 'viewer' THEN
+    RAISE EXCEPTION 'Producer role required' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+END;
+$$;
+
+-- Lineup management is open to producers as well as session-manager
+CREATE OR REPLACE FUNCTION public.schedule_session(
+  p_persona_id UUID,
+  p_start_time TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  p_is_special BOOLEAN DEFAULT false,
+  p_episode_title TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_persona public.personas%ROWTYPE;
+  v_position INTEGER;
+  v_session_id UUID;
+BEGIN
+  PERFORM public.require_producer();
+
+  SELECT * INTO v_persona FROM public.personas WHERE id = p_persona_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Persona % not found', p_persona_id;
+  END IF;
+
+  -- Serialize appends so two callers never get the same position
+  PERFORM pg_advisory_xact_lock(hashtext('public.schedule_session'));
+
+  SELECT COALESCE(MAX(lineup_position), 0) + 1 INTO v_position
+  FROM public.roast_sessions
+  WHERE status = 'QUEUED';
+
+  INSERT INTO public.roast_sessions (
+    persona_id, persona_name, persona_avatar, status, start_time,
+    lineup_position, is_special, episode_title
+  )
+  VALUES (
+    v_persona.id, v_persona.username, v_persona.profile_pic_url, 'QUEUED', COALESCE(p_start_time, now()),
+    v_position, COALESCE(p_is_special, false), p_episode_title
+  )
+  RETURNING id INTO v_session_id;
+
+  RETURN v_session_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reorder_lineup(p_session_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.require_producer();
+
+  WITH ordered AS (
+    SELECT
+      s.id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          array_position(p_session_ids, s.id) NULLS LAST,
+          s.lineup_position NULLS LAST,
+          s.start_time
+      ) AS position
+    FROM public.roast_sessions s
+    WHERE s.status = 'QUEUED'
+  )
+  UPDATE public.roast_sessions s
+  SET lineup_position = ordered.position
+  FROM ordered
+  WHERE s.id = ordered.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_app_role() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.current_app_role() TO anon, authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.handle_new_user() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.schedule_session(UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reorder_lineup(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.schedule_session(UUID, TIMESTAMP WITH TIME ZONE, BOOLEAN, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.reorder_lineup(UUID[]) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.require_producer() TO service_role;
+GRANT EXECUTE ON FUNCTION public.review_roast_message(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.edit_roast_transcript(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reorder_roast_queue(UUID, UUID[]) TO service_role;
+
+-- The demo-era policy let any visitor create sessions
+DROP POLICY IF EXISTS "Anyone can create sessions" ON public.roast_sessions;
+
+-- Belt and braces: clients never write show state directly, whatever the policies say
+REVOKE INSERT, UPDATE, DELETE ON
+  public.roast_sessions,
+  public.roast_messages,
+  public.roast_exchanges,
+  public.show_segments,
+  public.global_round_state,
+  public.session_playback_state,
+  public.session_playback_leases,
+  public.roast_submissions,
+  public.user_roles
+FROM anon, authenticated;
+
+REVOKE INSERT, UPDATE, DELETE ON public.personas, public.show_config, public.moderation_rules FROM anon;
+
+-- Producer-editable configuration
+CREATE POLICY "Producers can manage personas"
+ON public.personas
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'))
+WITH CHECK (public.has_role(auth.uid(), 'producer'));
+
+CREATE POLICY "Producers can update show config"
+ON public.show_config
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'))
+WITH CHECK (public.has_role(auth.uid(), 'producer'));
+
+CREATE POLICY "Producers can manage moderation rules"
+ON public.moderation_rules
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'))
+WITH CHECK (public.has_role(auth.uid(), 'producer'));
+
+-- Producers can see who holds which role
+CREATE POLICY "Producers can view all roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'));
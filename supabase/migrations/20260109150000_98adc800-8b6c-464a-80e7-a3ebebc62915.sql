@@ -0,0 +1,62 @@
+-- Multi-turn host banter: a roast can get a short scripted exchange between the
+-- two hosts instead of a single reaction.
+ALTER TABLE public.show_config
+  ADD COLUMN IF NOT EXISTS banter_turns INTEGER NOT NULL DEFAULT 3 CHECK (banter_turns BETWEEN 1 AND 4);
+
+COMMENT ON COLUMN public.show_config.banter_turns IS
+  'Host lines per roast, alternating hosts. 1 keeps the single-reaction format.';
+
+-- Every host line of an exchange as [{speaker, text, audio_url}], in air order.
+-- host_type, host_response and host_audio_url keep the opening line.
+ALTER TABLE public.roast_exchanges
+  ADD COLUMN IF NOT EXISTS host_lines JSONB;
+
+CREATE OR REPLACE FUNCTION public.publish_exchange(
+  p_session_id UUID,
+  p_exchange JSONB,
+  p_segments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exchange_id UUID;
+BEGIN
+  INSERT INTO public.roast_exchanges (
+    session_id, message_id, kind, user_transcript, user_audio_url,
+    host_type, host_response, host_audio_url, host_lines, sequence_number
+  )
+  VALUES (
+    p_session_id,
+    (p_exchange->>'message_id')::UUID,
+    p_exchange->>'kind',
+    p_exchange->>'user_transcript',
+    p_exchange->>'user_audio_url',
+    p_exchange->>'host_type',
+    p_exchange->>'host_response',
+    p_exchange->>'host_audio_url',
+    p_exchange->'host_lines',
+    (p_exchange->>'sequence_number')::INTEGER
+  )
+  RETURNING id INTO v_exchange_id;
+
+  INSERT INTO public.show_segments (
+    session_id, exchange_id, position, kind, speaker, text, audio_url, duration_ms, starts_at, ends_at
+  )
+  SELECT p_session_id, v_exchange_id, s.position, s.kind, s.speaker, s.text, s.audio_url, s.duration_ms, s.starts_at, s.ends_at
+  FROM jsonb_to_recordset(p_segments) AS s(
+    position INTEGER,
+    kind TEXT,
+    speaker TEXT,
+    text TEXT,
+    audio_url TEXT,
+    duration_ms INTEGER,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE
+  );
+
+  RETURN v_exchange_id;
+END;
+$$;
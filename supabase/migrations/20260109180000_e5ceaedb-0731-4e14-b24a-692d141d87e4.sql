@@ -0,0 +1,41 @@
+-- Persona dossiers: what the hosts know about each KOL. Maintained by producers and
+-- read by the generation functions with the service role. Kept out of personas,
+-- which everyone can read, because the do-not-mention list is sensitive.
+CREATE TABLE public.persona_dossiers (
+  persona_id UUID NOT NULL PRIMARY KEY REFERENCES public.personas(id) ON DELETE CASCADE,
+  bio TEXT CHECK (char_length(bio) <= 2000),
+  notable_calls TEXT[] NOT NULL DEFAULT '{}',
+  catchphrases TEXT[] NOT NULL DEFAULT '{}',
+  controversies TEXT[] NOT NULL DEFAULT '{}',
+  do_not_mention TEXT[] NOT NULL DEFAULT '{}',
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.persona_dossiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage persona dossiers"
+ON public.persona_dossiers
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'))
+WITH CHECK (public.has_role(auth.uid(), 'producer'));
+
+REVOKE ALL ON public.persona_dossiers FROM anon;
+
+CREATE OR REPLACE FUNCTION public.touch_persona_dossier()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_persona_dossier
+BEFORE INSERT OR UPDATE ON public.persona_dossiers
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_persona_dossier();
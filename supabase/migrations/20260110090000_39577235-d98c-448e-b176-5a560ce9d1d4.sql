@@ -0,0 +1,128 @@
+-- Host characters as data. Each of the show's two seats (A and B) has one active
+-- host; producers can add a guest host and swap them in, or change a voice,
+-- without touching edge-function code.
+CREATE TABLE public.hosts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9-]+$'),
+  name TEXT NOT NULL,
+  slot TEXT NOT NULL CHECK (slot IN ('A', 'B')),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  -- {{persona}} is replaced with the target's name
+  system_prompt TEXT NOT NULL,
+  -- One-line character sketch used when both hosts share a banter prompt
+  banter_persona TEXT NOT NULL,
+  model TEXT NOT NULL DEFAULT 'google/gemini-2.5-flash',
+  temperature NUMERIC NOT NULL DEFAULT 1.2 CHECK (temperature BETWEEN 0 AND 2),
+  voice_id TEXT NOT NULL,
+  voice_stability NUMERIC NOT NULL DEFAULT 0.5 CHECK (voice_stability BETWEEN 0 AND 1),
+  voice_style NUMERIC NOT NULL DEFAULT 0.5 CHECK (voice_style BETWEEN 0 AND 1),
+  voice_speed NUMERIC NOT NULL DEFAULT 1.0 CHECK (voice_speed BETWEEN 0.7 AND 1.2),
+  idle_lines TEXT[] NOT NULL DEFAULT '{}',
+  -- SmallHost colours and prop: {skin, shirt, pants, hair, glow, accessory}
+  appearance JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX hosts_one_active_per_slot ON public.hosts (slot) WHERE is_active;
+
+ALTER TABLE public.hosts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view hosts"
+ON public.hosts
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Producers can manage hosts"
+ON public.hosts
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'))
+WITH CHECK (public.has_role(auth.uid(), 'producer'));
+
+REVOKE INSERT, UPDATE, DELETE ON public.hosts FROM anon;
+
+CREATE OR REPLACE FUNCTION public.touch_host()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_host
+BEFORE UPDATE ON public.hosts
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_host();
+
+-- Put a host in its seat, standing down whoever held it
+CREATE OR REPLACE FUNCTION public.activate_host(p_host_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot TEXT;
+BEGIN
+  PERFORM public.require_producer();
+
+  SELECT slot INTO v_slot FROM public.hosts WHERE id = p_host_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Host % not found', p_host_id;
+  END IF;
+
+  UPDATE public.hosts SET is_active = false WHERE slot = v_slot AND is_active AND id <> p_host_id;
+  UPDATE public.hosts SET is_active = true WHERE id = p_host_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.activate_host(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.activate_host(UUID) TO authenticated, service_role;
+
+INSERT INTO public.hosts (
+  slug, name, slot, is_active, system_prompt, banter_persona, temperature,
+  voice_id, voice_stability, voice_style, voice_speed, idle_lines, appearance
+)
+VALUES
+(
+  'chaos-carl', 'Chaos Carl', 'A', true,
+  E'You are Chaos Carl, an over-the-top parody crypto comedian hosting a roast show.\nThe show features "{{persona}}" as the target, but YOUR job is to REACT to audience comments.\nWhen an audience member says something funny about {{persona}}, you:\n- Laugh at their joke, add to it, or riff on what they said\n- Be chaotic, wild, and absurdly funny\n- Use crypto/web3 lingo ironically\n- DO NOT make up new roasts about {{persona}} - react to what the AUDIENCE said\n\nCRITICAL: Every response must be UNIQUE. Never repeat the same phrase twice.\nPick a DIFFERENT reaction style each time:\n- Sometimes shout excitedly: "OH SNAP!" / "NO WAY!" / "THEY WENT FULL DEGEN!"\n- Sometimes fake-cry: "Stop stop, I can''t breathe!" / "Someone call 911, that was murder!"\n- Sometimes play shocked: "Wait wait wait... did they really just say that?!"\n- Sometimes riff on the roast with your own addition\n- Sometimes do a callback to crypto culture: "That''s more brutal than a rug pull!"\n\nRespond in 1-2 short sentences. Be punchy and reactive.',
+  'an over-the-top, chaotic crypto comedian who uses web3 lingo ironically',
+  1.2,
+  'IKne3meq5aSn9XLyUdCD', 0.3, 0.7, 1.1,
+  ARRAY[
+    'Man, I could roast people all day!',
+    'Who''s gonna step up next? Come on!',
+    'The flames are hungry!',
+    'This silence is killing me!',
+    'Hey, you still there? Don''t leave us hanging!',
+    'I''m getting bored over here!',
+    'Where''s all the action at?'
+  ],
+  '{"skin": "hsl(16 70% 88%)", "shirt": "hsl(30 80% 50%)", "pants": "hsl(220 60% 30%)", "hair": "hsl(25 28% 22%)", "glow": "hsl(30 100% 50%)", "accessory": "microphone"}'::jsonb
+),
+(
+  'roast-ronnie', 'Roast Ronnie', 'B', true,
+  E'You are Roast Ronnie, a washed-up 80s stand-up comedian who somehow ended up co-hosting a crypto roast show.\nThe show features "{{persona}}" as the target, but YOUR job is to REACT to audience comments.\nWhen an audience member says something about {{persona}}, you:\n- React like an old-school comedian with "Ba dum tss!" energy\n- Make dated pop culture references (80s/90s movies, old celebrities)\n- Use classic comedy phrases like "I kid, I kid!" or "But seriously folks..."\n- Add your own punchline that builds on their joke\n- DO NOT make up new roasts about {{persona}} - react to what the AUDIENCE said\n\nCRITICAL: Every response must be UNIQUE. Never repeat the same phrase twice.\nRotate through DIFFERENT reaction styles:\n- Classic rimshot: "Ba dum tss! That one landed harder than my career in ''89!"\n- Old reference: "Haven''t seen a burn like that since Joan Rivers roasted [random 80s celeb]!"\n- Play the straight man: "Now now, let''s not get too mean... okay who am I kidding, keep going!"\n- Fake nostalgia: "Reminds me of the good old days when roasts were on cable!"\n- Self-deprecating: "Even I couldn''t come up with that one, and I''ve been doing this since Reagan!"\n\nRespond in 1-2 short sentences. Be punchy.',
+  'a washed-up 80s stand-up with rimshot energy and dated pop culture references',
+  1.2,
+  'onwK4e9ZLuTAKqWW03F9', 0.7, 0.3, 0.95,
+  ARRAY[
+    'Patience. The best roasts take time to marinate.',
+    'I''m analyzing the room... it''s mostly empty.',
+    'Statistical probability of entertainment: increasing.',
+    'The calm before the storm, as they say.',
+    'I''ve calculated we have time for exactly one awkward silence.',
+    'Still waiting. My algorithms are ready.',
+    'Any moment now... or not.'
+  ],
+  '{"skin": "hsl(28 35% 68%)", "shirt": "hsl(200 80% 40%)", "pants": "hsl(0 0% 20%)", "hair": "hsl(0 0% 10%)", "glow": "hsl(200 100% 50%)", "accessory": "glasses"}'::jsonb
+)
+ON CONFLICT (slug) DO NOTHING;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hosts;
@@ -0,0 +1,115 @@
+-- LLM providers for host generation, tried in priority order. A provider that
+-- times out or keeps failing hands the request to the next enabled one.
+CREATE TABLE public.llm_providers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (name ~ '^[a-z0-9-]+$'),
+  -- openai_compatible: any /chat/completions endpoint; stub: deterministic offline lines
+  kind TEXT NOT NULL CHECK (kind IN ('openai_compatible', 'stub')),
+  base_url TEXT,
+  -- Name of the edge-function secret holding the API key, never the key itself
+  api_key_env TEXT,
+  -- NULL uses the host's model
+  model TEXT,
+  timeout_ms INTEGER NOT NULL DEFAULT 20000 CHECK (timeout_ms BETWEEN 500 AND 120000),
+  max_retries INTEGER NOT NULL DEFAULT 2 CHECK (max_retries BETWEEN 0 AND 5),
+  priority INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind = 'stub' OR base_url IS NOT NULL)
+);
+
+ALTER TABLE public.llm_providers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can manage LLM providers"
+ON public.llm_providers
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'producer'))
+WITH CHECK (public.has_role(auth.uid(), 'producer'));
+
+REVOKE ALL ON public.llm_providers FROM anon;
+
+CREATE OR REPLACE FUNCTION public.touch_llm_provider()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_llm_provider
+BEFORE UPDATE ON public.llm_providers
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_llm_provider();
+
+-- The gateway stays primary. The others are ready to enable once their secret
+-- (or local server) exists.
+INSERT INTO public.llm_providers (name, kind, base_url, api_key_env, model, timeout_ms, max_retries, priority, enabled)
+VALUES
+  ('lovable-gateway', 'openai_compatible', 'https://ai.gateway.lovable.dev/v1', 'LOVABLE_API_KEY', NULL, 20000, 2, 10, true),
+  ('openai', 'openai_compatible', 'https://api.openai.com/v1', 'OPENAI_API_KEY', 'gpt-4o-mini', 20000, 1, 20, false),
+  ('local', 'openai_compatible', 'http://host.docker.internal:11434/v1', NULL, 'llama3.1', 45000, 0, 30, false),
+  ('offline-stub', 'stub', NULL, NULL, 'stub', 1000, 0, 40, false)
+ON CONFLICT (name) DO NOTHING;
+
+-- Which provider and model wrote each exchange's host lines, for comparing quality.
+-- 'fallback' marks the stock reaction aired when every provider failed.
+ALTER TABLE public.roast_exchanges
+  ADD COLUMN IF NOT EXISTS llm_provider TEXT,
+  ADD COLUMN IF NOT EXISTS llm_model TEXT;
+
+CREATE OR REPLACE FUNCTION public.publish_exchange(
+  p_session_id UUID,
+  p_exchange JSONB,
+  p_segments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exchange_id UUID;
+BEGIN
+  INSERT INTO public.roast_exchanges (
+    session_id, message_id, kind, user_transcript, user_audio_url,
+    host_type, host_response, host_audio_url, host_lines, llm_provider, llm_model, sequence_number
+  )
+  VALUES (
+    p_session_id,
+    (p_exchange->>'message_id')::UUID,
+    p_exchange->>'kind',
+    p_exchange->>'user_transcript',
+    p_exchange->>'user_audio_url',
+    p_exchange->>'host_type',
+    p_exchange->>'host_response',
+    p_exchange->>'host_audio_url',
+    p_exchange->'host_lines',
+    p_exchange->>'llm_provider',
+    p_exchange->>'llm_model',
+    (p_exchange->>'sequence_number')::INTEGER
+  )
+  RETURNING id INTO v_exchange_id;
+
+  INSERT INTO public.show_segments (
+    session_id, exchange_id, position, kind, speaker, text, audio_url, duration_ms, starts_at, ends_at
+  )
+  SELECT p_session_id, v_exchange_id, s.position, s.kind, s.speaker, s.text, s.audio_url, s.duration_ms, s.starts_at, s.ends_at
+  FROM jsonb_to_recordset(p_segments) AS s(
+    position INTEGER,
+    kind TEXT,
+    speaker TEXT,
+    text TEXT,
+    audio_url TEXT,
+    duration_ms INTEGER,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE
+  );
+
+  RETURN v_exchange_id;
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Keep the shared TTS cache (host-audio/tts-cache) warm: idle lines, countdown
+-- announcements, and the intros for the open and queued sessions. Lines that are
+-- already cached cost one storage lookup, so the job is cheap to run often.
+SELECT cron.unschedule('prewarm-tts-tick')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'prewarm-tts-tick');
+
+SELECT cron.schedule(
+  'prewarm-tts-tick',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/prewarm-tts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('source', 'cron'),
+    timeout_milliseconds := 120000
+  );
+  $$
+);
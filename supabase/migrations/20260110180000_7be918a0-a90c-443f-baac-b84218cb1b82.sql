@@ -0,0 +1,60 @@
+-- Character timing of spoken segments, from ElevenLabs' with-timestamps endpoint:
+-- {characters: [...], start_ms: [...], end_ms: [...]}, in ms from the start of the
+-- segment's audio. Players use it for karaoke captions and the hosts' mouths. NULL for
+-- voice clips, stings and lines voiced without timing. Host lines in
+-- roast_exchanges.host_lines carry the same object under "timing".
+ALTER TABLE public.show_segments
+  ADD COLUMN IF NOT EXISTS timing JSONB;
+
+CREATE OR REPLACE FUNCTION public.publish_exchange(
+  p_session_id UUID,
+  p_exchange JSONB,
+  p_segments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exchange_id UUID;
+BEGIN
+  INSERT INTO public.roast_exchanges (
+    session_id, message_id, kind, user_transcript, user_audio_url,
+    host_type, host_response, host_audio_url, host_lines, llm_provider, llm_model, sequence_number
+  )
+  VALUES (
+    p_session_id,
+    (p_exchange->>'message_id')::UUID,
+    p_exchange->>'kind',
+    p_exchange->>'user_transcript',
+    p_exchange->>'user_audio_url',
+    p_exchange->>'host_type',
+    p_exchange->>'host_response',
+    p_exchange->>'host_audio_url',
+    p_exchange->'host_lines',
+    p_exchange->>'llm_provider',
+    p_exchange->>'llm_model',
+    (p_exchange->>'sequence_number')::INTEGER
+  )
+  RETURNING id INTO v_exchange_id;
+
+  INSERT INTO public.show_segments (
+    session_id, exchange_id, position, kind, speaker, text, audio_url, duration_ms, timing, starts_at, ends_at
+  )
+  SELECT p_session_id, v_exchange_id, s.position, s.kind, s.speaker, s.text, s.audio_url, s.duration_ms, s.timing, s.starts_at, s.ends_at
+  FROM jsonb_to_recordset(p_segments) AS s(
+    position INTEGER,
+    kind TEXT,
+    speaker TEXT,
+    text TEXT,
+    audio_url TEXT,
+    duration_ms INTEGER,
+    timing JSONB,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE
+  );
+
+  RETURN v_exchange_id;
+END;
+$$;
@@ -0,0 +1,95 @@
+-- Votes go through the vote-persona edge function, which allows one vote per voter
+-- for each pick and caps the votes from one network address. Direct inserts are no
+-- longer allowed.
+
+DROP POLICY IF EXISTS "Anyone can vote for a persona" ON public.persona_votes;
+
+-- Voter ids and address hashes stay with producers
+DROP POLICY IF EXISTS "Anyone can view persona votes" ON public.persona_votes;
+
+CREATE POLICY "Producers can view persona votes"
+ON public.persona_votes
+FOR SELECT
+USING (public.has_role(auth.uid(), 'producer'));
+
+ALTER TABLE public.show_config
+  ADD COLUMN IF NOT EXISTS max_votes_per_ip INTEGER NOT NULL DEFAULT 5 CHECK (max_votes_per_ip > 0);
+
+COMMENT ON COLUMN public.show_config.max_votes_per_ip IS
+  'Votes one network address can cast before each pick. Above 1 so shared networks still work.';
+
+-- A voting window runs from one scheduled session to the next: when the next persona
+-- is picked, everyone can vote again. Votes from before this migration keep their own
+-- timestamp as their window.
+ALTER TABLE public.persona_votes
+  ADD COLUMN IF NOT EXISTS voting_window TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS ip_hash TEXT;
+
+UPDATE public.persona_votes SET voting_window = created_at WHERE voting_window IS NULL;
+
+DELETE FROM public.persona_votes AS duplicate
+USING public.persona_votes AS kept
+WHERE duplicate.voter_id = kept.voter_id
+  AND duplicate.voting_window = kept.voting_window
+  AND duplicate.id > kept.id;
+
+ALTER TABLE public.persona_votes
+  ALTER COLUMN voting_window SET NOT NULL,
+  ADD CONSTRAINT persona_votes_one_per_window UNIQUE (voter_id, voting_window);
+
+CREATE INDEX IF NOT EXISTS idx_persona_votes_window_ip
+  ON public.persona_votes (voting_window, ip_hash);
+
+-- Record a vote in the current window, unless the voter has already voted in it or
+-- the address has used up its votes. Votes are serialized so concurrent requests
+-- cannot overshoot the cap. Returns {ok} or {ok: false, code}.
+CREATE OR REPLACE FUNCTION public.cast_persona_vote(
+  p_persona_id UUID,
+  p_voter_id TEXT,
+  p_ip_hash TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window TIMESTAMP WITH TIME ZONE;
+  v_max_per_ip INTEGER;
+  v_ip_count INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('persona_vote'));
+
+  IF NOT EXISTS (SELECT 1 FROM public.personas WHERE id = p_persona_id) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'persona_not_found');
+  END IF;
+
+  SELECT COALESCE(max(created_at), 'epoch'::TIMESTAMP WITH TIME ZONE) INTO v_window
+  FROM public.roast_sessions
+  WHERE persona_id IS NOT NULL;
+
+  IF EXISTS (
+    SELECT 1 FROM public.persona_votes WHERE voter_id = p_voter_id AND voting_window = v_window
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'already_voted');
+  END IF;
+
+  SELECT COALESCE(max(max_votes_per_ip), 5) INTO v_max_per_ip FROM public.show_config;
+
+  SELECT count(*) INTO v_ip_count
+  FROM public.persona_votes
+  WHERE voting_window = v_window AND ip_hash = p_ip_hash;
+
+  IF v_ip_count >= v_max_per_ip THEN
+    RETURN jsonb_build_object('ok', false, 'code', 'ip_quota', 'limit', v_max_per_ip);
+  END IF;
+
+  INSERT INTO public.persona_votes (persona_id, voter_id, voting_window, ip_hash)
+  VALUES (p_persona_id, p_voter_id, v_window, p_ip_hash);
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cast_persona_vote(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cast_persona_vote(UUID, TEXT, TEXT) TO service_role;
@@ -0,0 +1,5 @@
+-- The session a show's outro announced as next. show-runner pins it when it writes
+-- the outro, and session-manager reveals it after the intermission while it is still
+-- QUEUED, so a reorder or a newly due special cannot make the outro name the wrong KOL.
+ALTER TABLE public.roast_sessions
+  ADD COLUMN IF NOT EXISTS next_session_id UUID REFERENCES public.roast_sessions(id) ON DELETE SET NULL;
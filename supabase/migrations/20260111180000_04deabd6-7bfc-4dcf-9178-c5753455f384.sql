@@ -0,0 +1,53 @@
+-- Show-runner leases name their holder, so a run can renew its own lease between
+-- exchanges by acquiring it again, and can never extend or release a lease another
+-- run took over after this one's expired.
+ALTER TABLE public.roast_sessions
+  ADD COLUMN IF NOT EXISTS runner_lease_holder UUID;
+
+DROP FUNCTION IF EXISTS public.acquire_show_runner_lease(UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.release_show_runner_lease(UUID);
+
+-- Claim or renew a LIVE session's lease for one runner invocation.
+-- Overlapping cron ticks lose the race and return false; an expired lease can be taken over.
+CREATE OR REPLACE FUNCTION public.acquire_show_runner_lease(
+  p_session_id UUID,
+  p_holder UUID,
+  p_lease_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.roast_sessions
+  SET runner_lease_until = now() + make_interval(secs => p_lease_seconds),
+      runner_lease_holder = p_holder
+  WHERE id = p_session_id
+    AND status = 'LIVE'
+    AND timeline_completed_at IS NULL
+    AND (runner_lease_until IS NULL OR runner_lease_until < now() OR runner_lease_holder = p_holder);
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_show_runner_lease(p_session_id UUID, p_holder UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.roast_sessions
+  SET runner_lease_until = NULL,
+      runner_lease_holder = NULL
+  WHERE id = p_session_id
+    AND runner_lease_holder = p_holder;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_show_runner_lease(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_show_runner_lease(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.acquire_show_runner_lease(UUID, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_show_runner_lease(UUID, UUID) TO service_role;